@@ -10,17 +10,38 @@ import {
   ChangeDetectorRef,
   AfterViewInit,
   NgZone,
+  OnChanges,
+  SimpleChanges,
 } from '@angular/core';
 import OpenSeadragon from 'openseadragon';
 import { OpenSeadragonAnnotator } from '../core/annotator/OpenSeadragonAnnotator';
 import { Annotation, AnnotationEvent } from '../types/annotation.types';
+import { HistoryChangedEvent } from '../types/events.types';
+import { W3CAnnotation } from '../types/w3c.types';
+import { GeoJSONFeature, GeoJSONFeatureCollection } from '../types/geojson.types';
+import { GeoJSONSerializeOptions } from '../formats/GeoJSONSerializer';
+import { COCOImportOptions, DatasetExportOptions } from '../formats/COCOSerializer';
+import { COCODataset } from '../types/coco.types';
+import { StorageAdapter } from '../core/storage';
+import { AnnotationLayer } from '../types/layer.types';
+import { ClipboardPayload } from '../types/clipboard.types';
+import { AnnotationContextEvent, ContextMenuConfig } from '../types/context-menu.types';
+import { Point } from '../types/shape.types';
+import {
+  Measurement,
+  MeasurementCalibration,
+  MeasurementType,
+} from '../types/measurement.types';
 import {
   Theme,
   lightTheme,
   darkTheme,
   ShapeStyle,
+  HighContrastMode,
 } from '../core/managers/StyleManager';
-import { Tool } from '../tools';
+import { StyleRule } from '../core/managers/StyleRules';
+import { SnapConfig } from '../core/managers/SnapManager';
+import { DrawingOptions, FreehandOptions, MagicWandOptions, Tool } from '../tools';
 
 @Component({
   selector: 'lib-annotorious-openseadragon',
@@ -30,7 +51,7 @@ import { Tool } from '../tools';
   ],
 })
 export class AnnotoriousOpenseadragonComponent
-  implements OnInit, OnDestroy, AfterViewInit
+  implements OnInit, OnDestroy, AfterViewInit, OnChanges
 {
   private viewer!: OpenSeadragon.Viewer;
   private annotator!: OpenSeadragonAnnotator;
@@ -45,7 +66,8 @@ export class AnnotoriousOpenseadragonComponent
   };
   @Input() showNavigationControl: boolean = false;
   @Input() imageSource: any;
-  @Input() theme: Theme = lightTheme;
+  /** Theme object, registered theme name, or 'auto' */
+  @Input() theme: Theme | string = lightTheme;
   @Input() defaultTool:
     | 'rectangle'
     | 'polygon'
@@ -53,6 +75,29 @@ export class AnnotoriousOpenseadragonComponent
     | 'ellipse'
     | 'freehand'
     | 'text' = 'rectangle';
+  @Input() storage?: StorageAdapter;
+  @Input() autoSave: boolean = true;
+  @Input() styleRules: StyleRule[] = [];
+  /** Viewer mode: annotations can be selected and hovered but not drawn, edited or deleted */
+  @Input() readOnly: boolean = false;
+  /** Snap to other shapes, a grid or 15° angles while drawing and editing */
+  @Input() snapping: SnapConfig | boolean = false;
+  /** Pixels per real-world unit for measurement labels; null for pixels */
+  @Input() calibration: MeasurementCalibration | null = null;
+  /** Attach area/perimeter measurements to drawn area shapes */
+  @Input() measureShapes: boolean = false;
+  /** Colour tolerance and outline simplification of the magic wand tool */
+  @Input() magicWand: MagicWandOptions = {};
+  /** Simplification and smoothing of freehand drawings */
+  @Input() freehand: FreehandOptions = {};
+  /** CORS mode for image requests; the magic wand needs readable (untainted) pixels */
+  @Input() crossOriginPolicy: 'Anonymous' | 'use-credentials' | false = false;
+  /** Thicker, opaque strokes; 'auto' follows the system contrast preference */
+  @Input() highContrast: HighContrastMode = false;
+  /** Built-in menu on right-click or long-press */
+  @Input() contextMenu: ContextMenuConfig | boolean = false;
+  /** Aspect ratio kept by Shift while drawing or resizing rectangles and ellipses */
+  @Input() drawing: DrawingOptions = {};
 
   @Output() annotationCreated = new EventEmitter<AnnotationEvent>();
   @Output() annotationUpdated = new EventEmitter<AnnotationEvent>();
@@ -61,7 +106,14 @@ export class AnnotoriousOpenseadragonComponent
   @Output() annotationDeselected = new EventEmitter<any>();
   @Output() annotatorReady = new EventEmitter<OpenSeadragonAnnotator>();
   @Output() contextMenuClicked = new EventEmitter<any>();
+  /** Right-click or long-press on an annotation, handle or the canvas */
+  @Output() annotationContextMenu = new EventEmitter<AnnotationContextEvent>();
   @Output() OsdViewerReady = new EventEmitter<OpenSeadragon.Viewer>();
+  @Output() historyChanged = new EventEmitter<HistoryChangedEvent>();
+  @Output() selectionChanged = new EventEmitter<string[]>();
+  @Output() annotationsRestored = new EventEmitter<Annotation[]>();
+  @Output() storageError = new EventEmitter<any>();
+  @Output() layersChanged = new EventEmitter<AnnotationLayer[]>();
 
   tools: string[] = [];
   activeTool: string | null = null;
@@ -86,6 +138,43 @@ export class AnnotoriousOpenseadragonComponent
     return this.annotatorReadyPromise;
   }
 
+  ngOnChanges(changes: SimpleChanges) {
+    if (changes['theme'] && !changes['theme'].firstChange && this.annotator) {
+      this.annotator.setTheme(this.theme);
+    }
+    if (changes['styleRules'] && this.annotator) {
+      this.annotator.setStyleRules(this.styleRules || []);
+    }
+    if (changes['readOnly'] && this.annotator) {
+      this.annotator.setReadOnly(this.readOnly);
+      this.activeTool = this.annotator.getActiveTool();
+    }
+    if (changes['snapping'] && !changes['snapping'].firstChange && this.annotator) {
+      this.annotator.setSnapping(this.snapping);
+    }
+    if (changes['calibration'] && !changes['calibration'].firstChange && this.annotator) {
+      this.annotator.setCalibration(this.calibration);
+    }
+    if (changes['measureShapes'] && this.annotator) {
+      this.annotator.setMeasureShapes(this.measureShapes);
+    }
+    if (changes['magicWand'] && !changes['magicWand'].firstChange && this.annotator) {
+      this.annotator.setMagicWandOptions(this.magicWand);
+    }
+    if (changes['freehand'] && !changes['freehand'].firstChange && this.annotator) {
+      this.annotator.setFreehandOptions(this.freehand);
+    }
+    if (changes['highContrast'] && !changes['highContrast'].firstChange && this.annotator) {
+      this.annotator.setHighContrast(this.highContrast);
+    }
+    if (changes['contextMenu'] && !changes['contextMenu'].firstChange && this.annotator) {
+      this.annotator.setContextMenu(this.contextMenu);
+    }
+    if (changes['drawing'] && !changes['drawing'].firstChange && this.annotator) {
+      this.annotator.setDrawingOptions(this.drawing);
+    }
+  }
+
   ngAfterViewInit() {
     this.viewer.addHandler('open', () => {
       this.updateViewerSize();
@@ -99,6 +188,19 @@ export class AnnotoriousOpenseadragonComponent
         this.annotator = new OpenSeadragonAnnotator({
           viewer: this.viewer,
           theme: this.theme,
+          imageUrl: typeof this.imageSource === 'string' ? this.imageSource : undefined,
+          storage: this.storage,
+          autoSave: this.autoSave,
+          styleRules: this.styleRules,
+          readOnly: this.readOnly,
+          snapping: this.snapping,
+          calibration: this.calibration ?? undefined,
+          measureShapes: this.measureShapes,
+          magicWand: this.magicWand,
+          freehand: this.freehand,
+          highContrast: this.highContrast,
+          contextMenu: this.contextMenu,
+          drawing: this.drawing,
         });
 
         // Add event listeners outside Angular zone for performance
@@ -143,6 +245,47 @@ export class AnnotoriousOpenseadragonComponent
           });
         });
 
+        // Emitted synchronously so handlers can still call preventDefault()
+        this.annotator.on('contextMenu', (evt: AnnotationContextEvent) => {
+          this.ngZone.run(() => {
+            this.annotationContextMenu.emit(evt);
+            this.cdr.detectChanges();
+          });
+        });
+
+        this.annotator.on('selectionChanged', (evt: { ids: string[] }) => {
+          this.ngZone.run(() => {
+            this.selectionChanged.emit(evt.ids);
+            this.cdr.detectChanges();
+          });
+        });
+
+        this.annotator.on('historyChanged', (evt: HistoryChangedEvent) => {
+          this.ngZone.run(() => {
+            this.historyChanged.emit(evt);
+            this.cdr.detectChanges();
+          });
+        });
+
+        this.annotator.on('restored', (evt: { annotations: Annotation[] }) => {
+          this.ngZone.run(() => {
+            this.annotationsRestored.emit(evt.annotations);
+            this.cdr.detectChanges();
+          });
+        });
+
+        this.annotator.on('storageError', (evt: any) => {
+          this.ngZone.run(() => {
+            this.storageError.emit(evt);
+          });
+        });
+
+        this.annotator.on('layersChanged', (evt: { layers: AnnotationLayer[] }) => {
+          this.ngZone.run(() => {
+            this.layersChanged.emit(evt.layers);
+          });
+        });
+
         // Small delay to ensure complete initialization
         setTimeout(() => {
           this.ngZone.run(() => {
@@ -184,6 +327,7 @@ export class AnnotoriousOpenseadragonComponent
         panVertical: true,
         constrainDuringPan: true,
         showNavigationControl: this.showNavigationControl,
+        crossOriginPolicy: this.crossOriginPolicy,
         gestureSettingsMouse: {
           clickToZoom: false,
           dblClickToZoom: false,
@@ -266,7 +410,7 @@ export class AnnotoriousOpenseadragonComponent
             value: `${group}`,
           };
         }
-        this.activeTool = tool;
+        this.activeTool = this.annotator.getActiveTool();
         this.cdr.detectChanges();
       }
     });
@@ -282,6 +426,55 @@ export class AnnotoriousOpenseadragonComponent
     });
   }
 
+  saveAnnotations(): Promise<void> {
+    return this.annotator ? this.annotator.save() : Promise.resolve();
+  }
+
+  exportW3C(): W3CAnnotation[] {
+    return this.annotator ? this.annotator.exportW3C() : [];
+  }
+
+  importW3C(data: W3CAnnotation | W3CAnnotation[] | { items: W3CAnnotation[] }): void {
+    this.ngZone.run(() => {
+      if (this.annotator) {
+        this.annotator.importW3C(data);
+        this.cdr.detectChanges();
+      }
+    });
+  }
+
+  exportGeoJSON(options?: GeoJSONSerializeOptions): GeoJSONFeatureCollection {
+    return this.annotator
+      ? this.annotator.exportGeoJSON(options)
+      : { type: 'FeatureCollection', features: [] };
+  }
+
+  importGeoJSON(data: GeoJSONFeatureCollection | GeoJSONFeature | GeoJSONFeature[]): void {
+    this.ngZone.run(() => {
+      if (this.annotator) {
+        this.annotator.importGeoJSON(data);
+        this.cdr.detectChanges();
+      }
+    });
+  }
+
+  exportCOCO(options?: DatasetExportOptions): COCODataset | null {
+    return this.annotator ? this.annotator.exportCOCO(options) : null;
+  }
+
+  exportVOC(options?: DatasetExportOptions): string {
+    return this.annotator ? this.annotator.exportVOC(options) : '';
+  }
+
+  importCOCO(dataset: COCODataset, options?: COCOImportOptions): void {
+    this.ngZone.run(() => {
+      if (this.annotator) {
+        this.annotator.importCOCO(dataset, options);
+        this.cdr.detectChanges();
+      }
+    });
+  }
+
   addAnnotation(annotation: any): void {
     this.ngZone.run(() => {
       if (this.annotator) {
@@ -384,6 +577,143 @@ export class AnnotoriousOpenseadragonComponent
     });
   }
 
+  /**
+   * Get the IDs of all selected annotations
+   */
+  getSelectedIds(): string[] {
+    return this.annotator ? this.annotator.getSelectedIds() : [];
+  }
+
+  /**
+   * Replace the current selection
+   */
+  selectAnnotations(annotationIds: string[]): void {
+    this.ngZone.run(() => {
+      if (this.annotator) {
+        this.annotator.selectAnnotations(annotationIds);
+        this.cdr.detectChanges();
+      }
+    });
+  }
+
+  /**
+   * Remove all selected annotations
+   */
+  removeSelectedAnnotations(): void {
+    this.ngZone.run(() => {
+      if (this.annotator) {
+        this.annotator.removeSelectedAnnotations();
+        this.cdr.detectChanges();
+      }
+    });
+  }
+
+  /**
+   * Copy the selected annotations; returns the clipboard payload
+   */
+  copySelectedAnnotations(): string | null {
+    return this.annotator ? this.annotator.copySelectedAnnotations() : null;
+  }
+
+  cutSelectedAnnotations(): string | null {
+    return this.ngZone.run(() => {
+      if (!this.annotator) return null;
+      const payload = this.annotator.cutSelectedAnnotations();
+      this.cdr.detectChanges();
+      return payload;
+    });
+  }
+
+  /**
+   * Paste clipboard annotations (or a payload from another viewer) at a
+   * position in image pixels; returns the new ids
+   */
+  pasteAnnotations(payload?: string | ClipboardPayload, position?: Point): string[] {
+    return this.ngZone.run(() => {
+      if (!this.annotator) return [];
+      const ids = this.annotator.pasteAnnotations(payload, position);
+      this.cdr.detectChanges();
+      return ids;
+    });
+  }
+
+  duplicateSelectedAnnotations(): string[] {
+    return this.ngZone.run(() => {
+      if (!this.annotator) return [];
+      const ids = this.annotator.duplicateSelectedAnnotations();
+      this.cdr.detectChanges();
+      return ids;
+    });
+  }
+
+  /**
+   * Move all selected annotations by an offset in image pixels
+   */
+  moveSelectedAnnotations(deltaX: number, deltaY: number): void {
+    this.ngZone.run(() => {
+      if (this.annotator) {
+        this.annotator.moveSelectedAnnotations(deltaX, deltaY);
+        this.cdr.detectChanges();
+      }
+    });
+  }
+
+  /**
+   * Apply a style to all selected annotations
+   */
+  setSelectedAnnotationsStyle(style: Partial<ShapeStyle>): void {
+    this.ngZone.run(() => {
+      if (this.annotator) {
+        this.annotator.setSelectedAnnotationsStyle(style);
+        this.cdr.detectChanges();
+      }
+    });
+  }
+
+  /**
+   * Hide all selected annotations
+   */
+  hideSelectedAnnotations(): void {
+    this.ngZone.run(() => {
+      if (this.annotator) {
+        this.annotator.hideSelectedAnnotations();
+        this.cdr.detectChanges();
+      }
+    });
+  }
+
+  /**
+   * Undo the last annotation change
+   */
+  undo(): void {
+    this.ngZone.run(() => {
+      if (this.annotator) {
+        this.annotator.undo();
+        this.cdr.detectChanges();
+      }
+    });
+  }
+
+  /**
+   * Redo the last undone annotation change
+   */
+  redo(): void {
+    this.ngZone.run(() => {
+      if (this.annotator) {
+        this.annotator.redo();
+        this.cdr.detectChanges();
+      }
+    });
+  }
+
+  canUndo(): boolean {
+    return this.annotator ? this.annotator.canUndo() : false;
+  }
+
+  canRedo(): boolean {
+    return this.annotator ? this.annotator.canRedo() : false;
+  }
+
   /**
    * Hide multiple annotations
    */
@@ -417,6 +747,210 @@ export class AnnotoriousOpenseadragonComponent
       : false;
   }
 
+  /**
+   * Set pixels per real-world unit, or null for pixels
+   */
+  setCalibration(calibration: MeasurementCalibration | null): void {
+    this.ngZone.run(() => {
+      if (this.annotator) {
+        this.annotator.setCalibration(calibration);
+        this.cdr.detectChanges();
+      }
+    });
+  }
+
+  /**
+   * Calibrate from a line or ruler annotation of known length
+   */
+  calibrateFromAnnotation(annotationId: string, length: number, unit: string): void {
+    this.ngZone.run(() => {
+      if (this.annotator) {
+        this.annotator.calibrateFromAnnotation(annotationId, length, unit);
+        this.cdr.detectChanges();
+      }
+    });
+  }
+
+  measureAnnotations(annotationIds: string[], type?: MeasurementType): void {
+    this.ngZone.run(() => {
+      if (this.annotator) {
+        this.annotator.measureAnnotations(annotationIds, type);
+        this.cdr.detectChanges();
+      }
+    });
+  }
+
+  clearMeasurements(annotationIds: string[]): void {
+    this.ngZone.run(() => {
+      if (this.annotator) {
+        this.annotator.clearMeasurements(annotationIds);
+        this.cdr.detectChanges();
+      }
+    });
+  }
+
+  getMeasurement(annotationId: string): Measurement | null {
+    return this.annotator ? this.annotator.getMeasurement(annotationId) : null;
+  }
+
+  /**
+   * Read a message out to screen reader users
+   */
+  announce(message: string): void {
+    if (this.annotator) {
+      this.annotator.announce(message);
+    }
+  }
+
+  /**
+   * Remove vertices of a polygon or freehand annotation that deviate less
+   * than `tolerance` image pixels; returns the number removed
+   */
+  simplifyAnnotation(annotationId: string, tolerance?: number): number {
+    return this.ngZone.run(() => {
+      if (!this.annotator) return 0;
+      const removed = this.annotator.simplifyAnnotation(annotationId, tolerance);
+      this.cdr.detectChanges();
+      return removed;
+    });
+  }
+
+  /**
+   * Lock or unlock annotations against editing, moving and deleting
+   */
+  setAnnotationLocked(annotationIds: string | string[], locked: boolean): void {
+    this.ngZone.run(() => {
+      if (this.annotator) {
+        this.annotator.setAnnotationLocked(annotationIds, locked);
+        this.cdr.detectChanges();
+      }
+    });
+  }
+
+  isAnnotationLocked(annotationId: string): boolean {
+    return this.annotator ? this.annotator.isAnnotationLocked(annotationId) : false;
+  }
+
+  /**
+   * Draw annotations above everything else in their layer
+  bringToFront(annotationIds: string | string[]): void {
+    this.ngZone.run(() => {
+      if (this.annotator) {
+        this.annotator.bringToFront(annotationIds);
+        this.cdr.detectChanges();
+      }
+    });
+  }
+
+  /**
+   * Draw annotations below everything else in their layer
+   */
+  sendToBack(annotationIds: string | string[]): void {
+    this.ngZone.run(() => {
+      if (this.annotator) {
+        this.annotator.sendToBack(annotationIds);
+        this.cdr.detectChanges();
+      }
+    });
+  }
+
+  /**
+   * Move annotations one step up within their layer
+   */
+  bringForward(annotationIds: string | string[]): void {
+    this.ngZone.run(() => {
+      if (this.annotator) {
+        this.annotator.bringForward(annotationIds);
+        this.cdr.detectChanges();
+      }
+    });
+  }
+
+  /**
+   * Move annotations one step down within their layer
+   */
+  sendBackward(annotationIds: string | string[]): void {
+    this.ngZone.run(() => {
+      if (this.annotator) {
+        this.annotator.sendBackward(annotationIds);
+        this.cdr.detectChanges();
+      }
+    });
+  }
+
+  getLayers(): AnnotationLayer[] {
+    return this.annotator ? this.annotator.getLayers() : [];
+  }
+
+  /**
+   * Add a layer on top, or at `index` in the stacking order
+   */
+  addLayer(layer: Partial<AnnotationLayer> & { id: string }, index?: number): void {
+    this.ngZone.run(() => {
+      if (this.annotator) {
+        this.annotator.addLayer(layer, index);
+        this.cdr.detectChanges();
+      }
+    });
+  }
+
+  /**
+   * Remove a layer; its annotations move to the default layer
+   */
+  removeLayer(layerId: string): void {
+    this.ngZone.run(() => {
+      if (this.annotator) {
+        this.annotator.removeLayer(layerId);
+        this.cdr.detectChanges();
+      }
+    });
+  }
+
+  /**
+   * Change a layer's name, visibility, opacity or lock
+   */
+  updateLayer(layerId: string, changes: Partial<Omit<AnnotationLayer, 'id'>>): void {
+    this.ngZone.run(() => {
+      if (this.annotator) {
+        this.annotator.updateLayer(layerId, changes);
+        this.cdr.detectChanges();
+      }
+    });
+  }
+
+  /**
+   * Move a layer to a new position in the stacking order (0 = bottom)
+   */
+  moveLayer(layerId: string, index: number): void {
+    this.ngZone.run(() => {
+      if (this.annotator) {
+        this.annotator.moveLayer(layerId, index);
+        this.cdr.detectChanges();
+      }
+    });
+  }
+
+  /**
+   * Set the layer that newly drawn annotations are added to
+   */
+  setActiveLayer(layerId: string): void {
+    if (this.annotator) {
+      this.annotator.setActiveLayer(layerId);
+    }
+  }
+
+  /**
+   * Move annotations to another layer
+   */
+  moveAnnotationsToLayer(annotationIds: string[], layerId: string): void {
+    this.ngZone.run(() => {
+      if (this.annotator) {
+        this.annotator.moveAnnotationsToLayer(annotationIds, layerId);
+        this.cdr.detectChanges();
+      }
+    });
+  }
+
   getAllAvailableTools(): string[] {
     // Synchronous getter - no zone management needed
     return this.annotator ? this.annotator.getAvailableTools() : [];
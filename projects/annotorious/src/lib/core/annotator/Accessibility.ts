@@ -0,0 +1,98 @@
+import { Annotation } from '../../types/annotation.types';
+
+const SHAPE_NAMES: Record<string, string> = {
+  rectangle: 'Rectangle',
+  polygon: 'Polygon',
+  circle: 'Circle',
+  ellipse: 'Ellipse',
+  freehand: 'Freehand shape',
+  text: 'Text',
+  point: 'Point',
+  'polyline-arrow': 'Polyline arrow',
+  line: 'Line',
+};
+
+/**
+ * Accessible names and user preferences for the overlay
+ */
+export class Accessibility {
+  /**
+   * Name announced for an annotation: its shape, then the label text and
+   * the text of its bodies, e.g. "Rectangle: Cat, needs review"
+   */
+  static describe(annotation: Annotation): string {
+    const geometry = annotation.target.selector.geometry;
+    const parts = [
+      geometry.type === 'text' ? geometry.text : undefined,
+      annotation.label?.text,
+      ...(annotation.body || []).map((body) =>
+        typeof body.value === 'string' ? body.value : body.value?.label
+      ),
+    ]
+      .filter((part): part is string => typeof part === 'string')
+      .map((part) => part.trim())
+      .filter((part, index, all) => part !== '' && all.indexOf(part) === index);
+
+    const shape = SHAPE_NAMES[geometry.type] ?? 'Annotation';
+    return parts.length > 0 ? `${shape}: ${parts.join(', ')}` : shape;
+  }
+
+  static prefersReducedMotion(): boolean {
+    return typeof window !== 'undefined' &&
+      !!window.matchMedia?.('(prefers-reduced-motion: reduce)').matches;
+  }
+}
+
+/**
+ * Visually hidden `aria-live` region. Messages posted in the same task are
+ * read out together, so a batch delete is one announcement; of messages on
+ * the same topic only the last is kept.
+ */
+export class LiveRegion {
+  private element: HTMLDivElement;
+  private pending: { message: string; topic?: string }[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(container: HTMLElement) {
+    this.element = document.createElement('div');
+    this.element.setAttribute('class', 'a9s-live-region');
+    this.element.setAttribute('role', 'status');
+    this.element.setAttribute('aria-live', 'polite');
+    this.element.setAttribute('aria-atomic', 'true');
+    Object.assign(this.element.style, {
+      position: 'absolute',
+      width: '1px',
+      height: '1px',
+      margin: '-1px',
+      padding: '0',
+      overflow: 'hidden',
+      clip: 'rect(0 0 0 0)',
+      whiteSpace: 'nowrap',
+      border: '0',
+    });
+    container.appendChild(this.element);
+  }
+
+  announce(message: string, topic?: string): void {
+    if (!message) return;
+    if (topic) {
+      this.pending = this.pending.filter((entry) => entry.topic !== topic);
+    }
+    this.pending.push({ message, topic });
+    if (this.timer) return;
+
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      const text = this.pending.map((entry) => entry.message).join('. ');
+      // Unchanged text is not read again; vary it invisibly
+      this.element.textContent = text === this.element.textContent ? `${text}\u00a0` : text;
+      this.pending = [];
+    });
+  }
+
+  destroy(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.pending = [];
+    this.element.remove();
+  }
+}
@@ -0,0 +1,89 @@
+import {
+  Annotation,
+  CLIPBOARD_FORMAT,
+  ClipboardAnnotation,
+  ClipboardPayload,
+} from '../../types';
+
+/**
+ * Clipboard shared by all annotator instances on the page. The content is
+ * kept as serialized text, the same form that goes to the system
+ * clipboard. Pasting only reads this page copy, never the system
+ * clipboard; text from another page has to be passed in explicitly.
+ */
+export class AnnotationClipboard {
+  private static content: string | null = null;
+
+  /**
+   * Serialize annotations and put them on the clipboard; the text is also
+   * offered to the system clipboard when the browser allows it
+   */
+  static write(annotations: Annotation[], source?: string): string {
+    const text = AnnotationClipboard.serialize(annotations, source);
+    AnnotationClipboard.content = text;
+    navigator.clipboard?.writeText(text).catch(() => {
+      // Not focused or not permitted; the page clipboard still has it
+    });
+    return text;
+  }
+
+  /**
+   * Clipboard payload text for annotations, without using the clipboard
+   */
+  static serialize(annotations: Annotation[], source?: string): string {
+    const payload: ClipboardPayload = {
+      format: CLIPBOARD_FORMAT,
+      version: 1,
+      annotations: annotations.map((annotation) => AnnotationClipboard.strip(annotation)),
+    };
+    if (source) {
+      payload.source = source;
+    }
+    return JSON.stringify(payload);
+  }
+
+  /**
+   * The text last written on this page, if any
+   */
+  static read(): string | null {
+    return AnnotationClipboard.content;
+  }
+
+  /**
+   * Parse clipboard text, or null if it isn't an annotation payload
+   */
+  static parse(text: string | ClipboardPayload): ClipboardPayload | null {
+    let payload: unknown = text;
+    if (typeof text === 'string') {
+      try {
+        payload = JSON.parse(text);
+      } catch {
+        return null;
+      }
+    }
+
+    const candidate = payload as ClipboardPayload | null;
+    if (
+      !candidate ||
+      candidate.format !== CLIPBOARD_FORMAT ||
+      !Array.isArray(candidate.annotations)
+    ) {
+      return null;
+    }
+    return {
+      ...candidate,
+      annotations: candidate.annotations.filter((a) => !!a?.target?.selector?.geometry),
+    };
+  }
+
+  private static strip(annotation: Annotation): ClipboardAnnotation {
+    const copy: ClipboardAnnotation = structuredClone({
+      body: annotation.body || [],
+      target: annotation.target,
+    });
+    if (annotation.label) copy.label = structuredClone(annotation.label);
+    if (annotation.style) copy.style = structuredClone(annotation.style);
+    if (annotation.customData) copy.customData = structuredClone(annotation.customData);
+    return copy;
+  }
+}
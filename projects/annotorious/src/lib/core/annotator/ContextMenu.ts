@@ -0,0 +1,226 @@
+export interface ContextMenuEntry {
+  label: string;
+  disabled?: boolean;
+  select: () => void;
+}
+
+// Zero specificity, so any app rule for these classes wins
+const MENU_STYLES = `
+  :where(.a9s-context-menu) {
+    position: fixed;
+    z-index: 1000;
+    min-width: 160px;
+    padding: 4px 0;
+    background: #ffffff;
+    color: #222222;
+    border: 1px solid rgba(0, 0, 0, 0.2);
+    border-radius: 4px;
+    box-shadow: 0 2px 8px rgba(0, 0, 0, 0.25);
+    font: 13px Arial, sans-serif;
+  }
+
+  :where(.a9s-context-menu-item) {
+    display: block;
+    width: 100%;
+    padding: 6px 12px;
+    border: 0;
+    background: none;
+    color: inherit;
+    font: inherit;
+    text-align: left;
+    cursor: pointer;
+  }
+
+  :where(.a9s-context-menu-item:hover, .a9s-context-menu-item:focus-visible) {
+    background: rgba(74, 144, 226, 0.15);
+    outline: none;
+  }
+
+  :where(.a9s-context-menu-item:disabled) {
+    color: #999999;
+    cursor: default;
+    background: none;
+  }
+
+  :where(.a9s-context-menu-input) {
+    display: block;
+    box-sizing: border-box;
+    width: calc(100% - 16px);
+    margin: 4px 8px;
+    font: inherit;
+  }
+`;
+
+/**
+ * Popup menu at a page position. Arrow keys move between entries, Enter
+ * picks one, Escape or Tab closes it; a press anywhere else closes it too.
+ */
+export class ContextMenu {
+  private container: HTMLElement;
+  private styleElement: HTMLStyleElement;
+  private element: HTMLDivElement | null = null;
+  private position = { x: 0, y: 0 };
+  private returnFocus: HTMLElement | SVGElement | null = null;
+
+  constructor(container: HTMLElement) {
+    this.container = container;
+    this.styleElement = document.createElement('style');
+    this.styleElement.textContent = MENU_STYLES;
+    container.appendChild(this.styleElement);
+  }
+
+  open(entries: ContextMenuEntry[], clientX: number, clientY: number): void {
+    this.close();
+    this.position = { x: clientX, y: clientY };
+
+    const menu = this.createMenu('menu');
+    entries.forEach((entry) => {
+      const item = document.createElement('button');
+      item.type = 'button';
+      item.className = 'a9s-context-menu-item';
+      item.setAttribute('role', 'menuitem');
+      item.textContent = entry.label;
+      item.disabled = !!entry.disabled;
+      item.addEventListener('click', () => {
+        this.close();
+        entry.select();
+      });
+      menu.appendChild(item);
+    });
+
+    this.show(menu);
+    this.getItems()[0]?.focus();
+  }
+
+  /**
+   * Replace the menu with a text field at the same position; Enter
+   * submits the value
+   */
+  prompt(label: string, value: string, submit: (value: string) => void): void {
+    this.close();
+
+    const form = this.createMenu('dialog');
+    form.setAttribute('aria-label', label);
+
+    const input = document.createElement('input');
+    input.type = 'text';
+    input.className = 'a9s-context-menu-input';
+    input.value = value;
+    input.setAttribute('aria-label', label);
+    input.addEventListener('keydown', (event) => {
+      if (event.key === 'Enter') {
+        event.preventDefault();
+        this.close();
+        submit(input.value);
+      }
+    });
+    form.appendChild(input);
+
+    this.show(form);
+    input.focus();
+    input.select();
+  }
+
+  close(): void {
+    if (!this.element) return;
+
+    const hadFocus = this.element.contains(document.activeElement);
+    this.element.remove();
+    this.element = null;
+    document.removeEventListener('pointerdown', this.onDocumentPointerDown, true);
+
+    if (hadFocus) {
+      this.returnFocus?.focus({ preventScroll: true });
+    }
+    this.returnFocus = null;
+  }
+
+  isOpen(): boolean {
+    return this.element !== null;
+  }
+
+  destroy(): void {
+    this.close();
+    this.styleElement.remove();
+  }
+
+  private createMenu(role: 'menu' | 'dialog'): HTMLDivElement {
+    const menu = document.createElement('div');
+    menu.className = 'a9s-context-menu';
+    menu.setAttribute('role', role);
+    menu.addEventListener('keydown', this.onKeyDown);
+    menu.addEventListener('contextmenu', (event) => event.preventDefault());
+    return menu;
+  }
+
+  private show(menu: HTMLDivElement): void {
+    const focused = document.activeElement;
+    this.returnFocus = focused instanceof HTMLElement || focused instanceof SVGElement
+      ? focused
+      : null;
+
+    menu.style.left = `${this.position.x}px`;
+    menu.style.top = `${this.position.y}px`;
+    this.container.appendChild(menu);
+    this.element = menu;
+
+    // Open towards the inside of the window near its edges
+    const bounds = menu.getBoundingClientRect();
+    if (bounds.right > window.innerWidth) {
+      menu.style.left = `${Math.max(0, this.position.x - bounds.width)}px`;
+    }
+    if (bounds.bottom > window.innerHeight) {
+      menu.style.top = `${Math.max(0, this.position.y - bounds.height)}px`;
+    }
+
+    document.addEventListener('pointerdown', this.onDocumentPointerDown, true);
+  }
+
+  private getItems(): HTMLButtonElement[] {
+    return this.element
+      ? Array.from(this.element.querySelectorAll<HTMLButtonElement>('.a9s-context-menu-item:not(:disabled)'))
+      : [];
+  }
+
+  // Keys typed in the menu don't reach the annotator's shortcuts
+  private readonly onKeyDown = (event: KeyboardEvent) => {
+    event.stopPropagation();
+
+    const items = this.getItems();
+    const current = items.indexOf(document.activeElement as HTMLButtonElement);
+    let next = -1;
+
+    switch (event.key) {
+      case 'Escape':
+        event.preventDefault();
+        this.close();
+        return;
+      case 'Tab':
+        this.close();
+        return;
+      case 'ArrowDown':
+        next = (current + 1) % items.length;
+        break;
+      case 'ArrowUp':
+        next = (current - 1 + items.length) % items.length;
+        break;
+      case 'Home':
+        next = 0;
+        break;
+      case 'End':
+        next = items.length - 1;
+        break;
+      default:
+        return;
+    }
+
+    event.preventDefault();
+    items[next]?.focus();
+  };
+
+  private readonly onDocumentPointerDown = (event: PointerEvent) => {
+    if (!this.element?.contains(event.target as Node)) {
+      this.close();
+    }
+  };
+}
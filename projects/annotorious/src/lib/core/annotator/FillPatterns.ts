@@ -0,0 +1,94 @@
+import { FillPattern } from '../managers/StyleManager';
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+/** Pattern tile size in image pixels at zoom 1 */
+const TILE_SIZE = 8;
+
+/**
+ * Keeps the `<pattern>` definitions used for hatched and dotted fills.
+ * One pattern is created per pattern type and colour, on first use, and
+ * scaled with the zoom so the spacing stays constant on screen.
+ */
+export class FillPatterns {
+  private defs: SVGDefsElement;
+  private patterns = new Map<string, SVGPatternElement>();
+  private scale = 1;
+
+  constructor(svg: SVGSVGElement) {
+    this.defs = document.createElementNS(SVG_NS, 'defs');
+    this.defs.setAttribute('class', 'a9s-fill-patterns');
+    svg.insertBefore(this.defs, svg.firstChild);
+  }
+
+  /**
+   * Paint server reference for a pattern in the given colour
+   */
+  getFill(pattern: Exclude<FillPattern, 'solid'>, color: string): string {
+    const key = `${pattern}:${color}`;
+    let element = this.patterns.get(key);
+    if (!element) {
+      element = this.createPattern(`a9s-pattern-${this.patterns.size}`, pattern, color);
+      this.patterns.set(key, element);
+      this.defs.appendChild(element);
+    }
+    return `url(#${element.id})`;
+  }
+
+  setZoom(zoom: number): void {
+    this.scale = 1 / zoom;
+    this.patterns.forEach((element) => this.applyScale(element));
+  }
+
+  destroy(): void {
+    this.defs.remove();
+    this.patterns.clear();
+  }
+
+  private createPattern(id: string, pattern: Exclude<FillPattern, 'solid'>, color: string): SVGPatternElement {
+    const element = document.createElementNS(SVG_NS, 'pattern');
+    element.id = id;
+    element.setAttribute('patternUnits', 'userSpaceOnUse');
+    element.setAttribute('width', TILE_SIZE.toString());
+    element.setAttribute('height', TILE_SIZE.toString());
+
+    const half = TILE_SIZE / 2;
+    switch (pattern) {
+      case 'hatch':
+        element.appendChild(this.createLine(0, TILE_SIZE, TILE_SIZE, 0, color));
+        break;
+      case 'cross-hatch':
+        element.appendChild(this.createLine(0, TILE_SIZE, TILE_SIZE, 0, color));
+        element.appendChild(this.createLine(0, 0, TILE_SIZE, TILE_SIZE, color));
+        break;
+      case 'dots': {
+        const dot = document.createElementNS(SVG_NS, 'circle');
+        dot.setAttribute('cx', half.toString());
+        dot.setAttribute('cy', half.toString());
+        dot.setAttribute('r', (TILE_SIZE / 6).toString());
+        dot.setAttribute('fill', color);
+        element.appendChild(dot);
+        break;
+      }
+    }
+
+    this.applyScale(element);
+    return element;
+  }
+
+  private createLine(x1: number, y1: number, x2: number, y2: number, color: string): SVGLineElement {
+    const line = document.createElementNS(SVG_NS, 'line');
+    line.setAttribute('x1', x1.toString());
+    line.setAttribute('y1', y1.toString());
+    line.setAttribute('x2', x2.toString());
+    line.setAttribute('y2', y2.toString());
+    line.setAttribute('stroke', color);
+    line.setAttribute('stroke-width', '1');
+    line.setAttribute('stroke-linecap', 'square');
+    return line;
+  }
+
+  private applyScale(element: SVGPatternElement): void {
+    element.setAttribute('patternTransform', `scale(${this.scale})`);
+  }
+}
@@ -3,53 +3,183 @@ import { EventEmitter } from '../events/EventEmitter';
 import { StyleManager } from '../managers/StyleManager';
 import { ToolManager } from '../managers/ToolManager';
 import { AnnotationState } from '../store/AnnotationState';
-import { ShapeFactory } from '../../shapes/base';
+import { AnnotationStore } from '../store/AnnotationStore';
+import { Shape, ShapeFactory } from '../../shapes/base';
 import { Annotation, AnnotationBody } from '../../types/annotation.types';
 import { isTouchDevice, enableTouchTranslation } from '../../utils/Touch';
-import { Theme, ShapeStyle } from '../managers/StyleManager';
+import { HighContrastMode, Theme, ShapeStyle } from '../managers/StyleManager';
+import { StyleRule } from '../managers/StyleRules';
 import { Crosshair, CrosshairConfig } from './Crosshair';
-import { createTools } from '../../tools';
+import {
+  createTools,
+  DrawingOptions,
+  FreehandOptions,
+  FreehandTool,
+  MagicWandOptions,
+  MagicWandTool,
+  Tool,
+} from '../../tools';
 import { SvgOverlay, SvgOverlayInfo } from './SvgOverlay';
+import { SelectionBox } from './SelectionBox';
+import { FillPatterns } from './FillPatterns';
+import { AnnotationClipboard } from './AnnotationClipboard';
+import { Accessibility, LiveRegion } from './Accessibility';
+import { ContextMenu, ContextMenuEntry } from './ContextMenu';
 import { EditManager } from '../managers/EditManager';
-import { convertToViewportCoordinates } from '../../utils/SVGUtils';
-import { TextGeometry } from '../../types';
+import { LayerManager } from '../managers/LayerManager';
+import { SnapConfig, SnapManager } from '../managers/SnapManager';
+import { convertToViewportCoordinates, SVGUtils } from '../../utils/SVGUtils';
+import { MeasurementUtils } from '../../utils/MeasurementUtils';
+import { GeometryUtils } from '../../utils/GeometryUtils';
+import {
+  AnnotationContextEvent,
+  AnnotationLayer,
+  BuiltInContextMenuItem,
+  ClipboardAnnotation,
+  ClipboardPayload,
+  COCODataset,
+  ContextMenuConfig,
+  ContextMenuItem,
+  ContextTarget,
+  DatasetImageInfo,
+  DEFAULT_LAYER_ID,
+  GeoJSONFeature,
+  GeoJSONFeatureCollection,
+  Geometry,
+  Measurement,
+  MeasurementCalibration,
+  MeasurementType,
+  Point,
+  TextGeometry,
+  W3CAnnotation,
+} from '../../types';
+import {
+  COCOImportOptions,
+  COCOSerializer,
+  DatasetExportOptions,
+  GeoJSONSerializeOptions,
+  GeoJSONSerializer,
+  VOCSerializer,
+  W3CSerializer,
+} from '../../formats';
 import { KeyboardManager } from '../managers';
 import { v4 as uuid } from 'uuid';
+import { SNAPSHOT_VERSION, StorageAdapter } from '../storage/StorageAdapter';
+
+const CONTEXT_MENU_ITEMS: BuiltInContextMenuItem[] = [
+  'edit-label',
+  'add-vertex',
+  'remove-vertex',
+  'duplicate',
+  'bring-to-front',
+  'delete',
+];
+
+const CONTEXT_MENU_LABELS: Record<BuiltInContextMenuItem, string> = {
+  'edit-label': 'Edit label',
+  'add-vertex': 'Add vertex',
+  'remove-vertex': 'Remove vertex',
+  duplicate: 'Duplicate',
+  'bring-to-front': 'Bring to front',
+  delete: 'Delete',
+};
+
+/** Touch press duration (ms) that opens the context menu */
+const LONG_PRESS_DELAY = 600;
+/** Screen pixels a finger may move before a press stops being a long-press */
+const LONG_PRESS_TOLERANCE = 10;
 
 export interface OpenSeadragonAnnotatorConfig {
   viewer: OpenSeadragon.Viewer;
   toolType?: string;
-  theme?: Theme;
+  /** Theme object, registered theme name, or 'auto' to follow prefers-color-scheme */
+  theme?: Theme | string;
+  /** Styles applied by matching bodies, customData or geometry type */
+  styleRules?: StyleRule[];
   imageUrl?: string;
+  /** Persistence backend; annotations for `imageUrl` are restored on open */
+  storage?: StorageAdapter;
+  /** Save to `storage` after create/update/delete (default true) */
   autoSave?: boolean;
+  /** Debounce delay for auto-save in ms (default 1000) */
+  autoSaveDelay?: number;
   crosshair?: CrosshairConfig | boolean;
+  /** Viewer mode: no drawing, editing or deleting; selection and hover still work */
+  readOnly?: boolean;
+  /** Snap drawn and edited vertices to other shapes, a grid or 15° angles */
+  snapping?: SnapConfig | boolean;
+  /** Pixels per real-world unit for measurement labels */
+  calibration?: MeasurementCalibration;
+  /** Attach area/perimeter measurements to drawn polygons, rectangles, circles and ellipses */
+  measureShapes?: boolean;
+  /** Colour tolerance and outline simplification of the magic wand tool */
+  magicWand?: MagicWandOptions;
+  /** Simplification and smoothing of freehand drawings */
+  freehand?: FreehandOptions;
+  /** Thicker, opaque strokes; 'auto' follows prefers-contrast and forced colors */
+  highContrast?: HighContrastMode;
+  /** Built-in menu on right-click or long-press; `contextMenu` events are emitted regardless */
+  contextMenu?: ContextMenuConfig | boolean;
+  /** Aspect ratio kept by Shift while drawing or resizing rectangles and ellipses */
+  drawing?: DrawingOptions;
 }
 
 export class OpenSeadragonAnnotator extends EventEmitter {
+  /** Instance the clipboard shortcuts apply to: the one last pointed at */
+  private static active: OpenSeadragonAnnotator | null = null;
+
   private readonly config: OpenSeadragonAnnotatorConfig;
   private readonly viewer: OpenSeadragon.Viewer;
   private readonly svgOverlay: SvgOverlay;
   private readonly svg: SVGSVGElement;
   private readonly state: AnnotationState;
+  private readonly store: AnnotationStore;
   private readonly styleManager: StyleManager;
   private readonly toolManager: ToolManager;
   private readonly editManager: EditManager;
+  private readonly layerManager: LayerManager;
+  private readonly snapManager: SnapManager;
   private keyboardManager: KeyboardManager;
   private readonly crosshair?: Crosshair;
+  private readonly selectionBox: SelectionBox;
+  private readonly fillPatterns: FillPatterns;
+  private readonly liveRegion: LiveRegion;
+  private contextMenu: ContextMenu | null = null;
+  private contextMenuConfig: ContextMenuConfig = { enabled: false };
+  private drawingOptions: DrawingOptions = {};
+  private longPress: { timer: ReturnType<typeof setTimeout>; event: PointerEvent } | null = null;
+  // The browser may send its own contextmenu after a long-press
+  private suppressNativeContextMenu = false;
+  private pressPoint: Point | null = null;
+  private suppressNextClick = false;
   public pendingStyle?: ShapeStyle;
   public pendingLabelText?: string;
   public pendingAnnotationBody? : AnnotationBody;
+  private applyingHistory = false;
+  private autoSaveTimer: ReturnType<typeof setTimeout> | null = null;
+  private persistedSources = new Set<string>();
+  /** Bumped on every annotation change, so a slow restore can tell it is stale */
+  private stateRevision = 0;
+  private destroyed = false;
+  private readOnly = false;
+  private calibration: MeasurementCalibration | null = null;
+  /** Pointer position in image coordinates while it is over the viewer */
+  private pointer: Point | null = null;
+  private lastPasted: string | null = null;
+  private pasteCount = 0;
 
   constructor(config: OpenSeadragonAnnotatorConfig) {
     super();
     this.config = {
       toolType: 'rectangle',
       autoSave: true,
+      autoSaveDelay: 1000,
       crosshair: true,
       ...config,
     };
 
     this.viewer = config.viewer;
+    this.calibration = config.calibration ?? null;
 
     // Use the core SvgOverlay directly
     this.svgOverlay = new SvgOverlay(this.viewer, {
@@ -69,20 +199,69 @@ export class OpenSeadragonAnnotator extends EventEmitter {
 
     // Initialize style manager
     this.styleManager = new StyleManager(config.theme);
+    this.styleManager.setVariableScope(this.svg);
+    if (config.styleRules) {
+      this.styleManager.setRules(config.styleRules);
+    }
+    if (config.highContrast) {
+      this.styleManager.setHighContrast(config.highContrast);
+    }
     const styleSheet = this.styleManager.createSVGStyles();
     const styleElement = document.createElement('style');
     styleElement.textContent = styleSheet;
     this.svg.appendChild(styleElement);
 
+    this.fillPatterns = new FillPatterns(this.svg);
+    this.styleManager.setPatternResolver((pattern, color) =>
+      this.fillPatterns.getFill(pattern, color)
+    );
+
     this.styleManager.on('themeChanged', () => {
       styleElement.textContent = this.styleManager.createSVGStyles();
+      if (this.crosshair && !this.hasCustomCrosshairColor()) {
+        this.crosshair.setConfig({ color: this.styleManager.getThemeColors().crosshair });
+      }
+      this.redrawAll();
     });
 
     // Initialize managers
     this.state = new AnnotationState();
+    this.store = new AnnotationStore();
     this.editManager = new EditManager(this.svgOverlay);
     this.toolManager = new ToolManager(this.svgOverlay);
     this.keyboardManager = new KeyboardManager();
+    this.selectionBox = new SelectionBox(this.svgOverlay);
+    this.layerManager = new LayerManager(this.svgOverlay.node());
+    this.editManager.setLockResolver((id) => this.isLocked(id));
+    this.snapManager = new SnapManager(this.svgOverlay, this.state, config.snapping);
+    this.liveRegion = new LiveRegion(this.viewer.element);
+    this.svg.addEventListener('focusin', this.onShapeFocus);
+
+    // Tools draw in SVG coordinates, snapping works in image coordinates
+    this.toolManager.setSnapper((point, event, anchor) => {
+      const imageAnchor = anchor ? this.svgOverlay.svgToImage(anchor.x, anchor.y) : null;
+      const { point: snapped } = this.snapManager.snap(
+        this.svgOverlay.svgToImage(point.x, point.y),
+        { anchor: imageAnchor, shiftKey: event.shiftKey }
+      );
+      return this.svgOverlay.imageToSvg(snapped.x, snapped.y);
+    });
+    this.editManager.setSnapper((point, event, { id, anchor }) =>
+      this.snapManager.snap(point, { anchor, shiftKey: event.shiftKey, excludeId: id }).point
+    );
+
+    // Keep measurement labels current while a shape is dragged
+    this.editManager.on('geometryChanging', ({ id, geometry }) => {
+      this.previewMeasurement(id, geometry);
+    });
+
+    this.layerManager.on('layersChanged', ({ layers }) => {
+      this.state.setLayerState(layers);
+      this.dropUnselectable();
+      this.redrawAll();
+      this.scheduleAutoSave();
+      this.emit('layersChanged', { layers });
+    });
 
     // Listen for zoom changes and update StyleManager
     this.viewer.addHandler('zoom', () => {
@@ -94,23 +273,55 @@ export class OpenSeadragonAnnotator extends EventEmitter {
     });
 
 
-    // Example shortcut: Delete selected shape
+    // Delete the picked vertex if there is one, otherwise every selected shape
     this.keyboardManager.addBinding({
       key: 'Delete',
       action: () => {
-        const selectedId = this.state.getSelectedId();
-        if (selectedId) this.removeAnnotation(selectedId);
+        if (this.readOnly || !this.hasShortcutFocus()) return false;
+        if (this.editManager.removeSelectedVertex()) return true;
+        if (!this.state.getSelectedIds().some((id) => !this.isLocked(id))) return false;
+        this.removeSelectedAnnotations();
+        return true;
       }
     });
 
 
+    // Leave keyboard handle editing first, then the selection
     this.keyboardManager.addBinding({
       key: 'Escape',
       action: () => {
-        this.clearSelectionAndEditing();
+        if (this.editManager.hasFocusedHandle()) {
+          this.editManager.clearHandleFocus();
+        } else {
+          this.clearSelectionAndEditing();
+        }
       }
     });
 
+    // With nothing to undo or redo, the browser keeps the keys
+    this.keyboardManager.addBinding({
+      key: 'z',
+      ctrl: true,
+      action: () => this.undoFromKeyboard()
+    });
+
+    this.keyboardManager.addBinding({
+      key: 'z',
+      ctrl: true,
+      shift: true,
+      action: () => this.redoFromKeyboard()
+    });
+
+    this.keyboardManager.addBinding({
+      key: 'y',
+      ctrl: true,
+      action: () => this.redoFromKeyboard()
+    });
+
+    this.setupClipboard();
+    this.setupKeyboardEditing();
+    this.setupContextMenu(config.contextMenu ?? false);
+
     // Listen for geometry updates from EditManager
     this.editManager.on('updateGeometry', ({ id, geometry, type }) => {
       const annotation = this.state.getAnnotation(id);
@@ -131,9 +342,28 @@ export class OpenSeadragonAnnotator extends EventEmitter {
             },
             false
           );
+          this.refreshMeasurement(id);
         }
+        this.recordUpdate(id);
+      }
+    });
+
+    // Replay undo/redo steps from the history store onto the live state
+    this.store.on('create', ({ annotation }) => {
+      if (this.applyingHistory) this.addAnnotation(structuredClone(annotation));
+    });
+    this.store.on('update', ({ id }) => {
+      const annotation = this.store.get(id);
+      if (this.applyingHistory && annotation) {
+        this.restoreAnnotation(structuredClone(annotation));
       }
     });
+    this.store.on('delete', ({ id }) => {
+      if (this.applyingHistory) this.removeAnnotation(id);
+    });
+    this.store.on('historyChanged', (event) => {
+      this.emit('historyChanged', event);
+    });
 
     // Initialize crosshair if enabled
     if (this.config.crosshair) {
@@ -141,30 +371,38 @@ export class OpenSeadragonAnnotator extends EventEmitter {
         typeof this.config.crosshair === 'boolean'
           ? { enabled: this.config.crosshair }
           : this.config.crosshair;
-      this.crosshair = new Crosshair(this.svg, crosshairConfig);
+      this.crosshair = new Crosshair(this.svg, {
+        color: this.styleManager.getThemeColors().crosshair,
+        ...crosshairConfig,
+      });
     }
 
     // Bind manager events
     this.state.on('loaded', () => {
+      this.stateRevision++;
       const annotations = this.state.getAll();
       for (const annotation of annotations) {
         if (annotation.style) {
           this.styleManager.setCustomStyle(annotation.id, annotation.style);
         }
+        this.styleManager.applyRules(annotation);
       }
       this.redrawAll();
     });
     this.state.on('create', (event: { id: string }) => {
+      this.stateRevision++;
       const annotation = this.state.getAnnotation(event.id);
       if (annotation) this.onAnnotationCreated(annotation);
     });
 
     this.state.on('update', (event: { id: string }) => {
+      this.stateRevision++;
       const annotation = this.state.getAnnotation(event.id);
       if (annotation) this.onAnnotationUpdated(annotation);
     });
 
     this.state.on('delete', (event: { annotation: Annotation }) => {
+      this.stateRevision++;
       this.onAnnotationDeleted(event.annotation);
     });
 
@@ -178,12 +416,22 @@ export class OpenSeadragonAnnotator extends EventEmitter {
       if (annotation) this.onAnnotationDeselected(annotation);
     });
 
-    this.editManager.on('editingDragStarted', () =>
-      this.viewer.setMouseNavEnabled(false)
-    );
-    this.editManager.on('editingDragStopped', () =>
-      this.viewer.setMouseNavEnabled(true)
-    );
+    this.state.on('selectionChanged', (event: { ids: string[] }) => {
+      this.syncEditing();
+      this.announceSelection(event.ids);
+      this.emit('selectionChanged', event);
+    });
+
+    // A drag may update several shapes at once; record it as one undo step
+    this.editManager.on('editingDragStarted', () => {
+      this.viewer.setMouseNavEnabled(false);
+      this.store.startBatch();
+    });
+    this.editManager.on('editingDragStopped', () => {
+      this.snapManager.hideIndicator();
+      this.viewer.setMouseNavEnabled(true);
+      this.store.endBatch();
+    });
     this.editManager.on('arrowSymbolClicked', (event) => {
       console.log('Arrow symbol clicked:', event);
       this.emit('context-menu', event);
@@ -223,13 +471,32 @@ export class OpenSeadragonAnnotator extends EventEmitter {
             label: label,
             style: this.pendingStyle,
           };
+          const activeLayer = this.layerManager.getActiveLayer();
+          if (activeLayer !== DEFAULT_LAYER_ID) {
+            shapeAnnotation.layer = activeLayer;
+          }
 
-          this.addAnnotation(shapeAnnotation);
+          const measurementType = this.getDrawnMeasurementType(geometry);
+          this.addAnnotation(
+            measurementType
+              ? this.withMeasurement(shapeAnnotation, measurementType)
+              : shapeAnnotation
+          );
           this.toolManager.deactivateActiveTool();
         }
       },
-      containerBounds
+      containerBounds,
+      {
+        getCanvas: () => this.getViewerCanvas(),
+        magicWand: config.magicWand,
+        freehand: config.freehand,
+        drawing: config.drawing,
+      }
     );
+    if (config.drawing) {
+      this.drawingOptions = { ...config.drawing };
+      this.editManager.setDrawingOptions(this.drawingOptions);
+    }
 
     tools.forEach((tool) => this.toolManager.registerTool(tool));
 
@@ -245,11 +512,21 @@ export class OpenSeadragonAnnotator extends EventEmitter {
     this.toolManager.on('toolDeactivated', () => {
       // Stop drawing mode when a tool is deactivated
       this.toolManager.stopDrawing();
+      this.snapManager.hideIndicator();
       this.crosshair?.setDrawingMode(false);
     });
 
+    if (this.config.readOnly) {
+      this.setReadOnly(true);
+    }
+
     // Initial redraw
     this.redrawAll();
+
+    // Restore previously saved annotations for this image
+    if (this.config.storage && this.config.imageUrl) {
+      this.restore();
+    }
   }
 
   private handleZoomChange(): void {
@@ -257,6 +534,7 @@ export class OpenSeadragonAnnotator extends EventEmitter {
 
     // Update StyleManager with current zoom
     this.styleManager.setCurrentZoom(currentZoom);
+    this.fillPatterns.setZoom(currentZoom);
 
     // Update all shapes with new zoom-adjusted styles
     this.updateZoomDependentShapeStyles();
@@ -285,16 +563,27 @@ export class OpenSeadragonAnnotator extends EventEmitter {
           return;
         }
 
-        const webPoint = new OpenSeadragon.Point(
-          event.position.x,
-          event.position.y
+        // The release that ends a rubber-band selection is not a click
+        if (this.suppressNextClick) {
+          this.suppressNextClick = false;
+          return;
+        }
+
+        const imagePoint = this.toImagePoint(event.position);
+        const hitResult = this.state.findHitAnnotation(imagePoint, undefined, (id) =>
+          this.styleManager.isFilled(id)
         );
-        const viewportPoint = this.viewer.viewport.pointFromPixel(webPoint);
-        const img =
-          this.viewer.viewport.viewportToImageCoordinates(viewportPoint);
-        const imagePoint = { x: img.x, y: img.y };
 
-        const hitResult = this.state.findHitAnnotation(imagePoint);
+        // Shift/Ctrl-click toggles the hit in the current selection
+        const original = event.originalEvent as MouseEvent;
+        if (original.shiftKey || original.ctrlKey || original.metaKey) {
+          event.preventDefaultAction = true;
+          if (hitResult) {
+            this.state.toggleSelection(hitResult.id);
+          }
+          return;
+        }
+
         if (hitResult) {
           this.clearSelectionAndEditing();
           this.selectAnnotation(hitResult.id);
@@ -304,6 +593,42 @@ export class OpenSeadragonAnnotator extends EventEmitter {
       }
     );
 
+    // Shift-drag on the canvas draws a rubber-band selection
+    this.viewer.addHandler(
+      'canvas-press',
+      (event: OpenSeadragon.CanvasPressEvent) => {
+        this.pressPoint = this.toImagePoint(event.position);
+      }
+    );
+
+    this.viewer.addHandler(
+      'canvas-drag',
+      (event: OpenSeadragon.CanvasDragEvent) => {
+        if (this.toolManager.isDrawing()) return;
+
+        if (!this.selectionBox.isActive()) {
+          if (!event.shift || !this.pressPoint) return;
+          this.selectionBox.start(this.pressPoint);
+        }
+
+        event.preventDefaultAction = true;
+        this.selectionBox.update(this.toImagePoint(event.position));
+      }
+    );
+
+    this.viewer.addHandler('canvas-drag-end', () => {
+      this.pressPoint = null;
+      if (!this.selectionBox.isActive()) return;
+
+      const bounds = this.selectionBox.finish();
+      this.suppressNextClick = true;
+      if (bounds) {
+        this.state.queryInBounds(bounds).forEach((id) =>
+          this.state.addToSelection(id)
+        );
+      }
+    });
+
     // Disable OpenSeadragon mouse gestures when drawing
     this.toolManager.on('drawingStarted', () => {
       this.viewer.setMouseNavEnabled(false);
@@ -314,12 +639,493 @@ export class OpenSeadragonAnnotator extends EventEmitter {
     });
   }
 
-  private redrawAll(): void {
-    const overlayNode = this.svgOverlay.node();
-    while (overlayNode.firstChild) {
-      overlayNode.removeChild(overlayNode.firstChild);
+  /**
+   * Ctrl+C/X/V/D. Shortcuts only act in the instance last pointed at, and
+   * leave the keys to the browser when there is nothing to copy or paste.
+   */
+  private setupClipboard(): void {
+    OpenSeadragonAnnotator.active = this;
+    this.viewer.element.addEventListener('pointerenter', this.onViewerPointer);
+    this.viewer.element.addEventListener('pointermove', this.onViewerPointer);
+    this.viewer.element.addEventListener('pointerleave', this.onViewerPointerLeave);
+
+    this.keyboardManager.addBinding({
+      key: 'c',
+      ctrl: true,
+      action: () => this.canCopyAnnotations() && this.copySelectedAnnotations() !== null,
+    });
+
+    this.keyboardManager.addBinding({
+      key: 'x',
+      ctrl: true,
+      action: () => this.canCopyAnnotations() && this.cutSelectedAnnotations() !== null,
+    });
+
+    this.keyboardManager.addBinding({
+      key: 'v',
+      ctrl: true,
+      action: () => this.hasShortcutFocus() && this.pasteAnnotations().length > 0,
+    });
+
+    this.keyboardManager.addBinding({
+      key: 'd',
+      ctrl: true,
+      action: () => this.hasShortcutFocus() && this.duplicateSelectedAnnotations().length > 0,
+    });
+  }
+
+  /**
+   * Mouse-free editing: arrows nudge the selection (Shift for 10 px), Tab
+   * cycles annotations in reading order, Enter steps into the handles of
+   * the edited shape, which Tab then cycles and arrows move.
+   */
+  private setupKeyboardEditing(): void {
+    const arrows: [string, number, number][] = [
+      ['ArrowLeft', -1, 0],
+      ['ArrowRight', 1, 0],
+      ['ArrowUp', 0, -1],
+      ['ArrowDown', 0, 1],
+    ];
+    arrows.forEach(([key, dx, dy]) => {
+      [false, true].forEach((shift) => {
+        const step = shift ? 10 : 1;
+        this.keyboardManager.addBinding({
+          key,
+          shift,
+          action: () =>
+            this.isShortcutTarget() && this.hasViewerFocus() && this.nudge(dx * step, dy * step),
+        });
+      });
+    });
+
+    [false, true].forEach((shift) => {
+      this.keyboardManager.addBinding({
+        key: 'Tab',
+        shift,
+        action: () => this.isShortcutTarget() && this.cycleFocus(shift),
+      });
+    });
+
+    this.keyboardManager.addBinding({
+      key: 'Enter',
+      action: () =>
+        this.isShortcutTarget() &&
+        this.hasViewerFocus() &&
+        !this.editManager.hasFocusedHandle() &&
+        this.editManager.focusNextHandle(),
+    });
+
+    // Keep OpenSeadragon from panning while arrows move annotations
+    this.viewer.addHandler('canvas-key', (event: OpenSeadragon.CanvasKeyEvent) => {
+      const key = (event.originalEvent as KeyboardEvent).key;
+      if (key?.startsWith('Arrow') && this.state.getSelectedIds().length > 0) {
+        event.preventDefaultAction = true;
+      }
+    });
+  }
+
+  /**
+   * Right-click, or long-press on touch, emits `contextMenu` for the
+   * annotation, handle or canvas under the pointer and opens the built-in
+   * menu when it is enabled
+   */
+  private setupContextMenu(config: ContextMenuConfig | boolean): void {
+    this.setContextMenu(config);
+
+    const canvas = this.viewer.canvas;
+    canvas.addEventListener('contextmenu', this.onContextMenu);
+    canvas.addEventListener('pointerdown', this.onLongPressStart);
+    canvas.addEventListener('pointermove', this.onLongPressMove);
+    canvas.addEventListener('pointerup', this.cancelLongPress);
+    canvas.addEventListener('pointercancel', this.cancelLongPress);
+
+    this.viewer.addHandler('canvas-scroll', () => this.contextMenu?.close());
+  }
+
+  private readonly onContextMenu = (event: MouseEvent) => {
+    if (this.suppressNativeContextMenu) {
+      this.suppressNativeContextMenu = false;
+      event.preventDefault();
+      return;
+    }
+    this.openContext(event, event.target, event.clientX, event.clientY);
+  };
+
+  private readonly onLongPressStart = (event: PointerEvent) => {
+    this.cancelLongPress();
+    this.suppressNativeContextMenu = false;
+    if (event.pointerType !== 'touch' || !event.isPrimary) return;
+
+    const timer = setTimeout(() => {
+      this.longPress = null;
+      this.suppressNativeContextMenu = true;
+      this.openContext(event, event.target, event.clientX, event.clientY);
+    }, LONG_PRESS_DELAY);
+    this.longPress = { timer, event };
+  };
+
+  private readonly onLongPressMove = (event: PointerEvent) => {
+    const start = this.longPress?.event;
+    if (!start || event.pointerId !== start.pointerId) return;
+    const distance = Math.hypot(event.clientX - start.clientX, event.clientY - start.clientY);
+    if (distance > LONG_PRESS_TOLERANCE) {
+      this.cancelLongPress();
+    }
+  };
+
+  private readonly cancelLongPress = () => {
+    if (this.longPress) {
+      clearTimeout(this.longPress.timer);
+      this.longPress = null;
+    }
+  };
+
+  private openContext(
+    originalEvent: MouseEvent,
+    eventTarget: EventTarget | null,
+    clientX: number,
+    clientY: number
+  ): void {
+    // Right-click belongs to the tool while drawing, e.g. to finish a polyline
+    if (this.toolManager.isDrawing()) return;
+    this.contextMenu?.close();
+
+    const imagePoint = this.svgOverlay.screenToImage(clientX, clientY);
+    const element = eventTarget instanceof Element ? eventTarget : null;
+    const handle = element?.closest('.a9s-handle') as SVGElement | null;
+    const handleOwner = (handle?.closest('.a9s-shape-group') as SVGGElement | null)?.dataset['id'];
+
+    let target: ContextTarget = 'canvas';
+    let id: string | null = null;
+    let vertexIndex: number | null = null;
+    if (handle && handleOwner) {
+      target = 'handle';
+      id = handleOwner;
+      const index = this.state.getShape(id)?.getVertexIndex?.(handle) ?? -1;
+      vertexIndex = index === -1 ? null : index;
+    } else {
+      const hit = this.state.findHitAnnotation(imagePoint, undefined, (hitId) =>
+        this.styleManager.isFilled(hitId)
+      );
+      if (hit) {
+        target = 'annotation';
+        id = hit.id;
+      }
+    }
+
+    // Menu actions apply to the selection, so it has to include the hit
+    if (id && !this.state.getSelectedIds().includes(id)) {
+      this.clearSelectionAndEditing();
+      this.selectAnnotation(id);
+    }
+
+    let prevented = false;
+    const contextEvent: AnnotationContextEvent = {
+      target,
+      annotation: id ? this.state.getAnnotation(id) ?? null : null,
+      vertexIndex,
+      imagePoint,
+      clientX,
+      clientY,
+      originalEvent,
+      preventDefault: () => {
+        prevented = true;
+      },
+      get defaultPrevented() {
+        return prevented;
+      },
+    };
+    this.emit('contextMenu', contextEvent);
+
+    if (prevented) {
+      originalEvent.preventDefault();
+      return;
     }
-    const annotations = this.state.getAll();
+
+    const entries = this.getContextMenuEntries(contextEvent);
+    if (!this.contextMenu || entries.length === 0) return;
+    originalEvent.preventDefault();
+    this.contextMenu.open(entries, clientX, clientY);
+  }
+
+  private getContextMenuEntries(event: AnnotationContextEvent): ContextMenuEntry[] {
+    const labels = { ...CONTEXT_MENU_LABELS, ...this.contextMenuConfig.labels };
+    return (this.contextMenuConfig.items ?? CONTEXT_MENU_ITEMS)
+      .map((item) => (typeof item === 'string' ? this.getBuiltInMenuItem(item, labels[item]) : item))
+      .filter((item) => !item.when || item.when(event))
+      .map((item) => ({
+        label: item.label,
+        disabled: item.disabled?.(event),
+        select: () => item.action(event),
+      }));
+  }
+
+  private getBuiltInMenuItem(id: BuiltInContextMenuItem, label: string): ContextMenuItem {
+    const onAnnotation = (event: AnnotationContextEvent) => event.annotation !== null;
+    const locked = (event: AnnotationContextEvent) =>
+      !!event.annotation && this.isLocked(event.annotation.id);
+
+    switch (id) {
+      case 'edit-label':
+        return {
+          id,
+          label,
+          when: onAnnotation,
+          disabled: locked,
+          action: (event) => this.promptLabel(event.annotation!.id, label),
+        };
+      case 'add-vertex':
+        return {
+          id,
+          label,
+          when: (event) => event.target === 'annotation' && this.canInsertVertex(event.annotation!.id),
+          disabled: locked,
+          action: (event) => this.editManager.insertVertexAt(event.imagePoint),
+        };
+      case 'remove-vertex':
+        return {
+          id,
+          label,
+          when: (event) => event.vertexIndex !== null,
+          disabled: locked,
+          action: (event) => this.editManager.removeVertexAt(event.vertexIndex!),
+        };
+      case 'duplicate':
+        return {
+          id,
+          label,
+          when: onAnnotation,
+          disabled: () => this.readOnly,
+          action: () => this.duplicateSelectedAnnotations(),
+        };
+      case 'bring-to-front':
+        return {
+          id,
+          label,
+          when: onAnnotation,
+          disabled: () => this.readOnly,
+          action: () => this.bringToFront(this.state.getSelectedIds()),
+        };
+      case 'delete':
+        return {
+          id,
+          label,
+          when: onAnnotation,
+          disabled: locked,
+          action: () => this.removeSelectedAnnotations(),
+        };
+    }
+  }
+
+  /**
+   * Vertices can be added to the edited polygon, freehand path or polyline
+   */
+  private canInsertVertex(id: string): boolean {
+    const type = this.state.getAnnotation(id)?.target.selector.geometry.type;
+    return this.editManager.isEditingEntity(id) &&
+      (type === 'polygon' || type === 'freehand' || type === 'polyline-arrow');
+  }
+
+  /**
+   * Edit a label in place of the menu; an empty label removes it
+   */
+  private promptLabel(id: string, caption: string): void {
+    const annotation = this.state.getAnnotation(id);
+    if (!annotation || !this.contextMenu) return;
+
+    this.contextMenu.prompt(caption, annotation.label?.text ?? '', (value) => {
+      const text = value.trim();
+      if (!this.state.getAnnotation(id) || text === (annotation.label?.text ?? '')) return;
+      if (text) {
+        const label = annotation.label;
+        this.setLabel(id, text, label ? { x: label.x, y: label.y } : undefined);
+      } else {
+        this.removeLabel(id);
+      }
+    });
+  }
+
+  private isShortcutTarget(): boolean {
+    return OpenSeadragonAnnotator.active === this;
+  }
+
+  /**
+   * Shortcuts that edit annotations act in the instance last pointed at,
+   * and only while no other page element has focus
+   */
+  private hasShortcutFocus(): boolean {
+    return this.isShortcutTarget() && this.hasViewerFocus();
+  }
+
+  private undoFromKeyboard(): boolean {
+    if (this.readOnly || !this.hasShortcutFocus() || !this.store.canUndo()) return false;
+    this.undo();
+    return true;
+  }
+
+  private redoFromKeyboard(): boolean {
+    if (this.readOnly || !this.hasShortcutFocus() || !this.store.canRedo()) return false;
+    this.redo();
+    return true;
+  }
+
+  /**
+   * Copy and cut are left to the browser while page text is selected or
+   * focus is outside the viewer
+   */
+  private canCopyAnnotations(): boolean {
+    const selection = window.getSelection();
+    const hasTextSelection = !!selection && !selection.isCollapsed && selection.toString() !== '';
+    return this.isShortcutTarget() && this.hasViewerFocus() && !hasTextSelection;
+  }
+
+  /**
+   * Keyboard shortcuts belong to other page elements while they have focus
+   */
+  private hasViewerFocus(): boolean {
+    const focus = document.activeElement;
+    return !focus || focus === document.body || this.viewer.element.contains(focus);
+  }
+
+  /**
+   * Move the focused handle, else the selected annotations, by an offset in
+   * image pixels
+   */
+  private nudge(deltaX: number, deltaY: number): boolean {
+    if (this.editManager.moveFocusedHandle(deltaX, deltaY)) return true;
+    if (this.state.getSelectedIds().length === 0) return false;
+    this.moveSelectedAnnotations(deltaX, deltaY);
+    return true;
+  }
+
+  /**
+   * Tab step: through the handles in handle mode, else through the
+   * annotations. Past the last annotation focus goes back to the page, so
+   * keyboard users aren't trapped in the viewer.
+   */
+  private cycleFocus(reverse: boolean): boolean {
+    if (!this.hasViewerFocus()) return false;
+
+    if (this.editManager.hasFocusedHandle()) {
+      this.editManager.focusNextHandle(reverse);
+      return true;
+    }
+
+    const ordered = this.getReadingOrder();
+    const selected = this.state.getSelectedIds();
+    const current = selected.length > 0 ? ordered.indexOf(selected[selected.length - 1]) : -1;
+    const next = current === -1
+      ? (reverse ? ordered.length - 1 : 0)
+      : current + (reverse ? -1 : 1);
+
+    this.clearSelectionAndEditing();
+    if (next < 0 || next >= ordered.length) {
+      // Tab on from the viewer itself, not from the shape that had focus
+      if (this.svg.contains(document.activeElement)) {
+        this.viewer.canvas.focus();
+      }
+      return false;
+    }
+
+    this.selectAnnotation(ordered[next]);
+    this.panIntoView(ordered[next]);
+    this.focusShape(ordered[next]);
+    return true;
+  }
+
+  /**
+   * Move keyboard focus to a shape, so screen readers read its name
+   */
+  private focusShape(id: string): void {
+    const element = this.state.getShape(id)?.getElement() as SVGElement | undefined;
+    element?.focus({ preventScroll: true });
+  }
+
+  /**
+   * Selectable annotations top to bottom, then left to right
+   */
+  private getReadingOrder(): string[] {
+    return this.state
+      .getAll()
+      .filter((annotation) => this.state.isAnnotationSelectable(annotation.id))
+      .map((annotation) => ({ id: annotation.id, bbox: SVGUtils.getAnnotationBBox(annotation) }))
+      .filter((entry) => !!entry.bbox)
+      .sort((a, b) => a.bbox!.minY - b.bbox!.minY || a.bbox!.minX - b.bbox!.minX)
+      .map((entry) => entry.id);
+  }
+
+  private panIntoView(id: string): void {
+    const annotation = this.state.getAnnotation(id);
+    const bbox = annotation && SVGUtils.getAnnotationBBox(annotation);
+    if (!bbox) return;
+
+    const viewport = this.viewer.viewport;
+    const center = viewport.imageToViewportCoordinates(
+      (bbox.minX + bbox.maxX) / 2,
+      (bbox.minY + bbox.maxY) / 2
+    );
+    const bounds = viewport.getBounds(true);
+    const visible =
+      center.x >= bounds.x && center.x <= bounds.x + bounds.width &&
+      center.y >= bounds.y && center.y <= bounds.y + bounds.height;
+    if (!visible) {
+      viewport.panTo(center, Accessibility.prefersReducedMotion());
+    }
+  }
+
+  private readonly onViewerPointer = (event: PointerEvent) => {
+    OpenSeadragonAnnotator.active = this;
+    this.pointer = this.svgOverlay.eventToImage(event);
+  };
+
+  private readonly onViewerPointerLeave = () => {
+    this.pointer = null;
+  };
+
+  // Keyboard or screen reader focus on a shape selects it; focus from a
+  // click is left to the click handler
+  private readonly onShapeFocus = (event: FocusEvent) => {
+    const group = (event.target as Element).closest('.a9s-shape-group') as SVGGElement | null;
+    const id = group?.dataset['id'];
+    if (!group || !id || !group.matches(':focus-visible')) return;
+    if (this.state.getSelectedIds().includes(id) || !this.state.isAnnotationSelectable(id)) return;
+
+    this.clearSelectionAndEditing();
+    this.selectAnnotation(id);
+    // Selecting raises the shape; moving it in the DOM drops focus
+    group.focus({ preventScroll: true });
+  };
+
+  private toImagePoint(position: OpenSeadragon.Point): Point {
+    const webPoint = new OpenSeadragon.Point(position.x, position.y);
+    const viewportPoint = this.viewer.viewport.pointFromPixel(webPoint);
+    const img = this.viewer.viewport.viewportToImageCoordinates(viewportPoint);
+    return { x: img.x, y: img.y };
+  }
+
+  /**
+   * Edit a single selected shape directly; move a multi-selection as a group
+   */
+  private syncEditing(): void {
+    const ids = this.state.getSelectedIds();
+    if (ids.length === 1) {
+      const shape = this.state.getShape(ids[0]);
+      if (shape && !this.editManager.isEditingEntity(ids[0])) {
+        this.editManager.startEditing(ids[0], shape);
+      }
+    } else if (ids.length > 1) {
+      const entries = ids
+        .map((id) => ({ id, shape: this.state.getShape(id) }))
+        .filter((entry) => !!entry.shape) as { id: string; shape: Shape }[];
+      this.editManager.startGroupEditing(entries);
+    } else {
+      this.editManager.stopEditing();
+    }
+  }
+
+  private redrawAll(): void {
+    this.layerManager.clearGroups();
+    const annotations = this.state.getAllInStackingOrder();
     for (const annotation of annotations) {
       const id = annotation.id!;
       if (!this.state.isAnnotationVisible(id)) {
@@ -335,20 +1141,19 @@ export class OpenSeadragonAnnotator extends EventEmitter {
       }
 
       const svgElement = shape.getElement();
-      overlayNode.appendChild(svgElement);
+      this.layerManager.getGroup(annotation.layer).appendChild(svgElement);
 
       // Apply styles to non-editing shapes
       const style = this.styleManager.getStyle(id);
       shape.applyStyle(style);
+      shape.setAccessibleName?.(Accessibility.describe(annotation));
     }
   }
 
   loadAnnotations(annotations: Annotation[]): void {
     this.state.clear();
-    const overlayNode = this.svgOverlay.node();
-    while (overlayNode.firstChild) {
-      overlayNode.removeChild(overlayNode.firstChild);
-    }
+    this.layerManager.clearGroups();
+    this.ensureLayers(annotations);
     this.state.loadAnnotations(
       annotations.map((annotation) => {
         const shape = ShapeFactory.createFromGeometry(
@@ -361,9 +1166,36 @@ export class OpenSeadragonAnnotator extends EventEmitter {
         return { annotation, shape };
       })
     );
+    this.store.load(this.state.getAll());
   }
   // Update addAnnotation to remove svgOverlay parameter
   addAnnotation(annotation: Annotation): void {
+    this.insertAnnotation(annotation, !this.applyingHistory);
+  }
+
+  /**
+   * Put the server's version of an annotation in place, or remove it when
+   * `annotation` is null, without recording undo history or checking locks.
+   * Sync layers use this to roll back rejected changes.
+   */
+  applyRemoteAnnotation(id: string, annotation: Annotation | null): void {
+    if (!annotation) {
+      if (!this.state.getAnnotation(id)) return;
+      this.state.remove(id);
+      this.store.discard(id);
+      this.redrawAll();
+    } else if (this.state.getAnnotation(id)) {
+      this.restoreAnnotation(structuredClone(annotation));
+      this.store.put(annotation);
+      this.redrawAll();
+    } else {
+      this.insertAnnotation(structuredClone(annotation), false);
+      this.store.put(annotation);
+    }
+  }
+
+  private insertAnnotation(annotation: Annotation, recordHistory: boolean): void {
+    this.ensureLayers([annotation]);
     const shape = ShapeFactory.createFromGeometry(
       annotation.id || uuid(),
       convertToViewportCoordinates(
@@ -372,6 +1204,9 @@ export class OpenSeadragonAnnotator extends EventEmitter {
       )
     );
     this.state.add(annotation, shape);
+    if (recordHistory) {
+      this.store.create(annotation);
+    }
     if (annotation.style) {
       this.styleManager.setCustomStyle(annotation.id, annotation.style);
     }
@@ -381,13 +1216,22 @@ export class OpenSeadragonAnnotator extends EventEmitter {
     this.redrawAll();
   }
 
+  /**
+   * Remove an annotation. Locked annotations, and all of them in read-only
+   * mode, are kept.
+   */
   removeAnnotation(id: string): void {
+    if (!this.applyingHistory && this.isLocked(id)) return;
     this.state.remove(id);
+    if (!this.applyingHistory) {
+      this.store.delete(id);
+    }
     this.redrawAll();
   }
 
   updateAnnotation(id: string, update: Partial<Annotation>): void {
     this.state.update(id, update);
+    this.recordUpdate(id);
     if (update.style) {
       this.styleManager.setCustomStyle(id, update.style);
     }
@@ -401,38 +1245,311 @@ export class OpenSeadragonAnnotator extends EventEmitter {
     this.redrawAll();
   }
 
+  /**
+   * Replace an annotation as a whole, whether or not it is selected
+   */
+  replaceAnnotation(annotation: Annotation): void {
+    if (!this.state.getAnnotation(annotation.id)) return;
+    this.restoreAnnotation(structuredClone(annotation));
+    this.recordUpdate(annotation.id);
+    this.redrawAll();
+  }
+
   getAnnotations(): Annotation[] {
     return this.state.getAll();
   }
 
-  selectAnnotation(id: string): void {
-    this.state.select(id);
+  /**
+   * Export all annotations as W3C Web Annotation JSON-LD
+   */
+  exportW3C(): W3CAnnotation[] {
+    return W3CSerializer.serialize(this.state.getAll(), { source: this.config.imageUrl });
   }
 
-  clearSelectionAndEditing(): void {
-    this.editManager.stopEditing();
-    this.state.deselectAll();
+  /**
+   * Replace the current annotations with W3C Web Annotation JSON-LD
+   */
+  importW3C(data: W3CAnnotation | W3CAnnotation[] | { items: W3CAnnotation[] }): Annotation[] {
+    const annotations = W3CSerializer.parse(data);
+    this.loadAnnotations(annotations);
+    return annotations;
   }
 
-  disableEditing(id: string): void {
-    this.editManager.stopEditing();
+  /**
+   * Export all annotations as GeoJSON in image pixel coordinates
+   */
+  exportGeoJSON(options?: GeoJSONSerializeOptions): GeoJSONFeatureCollection {
+    return GeoJSONSerializer.serialize(this.state.getAll(), options);
   }
 
-  moveAnnotation(id: string, deltaX: number, deltaY: number): void {
-    const shape = this.state.getShape(id);
-    if (shape) {
-      shape.moveBy(deltaX, deltaY);
-      this.redrawAll();
-    }
+  /**
+   * Replace the current annotations with GeoJSON features
+   */
+  importGeoJSON(data: GeoJSONFeatureCollection | GeoJSONFeature | GeoJSONFeature[]): Annotation[] {
+    const annotations = GeoJSONSerializer.parse(data, this.config.imageUrl || '');
+    this.loadAnnotations(annotations);
+    return annotations;
   }
 
-  addAnnotationBody(id: string, body: AnnotationBody): void {
-    const annotation = this.state.getAnnotation(id);
-    if (annotation) {
-      this.state.update(id, {
+  /**
+   * Export rectangles, polygons and freehand shapes as a COCO dataset
+   */
+  exportCOCO(options?: DatasetExportOptions): COCODataset {
+    return COCOSerializer.serialize(this.state.getAll(), this.getDatasetImageInfo(), options);
+  }
+
+  /**
+   * Export rectangles, polygons and freehand shapes as Pascal VOC XML
+   */
+  exportVOC(options?: DatasetExportOptions): string {
+    return VOCSerializer.serialize(this.state.getAll(), this.getDatasetImageInfo(), options);
+  }
+
+  /**
+   * Replace the current annotations with the COCO annotations of one image
+   */
+  importCOCO(dataset: COCODataset, options: COCOImportOptions = {}): Annotation[] {
+    const annotations = COCOSerializer.parse(dataset, {
+      source: this.config.imageUrl,
+      ...options,
+    });
+    this.loadAnnotations(annotations);
+    return annotations;
+  }
+
+  private getDatasetImageInfo(): DatasetImageInfo {
+    const { width, height } = this.svgOverlay.getImageDimensions();
+    const path = (this.config.imageUrl || '').split(/[?#]/)[0];
+    return {
+      fileName: path.substring(path.lastIndexOf('/') + 1) || 'image',
+      width,
+      height,
+    };
+  }
+
+  selectAnnotation(id: string): void {
+    this.state.select(id);
+  }
+
+  /**
+   * Replace the current selection with the given annotations
+   */
+  selectAnnotations(ids: string[]): void {
+    this.clearSelectionAndEditing();
+    ids.forEach((id) => this.state.addToSelection(id));
+  }
+
+  /**
+   * Add an annotation to, or remove it from, the current selection
+   */
+  toggleAnnotationSelection(id: string): void {
+    this.state.toggleSelection(id);
+  }
+
+  /**
+   * Get the IDs of all selected annotations
+   */
+  getSelectedIds(): string[] {
+    return this.state.getSelectedIds();
+  }
+
+  /**
+   * Put the selected annotations on the clipboard (geometry, bodies, label,
+   * style and customData). Returns the serialized payload, or null when
+   * nothing is selected.
+   */
+  copySelectedAnnotations(): string | null {
+    const annotations = this.state
+      .getSelectedIds()
+      .map((id) => this.state.getAnnotation(id))
+      .filter((annotation): annotation is Annotation => !!annotation);
+    if (annotations.length === 0) return null;
+    return AnnotationClipboard.write(annotations, this.config.imageUrl);
+  }
+
+  /**
+   * Copy the selected annotations, then remove them. Locked annotations are
+   * copied but kept.
+   */
+  cutSelectedAnnotations(): string | null {
+    const payload = this.copySelectedAnnotations();
+    if (payload !== null) {
+      this.removeSelectedAnnotations();
+    }
+    return payload;
+  }
+
+  /**
+   * Add copies of clipboard annotations with new ids, as one undoable step,
+   * and select them. `payload` defaults to the page clipboard (never the
+   * system one) and may come from another annotator instance or page. They are centred on `position` (image
+   * coordinates), else on the pointer when it is over the viewer, else
+   * offset from the originals; either way kept inside the image. Returns
+   * the new ids.
+   */
+  pasteAnnotations(payload?: string | ClipboardPayload, position?: Point): string[] {
+    if (this.readOnly) return [];
+    const content = payload ?? AnnotationClipboard.read();
+    const parsed = content ? AnnotationClipboard.parse(content) : null;
+    if (!parsed || parsed.annotations.length === 0) return [];
+
+    // Repeated pastes without a position cascade instead of stacking up
+    const key = typeof content === 'string' ? content : JSON.stringify(content);
+    this.pasteCount = key === this.lastPasted ? this.pasteCount + 1 : 1;
+    this.lastPasted = key;
+
+    return this.insertCopies(parsed.annotations, position ?? this.pointer, this.pasteCount);
+  }
+
+  /**
+   * Copy the selected annotations in place with a small offset, without
+   * touching the clipboard. Returns the new ids.
+   */
+  duplicateSelectedAnnotations(): string[] {
+    if (this.readOnly) return [];
+    const annotations = this.state
+      .getSelectedIds()
+      .map((id) => this.state.getAnnotation(id))
+      .filter((annotation): annotation is Annotation => !!annotation);
+    const parsed = annotations.length > 0
+      ? AnnotationClipboard.parse(AnnotationClipboard.serialize(annotations))
+      : null;
+    return parsed ? this.insertCopies(parsed.annotations, null, 1) : [];
+  }
+
+  private insertCopies(
+    copies: ClipboardAnnotation[],
+    position: Point | null,
+    offsetSteps: number
+  ): string[] {
+    const boxes = copies
+      .map((copy) => SVGUtils.getAnnotationBBox(copy as Annotation))
+      .filter((box): box is NonNullable<typeof box> => !!box);
+    if (boxes.length === 0) return [];
+
+    const minX = Math.min(...boxes.map((b) => b.minX));
+    const minY = Math.min(...boxes.map((b) => b.minY));
+    const maxX = Math.max(...boxes.map((b) => b.maxX));
+    const maxY = Math.max(...boxes.map((b) => b.maxY));
+
+    let dx: number;
+    let dy: number;
+    if (position) {
+      dx = position.x - (minX + maxX) / 2;
+      dy = position.y - (minY + maxY) / 2;
+    } else {
+      // 10 screen pixels per step, whatever the zoom
+      dx = dy = (10 / this.svgOverlay.getScale()) * offsetSteps;
+    }
+
+    // Keep the group inside the image; oversized groups align top-left
+    const { width, height } = this.svgOverlay.getImageDimensions();
+    dx = Math.max(-minX, Math.min(dx, width - maxX));
+    dy = Math.max(-minY, Math.min(dy, height - maxY));
+
+    const activeLayer = this.layerManager.getActiveLayer();
+    const created: Annotation[] = copies.map((copy) => {
+      const annotation: Annotation = {
+        id: uuid(),
+        type: 'Annotation',
+        body: copy.body || [],
+        target: {
+          ...copy.target,
+          source: this.config.imageUrl || copy.target.source,
+          selector: {
+            ...copy.target.selector,
+            geometry: GeometryUtils.translate(copy.target.selector.geometry, dx, dy),
+          },
+        },
+      };
+      if (copy.label) annotation.label = GeometryUtils.translate(copy.label, dx, dy);
+      if (copy.style) annotation.style = copy.style;
+      if (copy.customData) annotation.customData = copy.customData;
+      if (activeLayer !== DEFAULT_LAYER_ID) annotation.layer = activeLayer;
+      return annotation;
+    });
+
+    this.batchHistory(() => created.forEach((annotation) => this.addAnnotation(annotation)));
+    const ids = created.map((annotation) => annotation.id);
+    this.selectAnnotations(ids);
+    return ids;
+  }
+
+  clearSelectionAndEditing(): void {
+    this.editManager.stopEditing();
+    this.state.deselectAll();
+  }
+
+  disableEditing(id: string): void {
+    this.editManager.stopEditing();
+  }
+
+  moveAnnotation(id: string, deltaX: number, deltaY: number): void {
+    if (this.isLocked(id)) return;
+    const annotation = this.state.getAnnotation(id);
+    const shape = this.state.getShape(id);
+    if (annotation && shape) {
+      shape.moveBy(deltaX, deltaY);
+      this.state.restore({
+        ...annotation,
+        target: {
+          ...annotation.target,
+          selector: {
+            ...annotation.target.selector,
+            geometry: shape.getGeometry(),
+          },
+        },
+      });
+      this.recordUpdate(id);
+      this.redrawAll();
+    }
+  }
+
+  /**
+   * Remove all selected annotations as a single undoable step. Locked ones
+   * are skipped, and nothing is removed in read-only mode.
+   */
+  removeSelectedAnnotations(): void {
+    const ids = this.state.getSelectedIds().filter((id) => !this.isLocked(id));
+    if (ids.length === 0) return;
+    this.batchHistory(() => ids.forEach((id) => this.removeAnnotation(id)));
+  }
+
+  /**
+   * Move all selected annotations by the given offset
+   */
+  moveSelectedAnnotations(deltaX: number, deltaY: number): void {
+    const ids = this.state.getSelectedIds();
+    this.batchHistory(() =>
+      ids.forEach((id) => this.moveAnnotation(id, deltaX, deltaY))
+    );
+  }
+
+  /**
+   * Apply a style to all selected annotations
+   */
+  setSelectedAnnotationsStyle(style: Partial<ShapeStyle>): void {
+    const ids = this.state.getSelectedIds();
+    this.batchHistory(() =>
+      ids.forEach((id) => this.setAnnotationStyle(id, style))
+    );
+  }
+
+  /**
+   * Hide all selected annotations
+   */
+  hideSelectedAnnotations(): void {
+    this.hideAnnotations(this.state.getSelectedIds());
+  }
+
+  addAnnotationBody(id: string, body: AnnotationBody): void {
+    const annotation = this.state.getAnnotation(id);
+    if (annotation) {
+      this.state.update(id, {
         ...annotation,
         body: [...annotation.body, body],
       });
+      this.recordUpdate(id);
       this.redrawAll();
     }
   }
@@ -443,6 +1560,7 @@ export class OpenSeadragonAnnotator extends EventEmitter {
       const body = [...annotation.body];
       body.splice(bodyIndex, 1);
       this.state.update(id, { ...annotation, body });
+      this.recordUpdate(id);
       this.redrawAll();
     }
   }
@@ -451,15 +1569,36 @@ export class OpenSeadragonAnnotator extends EventEmitter {
     this.config.toolType = type;
   }
 
-  setTheme(theme: Theme): void {
+  /**
+   * Set a theme object, a registered theme name, or 'auto' to follow
+   * prefers-color-scheme
+   */
+  setTheme(theme: Theme | string): void {
     this.styleManager.setTheme(theme);
-    this.redrawAll();
+  }
+
+  /**
+   * Replace the style rules and restyle every annotation
+   */
+  setStyleRules(rules: StyleRule[]): void {
+    this.styleManager.setRules(rules);
+    this.state.getAll().forEach((annotation) => {
+      this.styleManager.applyRules(annotation);
+      this.state.getShape(annotation.id)?.applyStyle(
+        this.styleManager.getStyle(annotation.id)
+      );
+    });
+  }
+
+  getStyleRules(): StyleRule[] {
+    return this.styleManager.getRules();
   }
 
   setAnnotationStyle(id: string, style: Partial<ShapeStyle>): void {
     this.styleManager.setCustomStyle(id, style);
     const updatedStyle = this.styleManager.getStyle(id);
     this.state.update(id, { style: updatedStyle }, false);
+    this.recordUpdate(id);
     const shape = this.state.getShape(id);
     shape?.applyStyle(updatedStyle);
   }
@@ -472,15 +1611,566 @@ export class OpenSeadragonAnnotator extends EventEmitter {
     this.editManager.changeArrowDirection(startIndex, endIndex, direction);
   }
 
+  /**
+   * Undo the last recorded change
+   */
+  undo(): void {
+    if (this.readOnly || !this.store.canUndo()) return;
+    this.clearSelectionAndEditing();
+    this.applyHistory(() => this.store.undo());
+  }
+
+  /**
+   * Redo the last undone change
+   */
+  redo(): void {
+    if (this.readOnly || !this.store.canRedo()) return;
+    this.clearSelectionAndEditing();
+    this.applyHistory(() => this.store.redo());
+  }
+
+  canUndo(): boolean {
+    return this.store.canUndo();
+  }
+
+  canRedo(): boolean {
+    return this.store.canRedo();
+  }
+
+  /**
+   * Drop the undo/redo history without touching annotations
+   */
+  clearHistory(): void {
+    this.store.clearHistory();
+  }
+
+  private batchHistory(operation: () => void): void {
+    this.store.startBatch();
+    try {
+      operation();
+    } finally {
+      this.store.endBatch();
+    }
+  }
+
+  private applyHistory(step: () => void): void {
+    this.applyingHistory = true;
+    try {
+      step();
+    } finally {
+      this.applyingHistory = false;
+    }
+    this.redrawAll();
+  }
+
+  /**
+   * Put a history snapshot back onto the live state, shape and style
+   */
+  private restoreAnnotation(annotation: Annotation): void {
+    this.ensureLayers([annotation]);
+    this.state.restore(annotation);
+    this.styleManager.removeCustomStyle(annotation.id);
+    if (annotation.style) {
+      this.styleManager.setCustomStyle(annotation.id, annotation.style);
+    }
+    this.state.getShape(annotation.id)?.applyStyle(
+      this.styleManager.getStyle(annotation.id)
+    );
+  }
+
+  /**
+   * Record any difference between the live annotation and the history store
+   * as a single undoable update
+   */
+  private recordUpdate(id: string): void {
+    if (this.applyingHistory) return;
+    const current = this.state.getAnnotation(id);
+    const recorded = this.store.get(id);
+    if (!current || !recorded) return;
+
+    const changes: Partial<Annotation> = {};
+    const take = <K extends keyof Annotation>(key: K) => {
+      changes[key] = current[key];
+    };
+    const keys = new Set(
+      [...Object.keys(current), ...Object.keys(recorded)] as (keyof Annotation)[]
+    );
+    keys.forEach((key) => {
+      if (JSON.stringify(current[key]) !== JSON.stringify(recorded[key])) {
+        take(key);
+      }
+    });
+
+    if (Object.keys(changes).length > 0) {
+      this.store.update(id, changes);
+    }
+  }
+
   getTheme(): Theme {
     return this.styleManager.getTheme();
   }
 
+  /**
+   * Switch high-contrast drawing on or off, or 'auto' to follow the
+   * system's contrast preference
+   */
+  setHighContrast(mode: HighContrastMode): void {
+    this.styleManager.setHighContrast(mode);
+  }
+
+  getHighContrast(): HighContrastMode {
+    return this.styleManager.getHighContrastSetting();
+  }
+
+  /**
+   * Read a message out to screen reader users through the viewer's live
+   * region, e.g. the result of an app-specific action
+   */
+  announce(message: string): void {
+    this.liveRegion.announce(message);
+  }
+
+  private announceSelection(ids: string[]): void {
+    // Selections are built one id at a time; only the result is read out
+    if (ids.length > 1) {
+      this.liveRegion.announce(`${ids.length} annotations selected`, 'selection');
+      return;
+    }
+    const annotation = ids.length === 1 ? this.state.getAnnotation(ids[0]) : undefined;
+    if (annotation) {
+      this.liveRegion.announce(`${Accessibility.describe(annotation)} selected`, 'selection');
+    }
+  }
+
+  /**
+   * Reorder annotations within each affected layer and store the result as
+   * zIndex values 0..n-1, as one undoable step. Only changed values are written.
+   */
+  private reorder(
+    ids: string | string[],
+    arrange: (order: string[], moving: Set<string>) => string[]
+  ): void {
+    const moving = new Set(Array.isArray(ids) ? ids : [ids]);
+    const layers = new Set(
+      Array.from(moving)
+        .filter((id) => this.state.getAnnotation(id))
+        .map((id) => this.state.getLayerId(id))
+    );
+    if (layers.size === 0) return;
+
+    this.batchHistory(() => {
+      layers.forEach((layerId) => {
+        // Current order of the layer, ignoring the selection
+        const order = this.state
+          .getAll()
+          .filter((annotation) => (annotation.layer || DEFAULT_LAYER_ID) === layerId)
+          .map((annotation, index) => ({ annotation, index }))
+          .sort((a, b) =>
+            (a.annotation.zIndex ?? 0) - (b.annotation.zIndex ?? 0) || a.index - b.index
+          )
+          .map(({ annotation }) => annotation.id);
+
+        arrange(order, moving).forEach((id, zIndex) => {
+          const annotation = this.state.getAnnotation(id)!;
+          if ((annotation.zIndex ?? 0) === zIndex) return;
+          this.restoreAnnotation({ ...annotation, zIndex });
+          this.recordUpdate(id);
+        });
+      });
+    });
+
+    this.redrawAll();
+  }
+
+  /**
+   * Create layers referenced by annotations that aren't defined yet
+   */
+  private ensureLayers(annotations: Annotation[]): void {
+    annotations.forEach((annotation) => {
+      if (annotation.layer) this.layerManager.ensureLayer(annotation.layer);
+    });
+  }
+
+  /**
+   * Annotations in hidden or locked layers can't stay selected
+   */
+  private dropUnselectable(): void {
+    this.state
+      .getSelectedIds()
+      .filter((id) => !this.state.isAnnotationSelectable(id))
+      .forEach((id) => this.state.removeFromSelection(id));
+  }
+
+  /**
+   * Locked annotations, and every annotation in read-only mode, can't be
+   * edited, moved or deleted
+   */
+  private isLocked(id: string): boolean {
+    return this.readOnly || this.state.isAnnotationLocked(id);
+  }
+
+  /**
+   * Restart editing of the current selection after lock state changed
+   */
+  private refreshEditing(): void {
+    this.editManager.stopEditing();
+    this.syncEditing();
+  }
+
+  /**
+   * Measurement for annotations drawn with a measuring tool, or for area
+   * shapes when `measureShapes` is on
+   */
+  private getDrawnMeasurementType(geometry: Geometry): MeasurementType | null {
+    switch (this.toolManager.getActiveTool()?.name) {
+      case 'ruler':
+        return 'distance';
+      case 'angle':
+        return 'angle';
+    }
+    return this.config.measureShapes && MeasurementUtils.getDefaultType(geometry) === 'area'
+      ? 'area'
+      : null;
+  }
+
+  /**
+   * Copy of the annotation with a measurement in `customData` and its text
+   * as the label. A new label goes above the shape; an existing one keeps
+   * its position. Unmeasurable annotations are returned unchanged.
+   */
+  private withMeasurement(annotation: Annotation, type: MeasurementType): Annotation {
+    const measurement = MeasurementUtils.measure(
+      annotation.target.selector.geometry,
+      type,
+      this.calibration
+    );
+    if (!measurement) return annotation;
+
+    const bbox = SVGUtils.getAnnotationBBox(annotation);
+    const label: TextGeometry = {
+      ...annotation.label,
+      type: 'text',
+      x: annotation.label?.x ?? (bbox ? (bbox.minX + bbox.maxX) / 2 : 0),
+      y: annotation.label?.y ?? (bbox ? bbox.minY - 10 : 0),
+      text: measurement.text,
+    };
+    return {
+      ...annotation,
+      customData: { ...annotation.customData, measurement },
+      label,
+    };
+  }
+
+  /**
+   * Recompute the stored measurement of an annotation; returns true if it
+   * changed and was written back
+   */
+  private refreshMeasurement(id: string): boolean {
+    const annotation = this.state.getAnnotation(id);
+    const current = annotation?.customData?.['measurement'] as Measurement | undefined;
+    if (!annotation || !current) return false;
+
+    const measured = this.withMeasurement(annotation, current.type);
+    if (
+      JSON.stringify(measured.customData?.['measurement']) === JSON.stringify(current) &&
+      measured.label?.text === annotation.label?.text
+    ) {
+      return false;
+    }
+
+    this.restoreAnnotation(measured);
+    this.recordUpdate(id);
+    return true;
+  }
+
+  /**
+   * Show the measurement of a geometry that is being edited, without
+   * storing it
+   */
+  private previewMeasurement(id: string, geometry: Geometry): void {
+    const annotation = this.state.getAnnotation(id);
+    const current = annotation?.customData?.['measurement'] as Measurement | undefined;
+    const shape = this.state.getShape(id);
+    if (!annotation?.label || !current || !shape) return;
+
+    const measurement = MeasurementUtils.measure(geometry, current.type, this.calibration);
+    if (measurement) {
+      shape.updateLabel({ ...annotation.label, text: measurement.text });
+    }
+  }
+
+  private hasCustomCrosshairColor(): boolean {
+    const crosshair = this.config.crosshair;
+    return typeof crosshair === 'object' && !!crosshair.color;
+  }
+
+  /**
+   * Switch read-only viewer mode. Drawing tools, editing, deleting and
+   * undo/redo are disabled; annotations can still be selected and hovered.
+   */
+  setReadOnly(readOnly: boolean): void {
+    if (this.readOnly === readOnly) return;
+    this.readOnly = readOnly;
+    this.toolManager.setEnabled(!readOnly);
+    this.refreshEditing();
+  }
+
+  isReadOnly(): boolean {
+    return this.readOnly;
+  }
+
+  /**
+   * Lock or unlock annotations against editing, moving and deleting. Locked
+   * annotations can still be selected.
+   */
+  setAnnotationLocked(ids: string | string[], locked: boolean): void {
+    const targets = (Array.isArray(ids) ? ids : [ids]).filter(
+      (id) => this.state.getAnnotation(id) && this.state.isAnnotationLocked(id) !== locked
+    );
+    if (targets.length === 0) return;
+
+    this.batchHistory(() =>
+      targets.forEach((id) => {
+        const annotation: Annotation = { ...this.state.getAnnotation(id)!, locked };
+        if (!locked) delete annotation.locked;
+        this.restoreAnnotation(annotation);
+        this.recordUpdate(id);
+      })
+    );
+
+    if (targets.some((id) => this.state.isSelected(id))) {
+      this.refreshEditing();
+    }
+  }
+
+  isAnnotationLocked(id: string): boolean {
+    return this.state.isAnnotationLocked(id);
+  }
+
+  /**
+   * Change snapping options; `true`/`false` toggles snapping with the
+   * current options
+   */
+  setSnapping(config: SnapConfig | boolean): void {
+    this.snapManager.setConfig(config);
+  }
+
+  getSnapping(): SnapConfig {
+    return this.snapManager.getConfig();
+  }
+
+  /**
+   * Configure the built-in context menu; `true`/`false` toggles it with
+   * the current items
+   */
+  setContextMenu(config: ContextMenuConfig | boolean): void {
+    this.contextMenuConfig = typeof config === 'boolean'
+      ? { ...this.contextMenuConfig, enabled: config }
+      : { enabled: true, ...config };
+
+    if (this.contextMenuConfig.enabled) {
+      this.contextMenu ??= new ContextMenu(this.viewer.element);
+    } else {
+      this.contextMenu?.destroy();
+      this.contextMenu = null;
+    }
+  }
+
+  getContextMenu(): ContextMenuConfig {
+    return { ...this.contextMenuConfig };
+  }
+
+  closeContextMenu(): void {
+    this.contextMenu?.close();
+  }
+
+  /**
+   * Constraints for Shift-drawing and Shift-resizing; an `aspectRatio`
+   * (width / height) replaces the square and the shape's own ratio
+   */
+  setDrawingOptions(options: DrawingOptions): void {
+    this.drawingOptions = { ...options };
+    this.toolManager.getTools().forEach((tool) => tool.setDrawingOptions(this.drawingOptions));
+    this.editManager.setDrawingOptions(this.drawingOptions);
+  }
+
+  getDrawingOptions(): DrawingOptions {
+    return { ...this.drawingOptions };
+  }
+
+  setMagicWandOptions(options: MagicWandOptions): void {
+    this.findTool(MagicWandTool)?.setOptions(options);
+  }
+
+  getMagicWandOptions(): MagicWandOptions | null {
+    return this.findTool(MagicWandTool)?.getOptions() ?? null;
+  }
+
+  setFreehandOptions(options: FreehandOptions): void {
+    this.findTool(FreehandTool)?.setOptions(options);
+  }
+
+  getFreehandOptions(): FreehandOptions | null {
+    return this.findTool(FreehandTool)?.getOptions() ?? null;
+  }
+
+  /**
+   * Drop vertices of a polygon or freehand annotation that deviate less
+   * than `tolerance` image pixels from the simplified outline, as one
+   * undoable step. Without a tolerance, the freehand tool's screen-pixel
+   * tolerance at the current zoom is used. Returns the number of vertices
+   * removed.
+   */
+  simplifyAnnotation(id: string, tolerance?: number): number {
+    const annotation = this.state.getAnnotation(id);
+    if (!annotation || this.isLocked(id)) return 0;
+
+    const geometry = annotation.target.selector.geometry;
+    if (geometry.type !== 'polygon' && geometry.type !== 'freehand') return 0;
+
+    const distance = tolerance ?? (this.getFreehandOptions()?.simplify ?? 1.5) / this.svgOverlay.getScale();
+    const closed = geometry.type === 'polygon' || geometry.points.length > 2;
+    const points = GeometryUtils.simplifyPath(geometry.points, distance, closed);
+    // Keep enough vertices for the shape to stay valid
+    if (points.length < (closed ? 3 : 2) || points.length === geometry.points.length) return 0;
+
+    this.restoreAnnotation({
+      ...annotation,
+      target: {
+        ...annotation.target,
+        selector: { ...annotation.target.selector, geometry: { ...geometry, points } },
+      },
+    });
+    this.recordUpdate(id);
+    this.redrawAll();
+    if (this.state.isSelected(id)) {
+      this.refreshEditing();
+    }
+    return geometry.points.length - points.length;
+  }
+
+  private findTool<T extends Tool>(type: new (...args: any[]) => T): T | null {
+    const tool = this.toolManager.getTools().find((t) => t instanceof type);
+    return (tool as T | undefined) ?? null;
+  }
+
+  /**
+   * Canvas OpenSeadragon renders the image into, for reading pixels
+   */
+  private getViewerCanvas(): HTMLCanvasElement | null {
+    const canvas = this.viewer.drawer?.canvas;
+    return canvas instanceof HTMLCanvasElement ? canvas : null;
+  }
+
+  /**
+   * Set pixels per real-world unit, or null for pixels. Stored measurements
+   * are recomputed as one undoable step.
+   */
+  setCalibration(calibration: MeasurementCalibration | null): void {
+    this.calibration = calibration ? { ...calibration } : null;
+    const measured = this.state
+      .getAll()
+      .filter((annotation) => annotation.customData?.['measurement']);
+    this.batchHistory(() => measured.forEach((annotation) => this.refreshMeasurement(annotation.id)));
+    this.redrawAll();
+  }
+
+  getCalibration(): MeasurementCalibration | null {
+    return this.calibration ? { ...this.calibration } : null;
+  }
+
+  /**
+   * Calibrate from a line or ruler annotation of known real-world length
+   */
+  calibrateFromAnnotation(id: string, length: number, unit: string): void {
+    const annotation = this.state.getAnnotation(id);
+    if (!annotation) {
+      throw new Error(`Annotation with id '${id}' not found`);
+    }
+    const pixels = MeasurementUtils.measure(annotation.target.selector.geometry, 'distance');
+    if (!pixels?.length || length <= 0) {
+      throw new Error(`Annotation '${id}' can't be used for calibration`);
+    }
+    this.setCalibration({
+      pixelsPerUnit: pixels.length / length,
+      unit,
+      decimals: this.calibration?.decimals,
+    });
+  }
+
+  /**
+   * Attach measurements to annotations, as one undoable step. Without a
+   * type, area shapes get area/perimeter and lines get their length.
+   */
+  measureAnnotations(ids: string[], type?: MeasurementType): void {
+    this.batchHistory(() =>
+      ids.forEach((id) => {
+        const annotation = this.state.getAnnotation(id);
+        if (!annotation) return;
+        const measurementType =
+          type ?? MeasurementUtils.getDefaultType(annotation.target.selector.geometry);
+        if (!measurementType) return;
+
+        const measured = this.withMeasurement(annotation, measurementType);
+        if (measured !== annotation) {
+          this.restoreAnnotation(measured);
+          this.recordUpdate(id);
+        }
+      })
+    );
+    this.redrawAll();
+  }
+
+  /**
+   * Remove measurements and their labels, as one undoable step
+   */
+  clearMeasurements(ids: string[]): void {
+    this.batchHistory(() =>
+      ids.forEach((id) => {
+        const annotation = this.state.getAnnotation(id);
+        if (!annotation?.customData?.['measurement']) return;
+
+        const customData = { ...annotation.customData };
+        delete customData['measurement'];
+        const cleared: Annotation = { ...annotation, customData };
+        delete cleared.label;
+        if (Object.keys(customData).length === 0) delete cleared.customData;
+
+        this.restoreAnnotation(cleared);
+        this.recordUpdate(id);
+      })
+    );
+    this.redrawAll();
+  }
+
+  /**
+   * Current measurement of an annotation: its stored measurement type, or
+   * the default for its geometry
+   */
+  getMeasurement(id: string): Measurement | null {
+    const annotation = this.state.getAnnotation(id);
+    if (!annotation) return null;
+    const stored = annotation.customData?.['measurement'] as Measurement | undefined;
+    return MeasurementUtils.measure(
+      annotation.target.selector.geometry,
+      stored?.type ?? MeasurementUtils.getDefaultType(annotation.target.selector.geometry),
+      this.calibration
+    );
+  }
+
+  /**
+   * Measure newly drawn area shapes
+   */
+  setMeasureShapes(enabled: boolean): void {
+    this.config.measureShapes = enabled;
+  }
+
   getAvailableTools(): string[] {
     return this.toolManager.getTools().map((tool) => tool.name);
   }
 
   activateTool(name: string): void {
+    if (this.readOnly) return;
     this.clearSelectionAndEditing();
     this.toolManager.activateTool(name);
   }
@@ -517,12 +2207,8 @@ isAnnotationVisible(id: string): boolean {
  * Hide multiple annotations by IDs
  */
 hideAnnotations(ids: string[]): void {
-  // Check if any of the IDs being hidden are currently being edited
-  const currentEditingId = this.editManager.getCurrentEditingEntity()?.id;
-  if (currentEditingId && ids.includes(currentEditingId)) {
-    this.editManager.stopEditing();
-    this.state.deselectAll();
-  }
+  // Hidden annotations cannot stay selected or be edited
+  ids.forEach(id => this.state.removeFromSelection(id));
 
   ids.forEach(id => this.state.setAnnotationVisible(id, false));
   this.redrawAll(); // Single redraw for all changes
@@ -550,6 +2236,149 @@ getVisibleAnnotationIds(): string[] {
   return this.state.getVisibleAnnotationIds();
 }
 
+  /**
+   * Layers in stacking order, bottom first
+   */
+  getLayers(): AnnotationLayer[] {
+    return this.layerManager.getLayers();
+  }
+
+  /**
+   * Add a layer on top, or at `index` in the stacking order
+   */
+  addLayer(
+    layer: Partial<AnnotationLayer> & { id: string },
+    index?: number
+  ): AnnotationLayer {
+    return this.layerManager.addLayer(layer, index);
+  }
+
+  /**
+   * Remove a layer; its annotations move to the default layer
+   */
+  removeLayer(id: string): void {
+    if (id === DEFAULT_LAYER_ID || !this.layerManager.hasLayer(id)) return;
+    this.moveAnnotationsToLayer(this.getAnnotationIdsInLayer(id), DEFAULT_LAYER_ID);
+    this.layerManager.removeLayer(id);
+  }
+
+  /**
+   * Change a layer's name, visibility, opacity or lock
+   */
+  updateLayer(id: string, changes: Partial<Omit<AnnotationLayer, 'id'>>): void {
+    this.layerManager.updateLayer(id, changes);
+  }
+
+  setLayerVisible(id: string, visible: boolean): void {
+    this.layerManager.updateLayer(id, { visible });
+  }
+
+  setLayerOpacity(id: string, opacity: number): void {
+    this.layerManager.updateLayer(id, { opacity });
+  }
+
+  setLayerLocked(id: string, locked: boolean): void {
+    this.layerManager.updateLayer(id, { locked });
+  }
+
+  /**
+   * Move a layer to a new position in the stacking order (0 = bottom)
+   */
+  moveLayer(id: string, index: number): void {
+    this.layerManager.moveLayer(id, index);
+  }
+
+  /**
+   * Layer that newly drawn annotations are added to
+   */
+  setActiveLayer(id: string): void {
+    this.layerManager.setActiveLayer(id);
+  }
+
+  getActiveLayer(): string {
+    return this.layerManager.getActiveLayer();
+  }
+
+  getAnnotationIdsInLayer(layerId: string): string[] {
+    return this.state
+      .getAll()
+      .filter((annotation) => (annotation.layer || DEFAULT_LAYER_ID) === layerId)
+      .map((annotation) => annotation.id);
+  }
+
+  /**
+   * Move annotations to another layer as one undoable step. Unknown layer
+   * ids are created.
+   */
+  moveAnnotationsToLayer(ids: string[], layerId: string): void {
+    this.layerManager.ensureLayer(layerId);
+
+    this.batchHistory(() => {
+      ids.forEach((id) => {
+        const annotation = this.state.getAnnotation(id);
+        if (!annotation || (annotation.layer || DEFAULT_LAYER_ID) === layerId) return;
+
+        const moved: Annotation = { ...annotation, layer: layerId };
+        if (layerId === DEFAULT_LAYER_ID) delete moved.layer;
+        this.restoreAnnotation(moved);
+        this.recordUpdate(id);
+      });
+    });
+
+    this.dropUnselectable();
+    this.redrawAll();
+  }
+
+  /**
+   * Draw annotations above everything else in their layer
+   */
+  bringToFront(ids: string | string[]): void {
+    this.reorder(ids, (order, moving) => [
+      ...order.filter((id) => !moving.has(id)),
+      ...order.filter((id) => moving.has(id)),
+    ]);
+  }
+
+  /**
+   * Draw annotations below everything else in their layer
+   */
+  sendToBack(ids: string | string[]): void {
+    this.reorder(ids, (order, moving) => [
+      ...order.filter((id) => moving.has(id)),
+      ...order.filter((id) => !moving.has(id)),
+    ]);
+  }
+
+  /**
+   * Move annotations one step up, above the next annotation in their layer
+   */
+  bringForward(ids: string | string[]): void {
+    this.reorder(ids, (order, moving) => {
+      const result = [...order];
+      for (let i = result.length - 2; i >= 0; i--) {
+        if (moving.has(result[i]) && !moving.has(result[i + 1])) {
+          [result[i], result[i + 1]] = [result[i + 1], result[i]];
+        }
+      }
+      return result;
+    });
+  }
+
+  /**
+   * Move annotations one step down, below the previous annotation in their layer
+   */
+  sendBackward(ids: string | string[]): void {
+    this.reorder(ids, (order, moving) => {
+      const result = [...order];
+      for (let i = 1; i < result.length; i++) {
+        if (moving.has(result[i]) && !moving.has(result[i - 1])) {
+          [result[i], result[i - 1]] = [result[i - 1], result[i]];
+        }
+      }
+      return result;
+    });
+  }
+
   /**
    * Get the SVG overlay instance for external use
    */
@@ -565,12 +2394,38 @@ getVisibleAnnotationIds(): string[] {
   }
 
   destroy(): void {
+    // Flush a pending auto-save before the state is cleared
+    if (this.autoSaveTimer) {
+      this.save();
+    }
+    this.destroyed = true;
+
     // Clean up managers
     this.toolManager.destroy();
     this.crosshair?.destroy();
     this.keyboardManager.destroy();
     this.styleManager.destroy();
     this.editManager.destroy();
+    this.selectionBox.destroy();
+    this.fillPatterns.destroy();
+    this.layerManager.destroy();
+    this.snapManager.destroy();
+    this.liveRegion.destroy();
+    this.contextMenu?.destroy();
+    this.cancelLongPress();
+    this.viewer.canvas.removeEventListener('contextmenu', this.onContextMenu);
+    this.viewer.canvas.removeEventListener('pointerdown', this.onLongPressStart);
+    this.viewer.canvas.removeEventListener('pointermove', this.onLongPressMove);
+    this.viewer.canvas.removeEventListener('pointerup', this.cancelLongPress);
+    this.viewer.canvas.removeEventListener('pointercancel', this.cancelLongPress);
+    this.store.removeAllListeners();
+    this.svg.removeEventListener('focusin', this.onShapeFocus);
+    this.viewer.element.removeEventListener('pointerenter', this.onViewerPointer);
+    this.viewer.element.removeEventListener('pointermove', this.onViewerPointer);
+    this.viewer.element.removeEventListener('pointerleave', this.onViewerPointerLeave);
+    if (OpenSeadragonAnnotator.active === this) {
+      OpenSeadragonAnnotator.active = null;
+    }
     // Destroy SVG overlay
     this.svgOverlay.destroy();
 
@@ -616,9 +2471,11 @@ getVisibleAnnotationIds(): string[] {
     this.state.update(annotationId, {
       label: labelGeometry,
     }, false);
+    this.recordUpdate(annotationId);
     shape.updateLabel(labelGeometry);
     const style = this.styleManager.getStyle(annotationId)
     shape.applyStyle(style);
+    shape.setAccessibleName?.(Accessibility.describe(this.state.getAnnotation(annotationId)!));
   }
 
   /**
@@ -684,34 +2541,139 @@ getVisibleAnnotationIds(): string[] {
     }
   }
 
+  /**
+   * Re-evaluate the style rules for an annotation and restyle its shape
+   * if the result changed
+   */
+  private applyStyleRules(annotation: Annotation): void {
+    if (this.styleManager.applyRules(annotation)) {
+      this.state.getShape(annotation.id)?.applyStyle(
+        this.styleManager.getStyle(annotation.id)
+      );
+    }
+  }
+
   private onAnnotationCreated(annotation: Annotation): void {
+    this.applyStyleRules(annotation);
+    this.announce(`${Accessibility.describe(annotation)} created`);
     this.emit('create', annotation);
+    this.scheduleAutoSave();
   }
 
   private onAnnotationUpdated(annotation: Annotation): void {
+    // A changed measurement is written back, which re-enters this handler
+    if (this.refreshMeasurement(annotation.id)) return;
+    this.applyStyleRules(annotation);
     this.emit('update', annotation);
+    this.scheduleAutoSave();
   }
 
   private onAnnotationDeleted(annotation: Annotation): void {
+    this.styleManager.clearRuleStyle(annotation.id);
+    this.announce(`${Accessibility.describe(annotation)} deleted`);
     this.emit('delete', annotation);
+    this.scheduleAutoSave();
     this.redrawAll();
   }
 
+  /**
+   * Replace the current annotations with the ones saved for a source.
+   * Annotations set or drawn while the snapshot loads win: the restore is
+   * then skipped and resolves to an empty list.
+   */
+  async restore(source: string | undefined = this.config.imageUrl): Promise<Annotation[]> {
+    const storage = this.config.storage;
+    if (!storage || !source) return [];
+
+    const revision = this.stateRevision;
+    try {
+      const snapshot = await storage.load(source);
+      if (!snapshot || this.destroyed) return [];
+      if (this.stateRevision !== revision) {
+        console.warn(`Skipped restoring ${source}: annotations changed while it was loading`);
+        return [];
+      }
+
+      const annotations = Object.values(snapshot.annotations);
+      if (snapshot.layers) {
+        this.layerManager.setLayers(snapshot.layers);
+      }
+      this.loadAnnotations(annotations);
+      this.persistedSources.add(source);
+      this.emit('restored', { source, annotations });
+      return annotations;
+    } catch (error) {
+      console.error('Failed to restore annotations:', error);
+      this.emit('storageError', { operation: 'load', source, error });
+      return [];
+    }
+  }
+
+  /**
+   * Save all annotations now, one snapshot per `target.source`.
+   * Sources whose annotations were all removed are deleted from storage.
+   */
+  async save(): Promise<void> {
+    const storage = this.config.storage;
+    if (!storage) return;
+
+    if (this.autoSaveTimer) {
+      clearTimeout(this.autoSaveTimer);
+      this.autoSaveTimer = null;
+    }
+
+    const groups = new Map<string, Annotation[]>();
+    this.persistedSources.forEach((source) => groups.set(source, []));
+    for (const annotation of this.state.getAll()) {
+      const source = annotation.target.source || this.config.imageUrl;
+      if (!source) continue;
+      if (!groups.has(source)) groups.set(source, []);
+      groups.get(source)!.push(annotation);
+    }
+
+    // Read everything up front: destroy() doesn't wait for the save
+    const selectedIds = this.state.getSelectedIds();
+    const editingId = this.editManager.getCurrentEditingEntity()?.id ?? null;
+    const layers = this.layerManager.getLayers();
+
+    for (const [source, annotations] of groups) {
+      try {
+        if (annotations.length === 0) {
+          await storage.delete(source);
+          this.persistedSources.delete(source);
+        } else {
+          const ids = new Set(annotations.map((a) => a.id));
+          await storage.save(source, {
+            annotations: Object.fromEntries(annotations.map((a) => [a.id, structuredClone(a)])),
+            selectedIds: selectedIds.filter((id) => ids.has(id)),
+            editingId: editingId && ids.has(editingId) ? editingId : null,
+            layers: structuredClone(layers),
+            version: SNAPSHOT_VERSION,
+            timestamp: new Date().toISOString(),
+          });
+          this.persistedSources.add(source);
+        }
+      } catch (error) {
+        console.error('Failed to save annotations:', error);
+        this.emit('storageError', { operation: 'save', source, error });
+      }
+    }
+  }
+
+  private scheduleAutoSave(): void {
+    if (!this.config.storage || !this.config.autoSave) return;
+
+    if (this.autoSaveTimer) clearTimeout(this.autoSaveTimer);
+    this.autoSaveTimer = setTimeout(() => {
+      this.autoSaveTimer = null;
+      this.save();
+    }, this.config.autoSaveDelay);
+  }
+
   private onAnnotationSelected(annotation: Annotation): void {
     const shape = this.state.getShape(annotation.id);
     if (shape) {
       shape.setSelected(true);
-
-      // ==== Z-ORDER: Move selected shape to top ====
-      const overlayNode = this.svgOverlay.node();
-      const shapeElement = shape.getElement();
-      // Remove and re-append to bring to top
-      if (shapeElement.parentNode === overlayNode) {
-        overlayNode.removeChild(shapeElement);
-        overlayNode.appendChild(shapeElement);
-      }
-      this.editManager.startEditing(annotation.id, shape);
-
       this.emit('select', annotation);
     }
   }
@@ -0,0 +1,93 @@
+import { Point } from '../../types/shape.types';
+import { SvgOverlay } from './SvgOverlay';
+
+export interface SelectionBounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+/**
+ * Rubber-band rectangle used to select annotations by area.
+ * Points are in image coordinates.
+ */
+export class SelectionBox {
+  private overlay: SvgOverlay;
+  private rect: SVGRectElement;
+  private origin: Point | null = null;
+  private current: Point | null = null;
+
+  constructor(overlay: SvgOverlay) {
+    this.overlay = overlay;
+
+    this.rect = document.createElementNS('http://www.w3.org/2000/svg', 'rect');
+    this.rect.setAttribute('class', 'a9s-selection-box');
+    this.rect.setAttribute('fill', 'rgba(0, 120, 255, 0.1)');
+    this.rect.setAttribute('stroke', 'rgb(0, 120, 255)');
+    this.rect.setAttribute('stroke-width', '1');
+    this.rect.setAttribute('stroke-dasharray', '4 2');
+    this.rect.setAttribute('vector-effect', 'non-scaling-stroke');
+    this.rect.style.pointerEvents = 'none';
+  }
+
+  start(point: Point): void {
+    this.origin = point;
+    this.current = point;
+    this.render();
+  }
+
+  update(point: Point): void {
+    if (!this.origin) return;
+    this.current = point;
+    this.render();
+  }
+
+  /**
+   * Remove the rectangle and return the selected bounds
+   */
+  finish(): SelectionBounds | null {
+    const bounds = this.getBounds();
+    this.cancel();
+    return bounds;
+  }
+
+  cancel(): void {
+    this.origin = null;
+    this.current = null;
+    this.rect.remove();
+  }
+
+  isActive(): boolean {
+    return this.origin !== null;
+  }
+
+  getBounds(): SelectionBounds | null {
+    if (!this.origin || !this.current) return null;
+    return {
+      minX: Math.min(this.origin.x, this.current.x),
+      minY: Math.min(this.origin.y, this.current.y),
+      maxX: Math.max(this.origin.x, this.current.x),
+      maxY: Math.max(this.origin.y, this.current.y),
+    };
+  }
+
+  private render(): void {
+    const bounds = this.getBounds();
+    if (!bounds) return;
+
+    // The overlay node is rebuilt on redraw, so re-attach when needed
+    if (!this.rect.isConnected) {
+      this.overlay.node().appendChild(this.rect);
+    }
+
+    this.rect.setAttribute('x', bounds.minX.toString());
+    this.rect.setAttribute('y', bounds.minY.toString());
+    this.rect.setAttribute('width', (bounds.maxX - bounds.minX).toString());
+    this.rect.setAttribute('height', (bounds.maxY - bounds.minY).toString());
+  }
+
+  destroy(): void {
+    this.cancel();
+  }
+}
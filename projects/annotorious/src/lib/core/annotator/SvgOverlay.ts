@@ -12,6 +12,8 @@ export interface SvgOverlayConfig {
   imageWidth?: number;
   imageHeight?: number;
   useNaturalCoordinates?: boolean;
+  /** Accessible name of the overlay (default 'Annotations') */
+  label?: string;
 }
 
 export interface ImageFitInfo {
@@ -78,6 +80,10 @@ export class SvgOverlay implements SvgOverlayInfo {
     if (this._config.className) {
       this._svg.setAttribute('class', this._config.className);
     }
+    // Screen readers see the shapes as a list of selectable options
+    this._svg.setAttribute('role', 'listbox');
+    this._svg.setAttribute('aria-multiselectable', 'true');
+    this._svg.setAttribute('aria-label', this._config.label ?? 'Annotations');
     this._viewer.canvas.appendChild(this._svg);
     this._node = document.createElementNS(
       SvgOverlay.SVG_NS,
@@ -193,10 +199,30 @@ export class SvgOverlay implements SvgOverlayInfo {
       return { x: imgPoint.x, y: imgPoint.y };
   }
 
+  imageToSvg(imageX: number, imageY: number): { x: number; y: number } {
+    const pt = this._svg.createSVGPoint();
+    pt.x = imageX;
+    pt.y = imageY;
+
+    const gCTM = this._node.getCTM();
+    if (!gCTM) return { x: 0, y: 0 };
+
+    const svgPoint = pt.matrixTransform(gCTM);
+    return { x: svgPoint.x, y: svgPoint.y };
+  }
+
+  /**
+   * Screen pixels per image pixel at the current zoom
+   */
+  getScale(): number {
+    return this._currentScale();
+  }
+
   convertSvgGeometryToImage(geometry: Geometry): Geometry {
     switch (geometry.type) {
       case 'polygon':
       case 'polyline-arrow':
+      case 'freehand':
         return {
           ...geometry,
           points: geometry.points.map((point) =>
@@ -258,7 +284,7 @@ export class SvgOverlay implements SvgOverlayInfo {
         ],
       };
       default:
-        console.warn(`Unsupported geometry type: ${geometry.type}`);
+        console.warn(`Unsupported geometry type: ${(geometry as Geometry).type}`);
         return geometry;
     }
   }
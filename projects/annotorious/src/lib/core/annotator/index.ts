@@ -1,3 +1,8 @@
 export * from './OpenSeadragonAnnotator';
 export * from './SvgOverlay';
-export * from './Crosshair'; 
\ No newline at end of file
+export * from './Crosshair';
+export * from './SelectionBox';
+export * from './FillPatterns';
+export * from './AnnotationClipboard';
+export * from './Accessibility';
+export * from './ContextMenu';
@@ -1,4 +1,5 @@
 // If the folders are named 'annotator' and 'managers', keep as is. If not, adjust to the correct folder names.
 export * from './annotator';
 export * from './managers';
-export * from './events'; 
\ No newline at end of file
+export * from './events';
+export * from './storage';
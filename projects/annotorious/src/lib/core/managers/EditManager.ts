@@ -4,6 +4,10 @@ import { ArrowClickEvent } from '../../types';
 import { Point, Geometry } from '../../types/shape.types';
 import { SvgOverlay } from '../annotator';
 import { EventEmitter } from '../events/EventEmitter';
+import { SVGUtils } from '../../utils/SVGUtils';
+import { HitDetection } from '../../utils/HitDetection';
+import { BoxConstraints } from '../../utils/GeometryUtils';
+import { DrawingOptions } from '../../tools/base/Tool';
 
 export interface EditHandle {
   element: SVGElement;
@@ -11,17 +15,39 @@ export interface EditHandle {
   onDrag: (newPos: Point) => void;
 }
 
+/**
+ * Adjusts a dragged handle position (image coordinates); `anchor` is where
+ * the drag started
+ */
+export type EditSnapper = (
+  point: Point,
+  event: PointerEvent,
+  context: { id: string | null; anchor: Point | null }
+) => Point;
+
 export class EditManager extends EventEmitter {
   private overlay: SvgOverlay;
   private editingShape: Shape | null = null;
   private editingShapeId: string | null = null;
   private handleListeners: WeakMap<SVGElement, (e: PointerEvent) => void> =
     new WeakMap();
+  private groupShapes: Map<string, Shape> = new Map();
+  private groupListeners: Map<SVGElement, (e: PointerEvent) => void> =
+    new Map();
+  private selectedVertex: SVGElement | null = null;
+  // Whether selectedVertex was focused with the keyboard rather than picked with the pointer
+  private keyboardFocus = false;
+  private isLocked: (id: string) => boolean = () => false;
+  private snapper: EditSnapper | null = null;
+  private drawingOptions: DrawingOptions = {};
 
   private dragContext: {
-    type: 'handle' | 'shape' | 'label' | null;
+    type: 'handle' | 'shape' | 'label' | 'group' | 'rotate' | null;
     element?: SVGElement;
     lastPointerPos?: Point;
+    origin?: Point;
+    /** Width/height ratio of a rectangle or ellipse when its handle was pressed */
+    aspectRatio?: number;
   } = { type: null };
 
   private listeners: { [key: string]: (e: PointerEvent) => void } = {};
@@ -31,14 +57,37 @@ export class EditManager extends EventEmitter {
     this.overlay = overlay;
   }
 
+  /**
+   * Decides which shapes must not be edited; locked shapes get no handles
+   * and can't be dragged
+   */
+  setLockResolver(resolver: (id: string) => boolean): void {
+    this.isLocked = resolver;
+  }
+
+  /**
+   * Snap vertex handle positions while they are dragged
+   */
+  setSnapper(snapper: EditSnapper | null): void {
+    this.snapper = snapper;
+  }
+
+  /**
+   * Shift-resizing keeps `aspectRatio` instead of the shape's own ratio
+   */
+  setDrawingOptions(options: DrawingOptions): void {
+    this.drawingOptions = { ...options };
+  }
+
   startEditing(id: string, shape: Shape): void {
     this.stopEditing();
+    if (this.isLocked(id)) return;
 
     this.editingShape = shape;
     this.editingShapeId = id;
 
     this.overlay.svg().addEventListener('pointermove', this.onPointerMove);
-    this.overlay.svg().addEventListener('pointerup', this.onPointerUp);
+    this.listenForDragEnd();
 
     shape.enableEditing();
 
@@ -46,6 +95,8 @@ export class EditManager extends EventEmitter {
 
     this.setupHandleDragging(shape);
 
+    this.setupRotationHandle(shape);
+
     this.setupLabelDragging(shape);
     if (this.editingShape.getGeometry().type === 'polyline-arrow') {
       this.setupArrowSymbolClick(shape);
@@ -54,6 +105,33 @@ export class EditManager extends EventEmitter {
     this.emit('editingStarted', { id });
   }
 
+  /**
+   * Edit several selected shapes as a group: dragging any of them moves all
+   */
+  startGroupEditing(entries: { id: string; shape: Shape }[]): void {
+    this.stopEditing();
+
+    entries = entries.filter(({ id }) => !this.isLocked(id));
+    if (entries.length === 0) return;
+
+    entries.forEach(({ id, shape }) => {
+      this.groupShapes.set(id, shape);
+      const targetElement = shape
+        .getElement()
+        .querySelector('.annotation-shape') as SVGElement;
+      if (targetElement) {
+        const handler = (e: PointerEvent) =>
+          this.onGroupPointerDown(e, targetElement);
+        this.groupListeners.set(targetElement, handler);
+        targetElement.addEventListener('pointerdown', handler);
+        targetElement.style.cursor = 'move';
+      }
+    });
+
+    this.overlay.svg().addEventListener('pointermove', this.onPointerMove);
+    this.listenForDragEnd();
+  }
+
   private setupShapeDragging(shape: Shape): void {
     const targetElement = shape
       .getElement()
@@ -71,16 +149,43 @@ export class EditManager extends EventEmitter {
     }
   }
 
+  /**
+   * Bind vertex and midpoint handles. Safe to call again after vertices
+   * were inserted or removed: only new handle elements get listeners.
+   */
   private setupHandleDragging(shape: Shape): void {
     shape.getEditHandles().forEach((handle) => {
-      const el = (handle as any).element;
-      if (el) {
+      const el = handle.element;
+      if (el && !this.handleListeners.has(el)) {
         const handler = (e: PointerEvent) => this.onHandlePointerDown(e, el);
         this.handleListeners.set(el, handler);
         el.addEventListener('pointerdown', handler);
         el.style.cursor = 'pointer';
       }
     });
+
+    shape.getMidpointHandles?.().forEach(({ element }) => {
+      if (!this.handleListeners.has(element)) {
+        const handler = (e: PointerEvent) =>
+          this.onMidpointPointerDown(e, element);
+        this.handleListeners.set(element, handler);
+        element.addEventListener('pointerdown', handler);
+        element.style.cursor = 'copy';
+      }
+    });
+  }
+
+  private setupRotationHandle(shape: Shape): void {
+    const rotationHandle = shape.getRotationHandle?.();
+    if (rotationHandle) {
+      this.listeners['rotationPointerDown'] = (e: PointerEvent) =>
+        this.onRotationPointerDown(e, rotationHandle);
+      rotationHandle.addEventListener(
+        'pointerdown',
+        this.listeners['rotationPointerDown']
+      );
+      rotationHandle.style.cursor = 'grab';
+    }
   }
 
   private setupLabelDragging(shape: Shape): void {
@@ -169,15 +274,29 @@ export class EditManager extends EventEmitter {
         delete this.listeners['labelPointerDown'];
       }
 
-      this.editingShape.getEditHandles().forEach((handle) => {
-        const el = (handle as any).element;
-        const handler = this.handleListeners.get(el);
+      const rotationHandle = this.editingShape.getRotationHandle?.();
+      if (rotationHandle && this.listeners['rotationPointerDown']) {
+        rotationHandle.removeEventListener(
+          'pointerdown',
+          this.listeners['rotationPointerDown']
+        );
+        rotationHandle.style.cursor = '';
+        delete this.listeners['rotationPointerDown'];
+      }
+
+      const handleElements = [
+        ...this.editingShape.getEditHandles().map((handle) => handle.element),
+        ...(this.editingShape.getMidpointHandles?.() ?? []).map((handle) => handle.element),
+      ];
+      handleElements.forEach((el) => {
+        const handler = el && this.handleListeners.get(el);
         if (handler) {
           el.removeEventListener('pointerdown', handler);
           el.style.cursor = '';
           this.handleListeners.delete(el);
         }
       });
+      this.selectVertex(null);
 
       if (this.editingShape instanceof PolylineArrowShape && this.listeners['arrowGroupDelegate']) {
       const arrowGroup = this.editingShape.getArrowGroup();
@@ -188,15 +307,41 @@ export class EditManager extends EventEmitter {
     }
     }
 
+    this.groupListeners.forEach((handler, element) => {
+      element.removeEventListener('pointerdown', handler);
+      element.style.cursor = '';
+    });
+    this.groupListeners.clear();
+    this.groupShapes.clear();
+
     this.editingShape = null;
     this.editingShapeId = null;
     this.overlay.svg().removeEventListener('pointermove', this.onPointerMove);
-    this.overlay.svg().removeEventListener('pointerup', this.onPointerUp);
+    window.removeEventListener('pointerup', this.onPointerUp, true);
+    window.removeEventListener('pointercancel', this.onPointerUp, true);
+
+    // A drag cut short by Escape, Delete or undo still has to close its
+    // history batch
+    if (this.dragContext.type) {
+      this.emit('editingDragStopped', { type: this.dragContext.type });
+    }
     this.dragContext = { type: null };
   }
 
+  /**
+   * Drags end wherever the pointer is released or cancelled, also outside
+   * the overlay. Capturing on the window keeps other handlers from
+   * swallowing the event.
+   */
+  private listenForDragEnd(): void {
+    window.addEventListener('pointerup', this.onPointerUp, true);
+    window.addEventListener('pointercancel', this.onPointerUp, true);
+  }
+
   private onShapePointerDown(event: PointerEvent, element: SVGElement): void {
+    if (this.isSelectionModifier(event)) return;
     event.stopPropagation();
+    this.keyboardFocus = false;
     this.dragContext = {
       type: 'shape',
       element,
@@ -205,8 +350,22 @@ export class EditManager extends EventEmitter {
     this.emit('editingDragStarted', { type: 'shape' });
   }
 
+  private onGroupPointerDown(event: PointerEvent, element: SVGElement): void {
+    // Let modifier clicks through so the selection can be toggled
+    if (this.isSelectionModifier(event)) return;
+    event.stopPropagation();
+    this.keyboardFocus = false;
+    this.dragContext = {
+      type: 'group',
+      element,
+      lastPointerPos: this.getSVGPoint(event),
+    };
+    this.emit('editingDragStarted', { type: 'group' });
+  }
+
   private onLabelPointerDown(event: PointerEvent, element: SVGElement): void {
     event.stopPropagation();
+    this.keyboardFocus = false;
     this.dragContext = {
       type: 'label',
       element,
@@ -220,15 +379,253 @@ export class EditManager extends EventEmitter {
     handleElement: SVGElement
   ): void {
     event.stopPropagation();
+
+    // Alt-click removes the vertex instead of dragging it
+    if (event.altKey && this.editingShape) {
+      const index = this.editingShape.getVertexIndex?.(handleElement) ?? -1;
+      if (index !== -1) {
+        this.removeVertex(index);
+        return;
+      }
+    }
+
+    this.selectVertex(handleElement);
+    const position = this.getSVGPoint(event);
     this.dragContext = {
       type: 'handle',
       element: handleElement,
+      lastPointerPos: position,
+      origin: position,
+      aspectRatio: this.editingShape
+        ? this.getAspectRatio(this.editingShape.getGeometry())
+        : undefined,
+    };
+    this.emit('editingDragStarted', { type: 'handle' });
+  }
+
+  /**
+   * Pressing a midpoint ghost handle inserts a vertex there and drags it
+   */
+  private onMidpointPointerDown(
+    event: PointerEvent,
+    handleElement: SVGElement
+  ): void {
+    event.stopPropagation();
+    const shape = this.editingShape;
+    if (!shape?.insertVertex) return;
+
+    const midpoint = shape
+      .getMidpointHandles?.()
+      .find((handle) => handle.element === handleElement);
+    if (!midpoint) return;
+
+    const position = {
+      x: parseFloat(handleElement.getAttribute('cx') || '0'),
+      y: parseFloat(handleElement.getAttribute('cy') || '0'),
+    };
+    const index = shape.insertVertex(midpoint.index, position);
+    if (index === -1) return;
+
+    this.setupHandleDragging(shape);
+    const vertexHandle = shape.getEditHandles()[index]?.element;
+    if (!vertexHandle) return;
+
+    this.selectVertex(vertexHandle);
+    this.dragContext = {
+      type: 'handle',
+      element: vertexHandle,
       lastPointerPos: this.getSVGPoint(event),
+      origin: position,
     };
     this.emit('editingDragStarted', { type: 'handle' });
   }
 
+  /**
+   * Remove the vertex picked last (by clicking or dragging its handle).
+   * Returns false when there is none or the shape is at its minimum.
+   */
+  removeSelectedVertex(): boolean {
+    if (!this.editingShape || !this.selectedVertex) return false;
+    const index = this.editingShape.getVertexIndex?.(this.selectedVertex) ?? -1;
+    return index !== -1 && this.removeVertex(index);
+  }
+
+  /**
+   * Insert a vertex into the edited shape on the edge nearest to a point.
+   * Returns the new vertex index, or -1 when the shape has no vertices.
+   */
+  insertVertexAt(point: Point): number {
+    const shape = this.editingShape;
+    const geometry = shape?.getGeometry();
+    if (!shape?.insertVertex || !geometry || !('points' in geometry)) return -1;
+
+    const points = geometry.points;
+    let edge = -1;
+    let nearest = Infinity;
+    (shape.getMidpointHandles?.() ?? []).forEach(({ index }) => {
+      const distance = HitDetection.distanceToLineSegment(
+        point,
+        points[index],
+        points[(index + 1) % points.length]
+      );
+      if (distance < nearest) {
+        nearest = distance;
+        edge = index;
+      }
+    });
+    if (edge === -1) return -1;
+
+    const index = shape.insertVertex(edge, this.clampPointToSVG(point));
+    if (index === -1) return -1;
+
+    this.setupHandleDragging(shape);
+    this.selectVertex(shape.getEditHandles()[index]?.element ?? null);
+    this.emit('updateGeometry', {
+      id: this.editingShapeId,
+      geometry: shape.getGeometry(),
+      type: 'shape',
+    });
+    return index;
+  }
+
+  /**
+   * Remove a vertex of the edited shape. Returns false when the shape has
+   * no such vertex or is at its minimum.
+   */
+  removeVertexAt(index: number): boolean {
+    return this.removeVertex(index);
+  }
+
+  private removeVertex(index: number): boolean {
+    const shape = this.editingShape;
+    if (!shape?.removeVertex?.(index)) return false;
+
+    this.selectVertex(null);
+    this.setupHandleDragging(shape);
+    this.emit('updateGeometry', {
+      id: this.editingShapeId,
+      geometry: shape.getGeometry(),
+      type: 'shape',
+    });
+    return true;
+  }
+
+  /**
+   * Focus the next (or previous) handle of the edited shape, for editing
+   * without a mouse. Returns false at the end of the cycle, with no handle
+   * focused, or when nothing is being edited.
+   */
+  focusNextHandle(reverse = false): boolean {
+    const handles = this.getHandleElements();
+    if (handles.length === 0) return false;
+
+    const current = this.hasFocusedHandle() ? handles.indexOf(this.selectedVertex!) : -1;
+    const next = current === -1
+      ? (reverse ? handles.length - 1 : 0)
+      : current + (reverse ? -1 : 1);
+
+    if (next < 0 || next >= handles.length) {
+      this.selectVertex(null);
+      return false;
+    }
+    this.selectVertex(handles[next]);
+    this.keyboardFocus = true;
+    return true;
+  }
+
+  /**
+   * Handle focused with the keyboard. Pointer interaction with the shape
+   * ends keyboard focus.
+   */
+  hasFocusedHandle(): boolean {
+    return (
+      this.keyboardFocus &&
+      !!this.selectedVertex &&
+      this.getHandleElements().includes(this.selectedVertex)
+    );
+  }
+
+  clearHandleFocus(): void {
+    this.selectVertex(null);
+  }
+
+  /**
+   * Move the focused handle by an offset in image pixels, clamped to the
+   * image, and commit the change. Returns false when no handle is focused.
+   */
+  moveFocusedHandle(deltaX: number, deltaY: number): boolean {
+    const shape = this.editingShape;
+    if (!shape || !this.hasFocusedHandle()) return false;
+
+    const handle = shape
+      .getEditHandles()
+      .find((h) => h.element === this.selectedVertex);
+    if (!handle?.element) return false;
+
+    // Handles of rotated shapes sit in the unrotated frame
+    const geometry = shape.getGeometry();
+    const rotation = 'rotation' in geometry ? geometry.rotation || 0 : 0;
+    const center = shape.getRotationCenter?.();
+    const current = rotation && center
+      ? SVGUtils.rotatePoint({ x: handle.x, y: handle.y }, center, rotation)
+      : { x: handle.x, y: handle.y };
+
+    const position = this.clampPointToSVG({ x: current.x + deltaX, y: current.y + deltaY });
+    shape.updateFromHandle?.(handle.element, position);
+    this.emit('geometryChanging', { id: this.editingShapeId, geometry: shape.getGeometry() });
+    this.emit('updateGeometry', {
+      id: this.editingShapeId,
+      geometry: shape.getGeometry(),
+      type: 'shape',
+    });
+    return true;
+  }
+
+  private getHandleElements(): SVGElement[] {
+    if (!this.editingShape) return [];
+    return this.editingShape
+      .getEditHandles()
+      .map((handle) => handle.element)
+      .filter((element): element is SVGElement => !!element);
+  }
+
+  private selectVertex(handle: SVGElement | null): void {
+    this.selectedVertex?.classList.remove('a9s-handle-selected');
+    this.selectedVertex = handle;
+    this.keyboardFocus = false;
+    handle?.classList.add('a9s-handle-selected');
+  }
+
+  private onRotationPointerDown(
+    event: PointerEvent,
+    handleElement: SVGElement
+  ): void {
+    event.stopPropagation();
+    this.keyboardFocus = false;
+    this.dragContext = {
+      type: 'rotate',
+      element: handleElement,
+      lastPointerPos: this.getSVGPoint(event),
+    };
+    this.emit('editingDragStarted', { type: 'rotate' });
+  }
+
   private onPointerMove = (event: PointerEvent) => {
+    if (this.dragContext.type === 'group' && this.dragContext.lastPointerPos) {
+      const currentPos = this.getSVGPoint(event);
+      const shapes = Array.from(this.groupShapes.values());
+      const clampedDelta = this.clampBBoxToSVG(
+        this.getGroupBBox(shapes),
+        currentPos.x - this.dragContext.lastPointerPos.x,
+        currentPos.y - this.dragContext.lastPointerPos.y
+      );
+      shapes.forEach((shape) =>
+        shape.moveBy(clampedDelta.deltaX, clampedDelta.deltaY)
+      );
+      this.dragContext.lastPointerPos = currentPos;
+      return;
+    }
+
     if (
       !this.editingShape ||
       !this.dragContext.type ||
@@ -257,16 +654,59 @@ export class EditManager extends EventEmitter {
       });
       this.dragContext.lastPointerPos = currentPos;
 
+    } else if (this.dragContext.type === 'rotate') {
+      const center = this.editingShape.getRotationCenter?.();
+      if (center) {
+        // The rotation handle sits above the shape, i.e. at -90°
+        let angle =
+          (Math.atan2(currentPos.y - center.y, currentPos.x - center.x) * 180) /
+            Math.PI +
+          90;
+        if (event.shiftKey) {
+          angle = Math.round(angle / 15) * 15;
+        }
+        this.editingShape.setRotation?.(((angle % 360) + 360) % 360);
+      }
+      this.dragContext.lastPointerPos = currentPos;
+
     } else if (this.dragContext.type === 'handle' && this.dragContext.element) {
-      const clampedPos = this.clampPointToSVG(currentPos);
-      (this.editingShape as any).updateFromHandle(
+      const constraints = this.getResizeConstraints(event);
+      // A locked ratio already constrains the handle, so no angle snapping
+      const snappedPos = this.snapper
+        ? this.snapper(currentPos, event, {
+            id: this.editingShapeId,
+            anchor: constraints?.aspectRatio ? null : this.dragContext.origin ?? null,
+          })
+        : currentPos;
+      const clampedPos = this.clampPointToSVG(snappedPos);
+      this.editingShape.updateFromHandle?.(
         this.dragContext.element,
-        clampedPos
+        clampedPos,
+        constraints
       );
     }
+
+    if (this.dragContext.type !== 'label') {
+      this.emit('geometryChanging', {
+        id: this.editingShapeId,
+        geometry: this.editingShape.getGeometry(),
+      });
+    }
   };
 
   private onPointerUp = (event: PointerEvent) => {
+    if (!this.dragContext.type) return;
+
+    if (this.dragContext.type === 'group') {
+      this.groupShapes.forEach((shape, id) => {
+        this.emit('updateGeometry', {
+          id,
+          geometry: shape.getGeometry(),
+          type: 'shape',
+        });
+      });
+    }
+
     if (this.editingShape) {
       const shapeGeometry = this.editingShape.getGeometry();
       this.emit('updateGeometry', {
@@ -301,10 +741,42 @@ export class EditManager extends EventEmitter {
     this.dragContext = { type: null };
   };
 
+  private isSelectionModifier(event: PointerEvent): boolean {
+    return event.shiftKey || event.ctrlKey || event.metaKey;
+  }
+
   private getSVGPoint(event: PointerEvent): Point {
     return this.overlay.eventToImage(event);
   }
 
+  private getAspectRatio(geometry: Geometry): number | undefined {
+    if (geometry.type === 'rectangle' && geometry.height > 0) {
+      return geometry.width / geometry.height;
+    }
+    if (geometry.type === 'ellipse' && geometry.ry > 0) {
+      return geometry.rx / geometry.ry;
+    }
+    return undefined;
+  }
+
+  /**
+   * Shift keeps the aspect ratio of a dragged rectangle or ellipse, Alt
+   * resizes around the centre; undefined for other shapes or no modifier
+   */
+  private getResizeConstraints(event: PointerEvent): BoxConstraints | undefined {
+    if (this.dragContext.aspectRatio === undefined) return undefined;
+    if (!event.shiftKey && !event.altKey) return undefined;
+
+    const imageBounds = this.overlay.getImageDimensions();
+    return {
+      aspectRatio: event.shiftKey
+        ? this.drawingOptions.aspectRatio ?? this.dragContext.aspectRatio
+        : null,
+      fromCenter: event.altKey,
+      bounds: { width: imageBounds.width, height: imageBounds.height },
+    };
+  }
+
   private clampPointToSVG(point: Point): Point {
     const imageBounds = this.overlay.getImageDimensions();
     return {
@@ -318,7 +790,25 @@ export class EditManager extends EventEmitter {
     deltaX: number,
     deltaY: number
   ): { deltaX: number; deltaY: number } {
-    const bbox = shape.getBBox();
+    return this.clampBBoxToSVG(shape.getBBox(), deltaX, deltaY);
+  }
+
+  private getGroupBBox(
+    shapes: Shape[]
+  ): { x: number; y: number; width: number; height: number } {
+    const boxes = shapes.map((shape) => shape.getBBox());
+    const minX = Math.min(...boxes.map((b) => b.x));
+    const minY = Math.min(...boxes.map((b) => b.y));
+    const maxX = Math.max(...boxes.map((b) => b.x + b.width));
+    const maxY = Math.max(...boxes.map((b) => b.y + b.height));
+    return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+  }
+
+  private clampBBoxToSVG(
+    bbox: { x: number; y: number; width: number; height: number },
+    deltaX: number,
+    deltaY: number
+  ): { deltaX: number; deltaY: number } {
     const imageBounds = this.overlay.getImageDimensions();
 
     const clampedDeltaX = Math.max(
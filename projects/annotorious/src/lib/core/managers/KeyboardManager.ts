@@ -5,7 +5,8 @@ export interface KeyBinding {
   ctrl?: boolean;
   alt?: boolean;
   shift?: boolean;
-  action: () => void;
+  /** Return `false` to leave the key to the browser (e.g. Ctrl+C with nothing selected) */
+  action: () => void | boolean;
 }
 
 type KeyboardEventType = globalThis.KeyboardEvent;
@@ -66,6 +67,9 @@ export class KeyboardManager extends EventEmitter {
   private handleKeyDown(evt: KeyboardEventType): void {
     if (!this.enabled) return;
 
+    // Leave keystrokes in text fields alone (e.g. Ctrl+Z while typing a label)
+    if (this.isEditableTarget(evt.target)) return;
+
     // Find matching binding
     const binding = this.bindings.find(b => 
       b.key.toLowerCase() === evt.key.toLowerCase() &&
@@ -74,13 +78,20 @@ export class KeyboardManager extends EventEmitter {
       !!b.shift === evt.shiftKey
     );
 
-    if (binding) {
+    if (binding && binding.action() !== false) {
       evt.preventDefault();
-      binding.action();
       this.emit('shortcut', { binding });
     }
   }
 
+  private isEditableTarget(target: EventTarget | null): boolean {
+    if (!(target instanceof HTMLElement)) return false;
+    return target.isContentEditable ||
+      target instanceof HTMLInputElement ||
+      target instanceof HTMLTextAreaElement ||
+      target instanceof HTMLSelectElement;
+  }
+
   /**
    * Clean up
    */
@@ -107,6 +118,14 @@ export const defaultKeyBindings: KeyBinding[] = [
       // Undo
     }
   },
+  {
+    key: 'z',
+    ctrl: true,
+    shift: true,
+    action: () => {
+      // Redo
+    }
+  },
   {
     key: 'y',
     ctrl: true,
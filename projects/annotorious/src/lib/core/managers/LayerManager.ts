@@ -0,0 +1,219 @@
+import { EventEmitter } from '../events/EventEmitter';
+import { AnnotationLayer, DEFAULT_LAYER_ID } from '../../types/layer.types';
+
+interface LayerManagerEvents {
+  layersChanged: { layers: AnnotationLayer[] };
+}
+
+/**
+ * Keeps the layer definitions and one SVG group per layer inside the
+ * overlay node, stacked in layer order.
+ */
+export class LayerManager extends EventEmitter<LayerManagerEvents> {
+  private readonly container: SVGGElement;
+  private layers: AnnotationLayer[] = [];
+  private groups = new Map<string, SVGGElement>();
+  private activeLayerId = DEFAULT_LAYER_ID;
+
+  constructor(container: SVGGElement) {
+    super();
+    this.container = container;
+    this.layers = [this.createLayer({ id: DEFAULT_LAYER_ID, name: 'Default' })];
+    this.syncGroups();
+  }
+
+  getLayers(): AnnotationLayer[] {
+    return this.layers.map((layer) => ({ ...layer }));
+  }
+
+  getLayer(id: string): AnnotationLayer | undefined {
+    const layer = this.layers.find((l) => l.id === id);
+    return layer ? { ...layer } : undefined;
+  }
+
+  hasLayer(id: string): boolean {
+    return this.layers.some((l) => l.id === id);
+  }
+
+  /**
+   * Add a layer on top, or at `index` in the stacking order
+   */
+  addLayer(
+    layer: Partial<AnnotationLayer> & { id: string },
+    index: number = this.layers.length
+  ): AnnotationLayer {
+    if (this.hasLayer(layer.id)) {
+      throw new Error(`Layer '${layer.id}' already exists`);
+    }
+    const created = this.createLayer(layer);
+    this.layers.splice(this.clampIndex(index, this.layers.length), 0, created);
+    this.changed();
+    return { ...created };
+  }
+
+  /**
+   * Add a layer for an id referenced by an annotation, unless it exists
+   */
+  ensureLayer(id: string): void {
+    if (!this.hasLayer(id)) {
+      this.addLayer({ id });
+    }
+  }
+
+  /**
+   * Remove a layer. The default layer can't be removed.
+   */
+  removeLayer(id: string): void {
+    if (id === DEFAULT_LAYER_ID) {
+      throw new Error('The default layer cannot be removed');
+    }
+    const index = this.layers.findIndex((l) => l.id === id);
+    if (index === -1) return;
+
+    this.layers.splice(index, 1);
+    if (this.activeLayerId === id) {
+      this.activeLayerId = DEFAULT_LAYER_ID;
+    }
+    this.changed();
+  }
+
+  updateLayer(id: string, changes: Partial<Omit<AnnotationLayer, 'id'>>): void {
+    const index = this.layers.findIndex((l) => l.id === id);
+    if (index === -1) return;
+
+    const opacity = changes.opacity ?? this.layers[index].opacity;
+    this.layers[index] = {
+      ...this.layers[index],
+      ...changes,
+      opacity: Math.min(Math.max(opacity, 0), 1),
+    };
+    this.changed();
+  }
+
+  /**
+   * Move a layer to a new position in the stacking order (0 = bottom)
+   */
+  moveLayer(id: string, index: number): void {
+    const from = this.layers.findIndex((l) => l.id === id);
+    if (from === -1) return;
+
+    const [layer] = this.layers.splice(from, 1);
+    this.layers.splice(this.clampIndex(index, this.layers.length), 0, layer);
+    this.changed();
+  }
+
+  /**
+   * Replace all layers, e.g. from a saved snapshot. The default layer is
+   * kept at the bottom if the list doesn't contain it.
+   */
+  setLayers(layers: AnnotationLayer[]): void {
+    const unique = new Map<string, AnnotationLayer>();
+    layers.forEach((layer) => unique.set(layer.id, this.createLayer(layer)));
+    if (!unique.has(DEFAULT_LAYER_ID)) {
+      this.layers = [
+        this.createLayer({ id: DEFAULT_LAYER_ID, name: 'Default' }),
+        ...unique.values(),
+      ];
+    } else {
+      this.layers = Array.from(unique.values());
+    }
+    if (!unique.has(this.activeLayerId)) {
+      this.activeLayerId = DEFAULT_LAYER_ID;
+    }
+    this.changed();
+  }
+
+  /**
+   * Layer that newly drawn annotations are added to
+   */
+  setActiveLayer(id: string): void {
+    if (this.hasLayer(id)) {
+      this.activeLayerId = id;
+    }
+  }
+
+  getActiveLayer(): string {
+    return this.activeLayerId;
+  }
+
+  /**
+   * SVG group of a layer; unknown ids fall back to the default layer
+   */
+  getGroup(id: string | undefined): SVGGElement {
+    return this.groups.get(id || DEFAULT_LAYER_ID) ?? this.groups.get(DEFAULT_LAYER_ID)!;
+  }
+
+  /**
+   * Empty all layer groups and put them back into the container, in order
+   */
+  clearGroups(): void {
+    this.groups.forEach((group) => {
+      while (group.firstChild) {
+        group.removeChild(group.firstChild);
+      }
+    });
+    this.syncGroups();
+  }
+
+  destroy(): void {
+    this.groups.forEach((group) => group.remove());
+    this.groups.clear();
+    this.removeAllListeners();
+  }
+
+  private createLayer(layer: Partial<AnnotationLayer> & { id: string }): AnnotationLayer {
+    return {
+      name: layer.id,
+      visible: true,
+      opacity: 1,
+      locked: false,
+      ...layer,
+    };
+  }
+
+  private changed(): void {
+    this.syncGroups();
+    this.emit('layersChanged', { layers: this.getLayers() });
+  }
+
+  /**
+   * Create, remove, order and style the layer groups to match the layers
+   */
+  private syncGroups(): void {
+    const ids = new Set(this.layers.map((l) => l.id));
+    this.groups.forEach((group, id) => {
+      if (!ids.has(id)) {
+        group.remove();
+        this.groups.delete(id);
+      }
+    });
+
+    // Layer groups stay below anything else in the container (e.g. the
+    // selection box), stacked bottom to top
+    let previous: SVGGElement | null = null;
+    for (const layer of this.layers) {
+      let group = this.groups.get(layer.id);
+      if (!group) {
+        group = document.createElementNS('http://www.w3.org/2000/svg', 'g');
+        group.setAttribute('class', 'a9s-layer');
+        group.setAttribute('data-layer-id', layer.id);
+        this.groups.set(layer.id, group);
+      }
+
+      const reference: ChildNode | null = previous ? previous.nextSibling : this.container.firstChild;
+      if (reference !== group) {
+        this.container.insertBefore(group, reference);
+      }
+      previous = group;
+
+      group.style.display = layer.visible ? '' : 'none';
+      group.style.opacity = layer.opacity.toString();
+      group.style.pointerEvents = layer.locked ? 'none' : '';
+      group.classList.toggle('a9s-layer-locked', layer.locked);
+    }
+  }
+
+  private clampIndex(index: number, length: number): number {
+    return Math.min(Math.max(Math.round(index), 0), length);
+  }
+}
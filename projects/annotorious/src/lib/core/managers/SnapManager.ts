@@ -0,0 +1,223 @@
+import { Geometry, Point } from '../../types/shape.types';
+import { GeometryUtils } from '../../utils/GeometryUtils';
+import { HitDetection } from '../../utils/HitDetection';
+import { SVGUtils } from '../../utils/SVGUtils';
+import { SvgOverlay } from '../annotator/SvgOverlay';
+import { AnnotationState } from '../store/AnnotationState';
+
+export interface SnapConfig {
+  enabled?: boolean;
+  /** Snap to vertices of other annotations */
+  vertices?: boolean;
+  /** Snap to the nearest point on edges of other annotations */
+  edges?: boolean;
+  /** Grid spacing in image pixels; 0 turns the grid off */
+  grid?: number;
+  /** Holding Shift constrains the direction from the anchor to 15° steps */
+  angles?: boolean;
+  /** Snap distance in screen pixels */
+  tolerance?: number;
+}
+
+export type SnapTarget = 'vertex' | 'edge' | 'grid' | 'angle';
+
+export interface SnapResult {
+  point: Point;
+  target: SnapTarget | null;
+  /** Annotation snapped to, for vertex and edge snaps */
+  annotationId?: string;
+}
+
+export interface SnapOptions {
+  /** Fixed point a segment is drawn from, used for angle snapping */
+  anchor?: Point | null;
+  shiftKey?: boolean;
+  /** Annotation being edited; it is not snapped to */
+  excludeId?: string | null;
+}
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const ANGLE_STEP = 15;
+
+/**
+ * Snaps points in image coordinates to existing vertices and edges, a grid
+ * or 15° angles, and marks the snapped position on the overlay.
+ */
+export class SnapManager {
+  private readonly overlay: SvgOverlay;
+  private readonly state: AnnotationState;
+  private config: Required<SnapConfig> = {
+    enabled: false,
+    vertices: true,
+    edges: true,
+    grid: 0,
+    angles: true,
+    tolerance: 10,
+  };
+  private indicator: SVGCircleElement | null = null;
+
+  constructor(overlay: SvgOverlay, state: AnnotationState, config?: SnapConfig | boolean) {
+    this.overlay = overlay;
+    this.state = state;
+    if (config !== undefined) {
+      this.setConfig(config);
+    }
+  }
+
+  /**
+   * Update the snapping options; `true`/`false` only toggles `enabled`
+   */
+  setConfig(config: SnapConfig | boolean): void {
+    this.config = {
+      ...this.config,
+      ...(typeof config === 'boolean' ? { enabled: config } : config),
+    };
+    if (!this.config.enabled) {
+      this.hideIndicator();
+    }
+  }
+
+  getConfig(): Required<SnapConfig> {
+    return { ...this.config };
+  }
+
+  /**
+   * Snap a point and show or hide the indicator accordingly. Angle snapping
+   * wins while Shift is held; otherwise vertices, then edges, then the grid.
+   */
+  snap(point: Point, options: SnapOptions = {}): SnapResult {
+    if (!this.config.enabled) {
+      return { point, target: null };
+    }
+
+    let result: SnapResult | null = null;
+    if (this.config.angles && options.shiftKey && options.anchor) {
+      result = { point: GeometryUtils.constrainAngle(point, options.anchor, ANGLE_STEP), target: 'angle' };
+    } else {
+      result = this.snapToAnnotations(point, options.excludeId ?? null)
+        ?? this.snapToGrid(point);
+    }
+
+    if (result) {
+      this.showIndicator(result);
+      return result;
+    }
+    this.hideIndicator();
+    return { point, target: null };
+  }
+
+  hideIndicator(): void {
+    if (this.indicator) {
+      this.indicator.style.display = 'none';
+    }
+  }
+
+  destroy(): void {
+    this.indicator?.remove();
+    this.indicator = null;
+  }
+
+  private snapToAnnotations(point: Point, excludeId: string | null): SnapResult | null {
+    if (!this.config.vertices && !this.config.edges) return null;
+
+    const tolerance = this.config.tolerance / this.overlay.getScale();
+    const ids = new Set(this.state.queryAtPoint(point, tolerance));
+    let vertex = null as SnapResult | null;
+    let vertexDistance = tolerance;
+    let edge = null as SnapResult | null;
+    let edgeDistance = tolerance;
+
+    for (const id of ids) {
+      if (id === excludeId || !this.state.isAnnotationVisible(id)) continue;
+      const annotation = this.state.getAnnotation(id);
+      if (!annotation) continue;
+
+      for (const path of SnapManager.getPaths(annotation.target.selector.geometry)) {
+        path.forEach((p, index) => {
+          if (this.config.vertices) {
+            const distance = Math.hypot(point.x - p.x, point.y - p.y);
+            if (distance <= vertexDistance) {
+              vertexDistance = distance;
+              vertex = { point: { x: p.x, y: p.y }, target: 'vertex', annotationId: id };
+            }
+          }
+
+          const next = path[index + 1];
+          if (this.config.edges && next) {
+            const distance = HitDetection.distanceToLineSegment(point, p, next);
+            if (distance <= edgeDistance) {
+              edgeDistance = distance;
+              edge = {
+                point: HitDetection.closestPointOnSegment(point, p, next),
+                target: 'edge',
+                annotationId: id,
+              };
+            }
+          }
+        });
+      }
+    }
+
+    return vertex ?? edge;
+  }
+
+  private snapToGrid(point: Point): SnapResult | null {
+    const size = this.config.grid;
+    if (!size || size <= 0) return null;
+    return {
+      point: {
+        x: Math.round(point.x / size) * size,
+        y: Math.round(point.y / size) * size,
+      },
+      target: 'grid',
+    };
+  }
+
+  private showIndicator(result: SnapResult): void {
+    if (!this.indicator) {
+      this.indicator = document.createElementNS(SVG_NS, 'circle');
+      this.indicator.setAttribute('r', '5');
+      this.indicator.style.pointerEvents = 'none';
+      this.overlay.svg().appendChild(this.indicator);
+    }
+
+    const position = this.overlay.imageToSvg(result.point.x, result.point.y);
+    this.indicator.setAttribute('class', `a9s-snap-indicator a9s-snap-${result.target}`);
+    this.indicator.setAttribute('cx', position.x.toString());
+    this.indicator.setAttribute('cy', position.y.toString());
+    this.indicator.style.display = '';
+  }
+
+  /**
+   * Outlines to snap to, as point lists; closed outlines repeat their
+   * first point at the end
+   */
+  private static getPaths(geometry: Geometry): Point[][] {
+    const closed = (points: Point[]) => [...points, points[0]];
+
+    switch (geometry.type) {
+      case 'rectangle': {
+        const center = { x: geometry.x + geometry.width / 2, y: geometry.y + geometry.height / 2 };
+        const corners = [
+          { x: geometry.x, y: geometry.y },
+          { x: geometry.x + geometry.width, y: geometry.y },
+          { x: geometry.x + geometry.width, y: geometry.y + geometry.height },
+          { x: geometry.x, y: geometry.y + geometry.height },
+        ].map((corner) => SVGUtils.rotatePoint(corner, center, geometry.rotation || 0));
+        return [closed(corners)];
+      }
+      case 'polygon':
+        return geometry.points.length > 0 ? [closed(geometry.points)] : [];
+      case 'freehand':
+        // Freehand paths of three or more points are drawn closed
+        return geometry.points.length >= 3 ? [closed(geometry.points)] : [geometry.points];
+      case 'line':
+      case 'polyline-arrow':
+        return [geometry.points];
+      case 'point':
+        return [[{ x: geometry.x, y: geometry.y }]];
+      default:
+        return [];
+    }
+  }
+}
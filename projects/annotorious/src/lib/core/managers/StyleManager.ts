@@ -1,4 +1,12 @@
 import { EventEmitter } from '../events/EventEmitter';
+import { Annotation } from '../../types/annotation.types';
+import { StyleRule, evaluateStyleRules } from './StyleRules';
+
+/**
+ * Fill of closed shapes. Patterns are drawn in `fill`, or the stroke colour
+ * when no fill colour is set.
+ */
+export type FillPattern = 'solid' | 'hatch' | 'cross-hatch' | 'dots';
 
 export interface ShapeStyle {
   // Primary style properties (user-configurable)
@@ -8,6 +16,7 @@ export interface ShapeStyle {
   strokeOpacity: number;
   fill?: string;
   fillOpacity?: number;
+  fillPattern?: FillPattern;
   arrowStroke?: string; // Specific for arrow shapes
   // Base handle size (will be computed based on strokeWidth)
   baseHandleSize: number;
@@ -27,11 +36,44 @@ export interface ShapeStyle {
   readonly labelTextFill: string;
 }
 
+/**
+ * Colours of everything drawn around the shapes. `'auto'` picks black or
+ * white, whichever contrasts best with the shape's stroke.
+ */
+export interface ThemeColors {
+  selectionOutline: string;
+  handleFill: string;
+  handleStroke: string;
+  labelText: string;
+  hover: string;
+  arrow: string;
+  crosshair: string;
+}
+
+/**
+ * Any colour may reference CSS custom properties, e.g.
+ * `var(--brand-accent, #4a90e2)`; they resolve against the annotation overlay.
+ * The computed fields of `shapes` (selection outline, handles, label text)
+ * come from `colors` instead.
+ */
 export interface Theme {
+  name?: string;
   shapes: ShapeStyle;
+  colors?: Partial<ThemeColors>;
 }
 
+export const defaultThemeColors: ThemeColors = {
+  selectionOutline: 'auto',
+  handleFill: 'auto',
+  handleStroke: '#000000',
+  labelText: 'auto',
+  hover: '#4a90e2',
+  arrow: '#000000',
+  crosshair: 'rgba(0, 0, 0, 0.5)',
+};
+
 export const lightTheme: Theme = {
+  name: 'light',
   shapes: {
     stroke: '#000000',
     strokeWidth: 2,
@@ -51,9 +93,11 @@ export const lightTheme: Theme = {
     handleStroke: '#000000', // Fixed
     labelTextFill: 'white', // Fixed
   },
+  colors: defaultThemeColors,
 };
 
 export const darkTheme: Theme = {
+  name: 'dark',
   shapes: {
     ...lightTheme.shapes,
     stroke: '#3cd37bff',
@@ -61,44 +105,172 @@ export const darkTheme: Theme = {
     handleStroke: '#ffffff',
     selectionOutlineColor: '#4a90e2',
   },
+  colors: {
+    ...defaultThemeColors,
+    handleStroke: '#ffffff',
+    arrow: '#ffffff',
+    crosshair: 'rgba(255, 255, 255, 0.5)',
+  },
 };
 
+/**
+ * Theme driven entirely by `--a9s-*` custom properties, so an app's design
+ * tokens can be mapped in CSS. Unset properties fall back to the light theme.
+ */
+export const cssVariablesTheme: Theme = {
+  name: 'css',
+  shapes: {
+    ...lightTheme.shapes,
+    stroke: 'var(--a9s-stroke, #000000)',
+  },
+  colors: {
+    selectionOutline: 'var(--a9s-selection-outline, #4a90e2)',
+    handleFill: 'var(--a9s-handle-fill, #ffffff)',
+    handleStroke: 'var(--a9s-handle-stroke, #000000)',
+    labelText: 'var(--a9s-label-text, #ffffff)',
+    hover: 'var(--a9s-hover, #4a90e2)',
+    arrow: 'var(--a9s-arrow, #000000)',
+    crosshair: 'var(--a9s-crosshair, rgba(0, 0, 0, 0.5))',
+  },
+};
+
+/**
+ * `true` or `false`, or `'auto'` to follow `prefers-contrast: more` and
+ * forced-colors mode
+ */
+export type HighContrastMode = boolean | 'auto';
+
+/**
+ * Colours replacing the theme's in high-contrast mode
+ */
+export const highContrastColors: Partial<ThemeColors> = {
+  selectionOutline: 'auto',
+  handleFill: '#ffffff',
+  handleStroke: '#000000',
+  labelText: 'auto',
+  hover: '#ffbf00',
+};
+
+/**
+ * Named themes, usable wherever a theme is accepted. `'auto'` is reserved:
+ * it follows `prefers-color-scheme` using the themes named 'light' and 'dark'.
+ */
+export class ThemeRegistry {
+  private static themes = new Map<string, Theme>([
+    ['light', lightTheme],
+    ['dark', darkTheme],
+    ['css', cssVariablesTheme],
+  ]);
+
+  static register(name: string, theme: Theme): void {
+    if (name === 'auto') {
+      throw new Error("'auto' is a reserved theme name");
+    }
+    ThemeRegistry.themes.set(name, { ...theme, name });
+  }
+
+  static unregister(name: string): void {
+    ThemeRegistry.themes.delete(name);
+  }
+
+  static get(name: string): Theme | undefined {
+    return ThemeRegistry.themes.get(name);
+  }
+
+  static getNames(): string[] {
+    return Array.from(ThemeRegistry.themes.keys());
+  }
+}
+
 interface StyleManagerEvents {
   themeChanged: { theme: Theme };
   styleChanged: { id: string; style: Partial<ShapeStyle> };
   styleRemoved: { id: string };
+  rulesChanged: { rules: StyleRule[] };
 }
 
 export class StyleManager extends EventEmitter<StyleManagerEvents> {
   private currentTheme: Theme;
   private customStyles: Map<string, Partial<ShapeStyle>>;
   private originalStyles: Map<string, ShapeStyle>;
+  private rules: StyleRule[] = [];
+  // Result of the rules per annotation, refreshed by applyRules()
+  private ruleStyles: Map<string, Partial<ShapeStyle>> = new Map();
   private currentZoom: number = 1;
+  private patternResolver?: (pattern: Exclude<FillPattern, 'solid'>, color: string) => string;
 
-  // Fixed style constants
-  private readonly FIXED_OUTLINE_COLOR = '#4a90e2';
-  private readonly FIXED_OUTLINE_WIDTH_OFFSET = 2;
-  private readonly FIXED_HANDLE_FILL = '#000000';
-  private readonly FIXED_HANDLE_STROKE = '#000000';
-  private readonly FIXED_LABEL_TEXT_FILL = 'white';
-  private readonly FIXED_ARROW_STROKE = '#000000';
+  private themeSetting: Theme | string = lightTheme;
+  private colorSchemeQuery: MediaQueryList | null = null;
+  private variableScope: Element | null = null;
+  private highContrastSetting: HighContrastMode = false;
+  private contrastQuery: MediaQueryList | null = null;
 
-  constructor(theme: Theme = lightTheme) {
+  private readonly OUTLINE_WIDTH_OFFSET = 2;
+  // Thinnest stroke drawn in high-contrast mode
+  private readonly HIGH_CONTRAST_STROKE_WIDTH = 3;
+
+  constructor(theme: Theme | string = lightTheme) {
     super();
-    this.currentTheme = { ...theme };
     this.customStyles = new Map();
     this.originalStyles = new Map();
+    this.themeSetting = theme;
+    this.currentTheme = this.resolveTheme(theme);
+    this.watchColorScheme(theme === 'auto');
   }
 
-  setTheme(theme: Theme): void {
-    this.currentTheme = { ...theme };
-    this.emit('themeChanged', { theme });
+  /**
+   * Set a theme object, a registered theme name, or 'auto' to follow
+   * `prefers-color-scheme`
+   */
+  setTheme(theme: Theme | string): void {
+    this.themeSetting = theme;
+    this.watchColorScheme(theme === 'auto');
+    this.applyTheme(this.resolveTheme(theme));
   }
 
   getTheme(): Theme {
     return { ...this.currentTheme };
   }
 
+  /**
+   * The theme as last set, e.g. 'auto' or a registered name
+   */
+  getThemeSetting(): Theme | string {
+    return this.themeSetting;
+  }
+
+  getThemeColors(): ThemeColors {
+    const colors = { ...defaultThemeColors, ...this.currentTheme.colors };
+    return this.isHighContrast() ? { ...colors, ...highContrastColors } : colors;
+  }
+
+  /**
+   * Opaque strokes at least 3px wide and black/white handles on top of the
+   * current theme
+   */
+  setHighContrast(mode: HighContrastMode): void {
+    this.highContrastSetting = mode;
+    this.watchContrast(mode === 'auto');
+    this.applyTheme(this.currentTheme);
+  }
+
+  getHighContrastSetting(): HighContrastMode {
+    return this.highContrastSetting;
+  }
+
+  isHighContrast(): boolean {
+    return this.highContrastSetting === 'auto'
+      ? this.prefersContrast()
+      : this.highContrastSetting;
+  }
+
+  /**
+   * Element that CSS custom properties in theme colours are resolved against
+   */
+  setVariableScope(element: Element): void {
+    this.variableScope = element;
+  }
+
   setCurrentZoom(zoom: number): void {
     this.currentZoom = zoom;
     // this.emit('zoomChanged', { zoom });
@@ -122,11 +294,63 @@ export class StyleManager extends EventEmitter<StyleManagerEvents> {
     this.emit('styleRemoved', { id });
   }
 
+  /**
+   * Replace the style rules. Call applyRules() for each annotation afterwards.
+   */
+  setRules(rules: StyleRule[]): void {
+    this.rules = [...rules];
+    this.ruleStyles.clear();
+    this.emit('rulesChanged', { rules: this.getRules() });
+  }
+
+  getRules(): StyleRule[] {
+    return [...this.rules];
+  }
+
+  /**
+   * Evaluate the rules against an annotation. Returns true if the resulting
+   * style differs from the previous evaluation.
+   */
+  applyRules(annotation: Annotation): boolean {
+    const previous = this.ruleStyles.get(annotation.id);
+    const style = evaluateStyleRules(this.rules, annotation);
+
+    if (Object.keys(style).length > 0) {
+      this.ruleStyles.set(annotation.id, style);
+    } else {
+      this.ruleStyles.delete(annotation.id);
+    }
+
+    return JSON.stringify(previous ?? {}) !== JSON.stringify(style);
+  }
+
+  clearRuleStyle(id: string): void {
+    this.ruleStyles.delete(id);
+  }
+
+  /**
+   * Set how pattern fills are turned into a paint server reference
+   * (usually `url(#pattern-id)`). Without one, patterns fall back to solid.
+   */
+  setPatternResolver(
+    resolver: (pattern: Exclude<FillPattern, 'solid'>, color: string) => string
+  ): void {
+    this.patternResolver = resolver;
+  }
+
+  /**
+   * Whether the interior of the annotation's shape is painted
+   */
+  isFilled(id: string): boolean {
+    const style = this.getBaseStyle(id);
+    if (style.fillOpacity === 0) return false;
+    const hasColor = !!style.fill && style.fill !== 'none';
+    const hasPattern = !!style.fillPattern && style.fillPattern !== 'solid';
+    return hasColor || hasPattern;
+  }
+
   getStyle(id: string): ShapeStyle {
-    const customStyle = this.customStyles.get(id);
-    const baseStyle = customStyle
-      ? { ...this.currentTheme.shapes, ...customStyle }
-      : { ...this.currentTheme.shapes };
+    const baseStyle = this.getBaseStyle(id);
 
     const scaleFactor = 1 / this.currentZoom;
     const computedHandleSize = this.computeHandleSize(
@@ -134,25 +358,121 @@ export class StyleManager extends EventEmitter<StyleManagerEvents> {
       scaleFactor
     );
 
-    // this is to ensure complementary colors are used to highlight text
-    // and outlines, improving visibility against the shape's stroke color
-    const complementaryColor = this.chooseContrastColor(baseStyle.stroke);
+    // 'auto' colours use the complement of the stroke, so text and outlines
+    // stay visible against the shape's stroke color
+    const colors = this.getThemeColors();
+    const usesContrast = [colors.selectionOutline, colors.handleFill, colors.labelText]
+      .includes('auto');
+    const complementaryColor = usesContrast
+      ? this.chooseContrastColor(baseStyle.stroke)
+      : '';
+    const themed = (color: string) => (color === 'auto' ? complementaryColor : color);
 
     return {
       ...baseStyle,
-      fill: 'none',
-      selectionOutlineColor: complementaryColor,
+      fill: this.resolveFill(baseStyle),
+      selectionOutlineColor: themed(colors.selectionOutline),
       selectionOutlineWidth:
-        baseStyle.strokeWidth + this.FIXED_OUTLINE_WIDTH_OFFSET,
-      handleFill: complementaryColor,
-      handleStroke: this.FIXED_HANDLE_STROKE,
-      labelTextFill: complementaryColor,
-      arrowStroke: this.FIXED_ARROW_STROKE,
+        baseStyle.strokeWidth + this.OUTLINE_WIDTH_OFFSET,
+      handleFill: themed(colors.handleFill),
+      handleStroke: themed(colors.handleStroke),
+      labelTextFill: themed(colors.labelText),
+      arrowStroke: themed(colors.arrow),
       handleSize: computedHandleSize,
       fontSize: baseStyle.fontSize,
     };
   }
 
+  // Precedence: theme < matching rules < per-annotation custom style
+  private getBaseStyle(id: string): ShapeStyle {
+    return this.withContrast({
+      ...this.currentTheme.shapes,
+      ...this.ruleStyles.get(id),
+      ...this.customStyles.get(id),
+    });
+  }
+
+  private withContrast(style: ShapeStyle): ShapeStyle {
+    if (!this.isHighContrast()) return style;
+    return {
+      ...style,
+      strokeOpacity: 1,
+      strokeWidth: Math.max(style.strokeWidth, this.HIGH_CONTRAST_STROKE_WIDTH),
+    };
+  }
+
+  private resolveFill(style: ShapeStyle): string {
+    const color = style.fill && style.fill !== 'none' ? style.fill : undefined;
+    const pattern = style.fillPattern;
+
+    if (!pattern || pattern === 'solid' || !this.patternResolver) {
+      return color ?? 'none';
+    }
+    return this.patternResolver(pattern, color ?? style.stroke);
+  }
+
+  private resolveTheme(theme: Theme | string): Theme {
+    if (typeof theme !== 'string') return theme;
+
+    const name = theme === 'auto'
+      ? (this.prefersDark() ? 'dark' : 'light')
+      : theme;
+    const registered = ThemeRegistry.get(name);
+    if (!registered) {
+      console.warn(`Unknown theme '${name}', using the light theme`);
+      return lightTheme;
+    }
+    return registered;
+  }
+
+  private applyTheme(theme: Theme): void {
+    this.currentTheme = { ...theme };
+    this.emit('themeChanged', { theme });
+  }
+
+  private prefersDark(): boolean {
+    return typeof window !== 'undefined' &&
+      !!window.matchMedia?.('(prefers-color-scheme: dark)').matches;
+  }
+
+  private watchColorScheme(watch: boolean): void {
+    if (!watch) {
+      this.colorSchemeQuery?.removeEventListener('change', this.onColorSchemeChange);
+      this.colorSchemeQuery = null;
+      return;
+    }
+    if (this.colorSchemeQuery || typeof window === 'undefined' || !window.matchMedia) return;
+
+    this.colorSchemeQuery = window.matchMedia('(prefers-color-scheme: dark)');
+    this.colorSchemeQuery.addEventListener('change', this.onColorSchemeChange);
+  }
+
+  private onColorSchemeChange = (): void => {
+    if (this.themeSetting === 'auto') {
+      this.applyTheme(this.resolveTheme('auto'));
+    }
+  };
+
+  private prefersContrast(): boolean {
+    return !!this.contrastQuery?.matches;
+  }
+
+  private watchContrast(watch: boolean): void {
+    if (!watch) {
+      this.contrastQuery?.removeEventListener('change', this.onContrastChange);
+      this.contrastQuery = null;
+      return;
+    }
+    if (this.contrastQuery || typeof window === 'undefined' || !window.matchMedia) return;
+
+    this.contrastQuery = window.matchMedia('(prefers-contrast: more), (forced-colors: active)');
+    this.contrastQuery.addEventListener('change', this.onContrastChange);
+  }
+
+  private onContrastChange = (): void => {
+    this.applyTheme(this.currentTheme);
+  };
+
   private computeHandleSize(strokeWidth: number, scaleFactor: number): number {
     // Handle size relationship: base size + strokeWidth factor, adjusted for zoom
     const baseSize = 6; // Base handle radius
@@ -165,12 +485,16 @@ export class StyleManager extends EventEmitter<StyleManagerEvents> {
  * Supports hex (#aabbcc), rgb(), rgba(), and named colors like "red"
  */
 private parseColor(color: string): { r: number; g: number; b: number } {
-  // Create temporary element to leverage browser's built-in color parsing
-  const el = document.createElement('div');
+  // Create temporary element to leverage browser's built-in color parsing;
+  // inside the variable scope so var() references resolve
+  const scope = this.variableScope ?? document.body;
+  const el = scope instanceof SVGElement
+    ? document.createElementNS('http://www.w3.org/2000/svg', 'g')
+    : document.createElement('div');
   el.style.color = color;
-  document.body.appendChild(el);
+  scope.appendChild(el);
   const computedColor = getComputedStyle(el).color;
-  document.body.removeChild(el);
+  scope.removeChild(el);
 
   // Extract RGB values from computed style (format: "rgb(r, g, b)")
   const match = computedColor.match(/rgba?\((\d+),\s*(\d+),\s*(\d+)/);
@@ -209,39 +533,56 @@ private chooseContrastColor(color: string): string {
 
   // Create styles with proper computed relationships
   createSVGStyles(): string {
-    const { shapes } = this.currentTheme;
+    const shapes = this.withContrast(this.currentTheme.shapes);
+    const colors = this.getThemeColors();
+    // Stylesheet rules can't contrast per shape; 'auto' gets a fixed fallback
+    const css = (color: string, fallback: string) => (color === 'auto' ? fallback : color);
+    const outline = css(colors.selectionOutline, colors.hover);
     return `
             .annotation-shape {
                 stroke: ${shapes.stroke};
                 stroke-width: ${shapes.strokeWidth}px;
                 stroke-opacity: ${shapes.strokeOpacity};
-                fill: none;
-                fill-opacity: ${shapes.fillOpacity || 0};
+                fill: ${shapes.fill || 'none'};
+                fill-opacity: ${shapes.fillOpacity ?? 0};
                 vector-effect: non-scaling-stroke;
             }
 
             .selection-outline {
-                stroke: ${this.FIXED_OUTLINE_COLOR};
+                stroke: ${outline};
                 fill: none;
                 vector-effect: non-scaling-stroke;
             }
 
             .annotation-handle {
-                fill: ${this.FIXED_HANDLE_FILL};
-                stroke: ${this.FIXED_HANDLE_STROKE};
+                fill: ${css(colors.handleFill, '#000000')};
+                stroke: ${css(colors.handleStroke, '#000000')};
                 stroke-width: 1px;
                 vector-effect: non-scaling-stroke;
                 cursor: pointer;
             }
 
             .annotation-handle:hover {
-                stroke: ${this.FIXED_OUTLINE_COLOR};
+                stroke: ${colors.hover};
                 stroke-width: 2px;
             }
 
+            .a9s-midpoint-handle {
+                opacity: 0.5;
+            }
+
+            .a9s-midpoint-handle:hover {
+                opacity: 1;
+            }
+
+            .a9s-handle.a9s-handle-selected {
+                stroke: ${colors.hover} !important;
+                stroke-width: 3px;
+            }
+
             .annotation-text {
                 font-family: ${shapes.fontFamily || 'Arial, sans-serif'};
-                fill: ${this.FIXED_LABEL_TEXT_FILL};
+                fill: ${css(colors.labelText, 'white')};
                 dominant-baseline: middle;
                 text-anchor: middle;
             }
@@ -253,7 +594,18 @@ private chooseContrastColor(color: string): string {
             }
 
             .annotation-shape.hover {
-                stroke: ${this.FIXED_OUTLINE_COLOR};
+                stroke: ${colors.hover};
+            }
+
+            .a9s-snap-indicator {
+                fill: none;
+                stroke: ${colors.hover};
+                stroke-width: 2px;
+            }
+
+            .a9s-snap-indicator.a9s-snap-grid,
+            .a9s-snap-indicator.a9s-snap-angle {
+                stroke-dasharray: 2 2;
             }
             
             .annotation-label{
@@ -265,6 +617,38 @@ private chooseContrastColor(color: string): string {
               -webkit-touch-callout: none;
               -khtml-user-select: none;
             }
+
+            .a9s-shape-group:focus {
+                outline: none;
+            }
+
+            .a9s-shape-group:focus-visible .selection-outline {
+                stroke-dasharray: 6 3;
+            }
+
+            @media (forced-colors: active) {
+                .annotation-shape,
+                .selection-outline {
+                    stroke: CanvasText !important;
+                }
+
+                .annotation-handle {
+                    fill: Canvas !important;
+                    stroke: CanvasText !important;
+                }
+
+                .a9s-handle.a9s-handle-selected,
+                .a9s-shape-group:focus-visible .selection-outline {
+                    stroke: Highlight !important;
+                }
+            }
+
+            @media (prefers-reduced-motion: reduce) {
+                .annotation-svg * {
+                    transition: none !important;
+                    animation: none !important;
+                }
+            }
         `;
   }
 
@@ -284,9 +668,12 @@ private chooseContrastColor(color: string): string {
   clearAllStyles(): void {
     this.customStyles.clear();
     this.originalStyles.clear();
+    this.ruleStyles.clear();
   }
 
   destroy(): void {
+    this.watchColorScheme(false);
+    this.watchContrast(false);
     this.clearAllStyles();
     this.removeAllListeners();
   }
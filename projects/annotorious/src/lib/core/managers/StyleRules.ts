@@ -0,0 +1,151 @@
+import { Annotation, AnnotationBody, BodyPurpose } from '../../types/annotation.types';
+import { Geometry } from '../../types/shape.types';
+import type { ShapeStyle } from './StyleManager';
+
+/**
+ * Comparison applied to a single value. All given operators must hold.
+ */
+export interface ValueMatcher {
+  eq?: unknown;
+  ne?: unknown;
+  in?: unknown[];
+  lt?: number;
+  lte?: number;
+  gt?: number;
+  gte?: number;
+  exists?: boolean;
+}
+
+/**
+ * A literal compares for equality, an array matches any of its items
+ */
+export type ValueCondition = string | number | boolean | null | unknown[] | ValueMatcher;
+
+/**
+ * Declarative rule condition; every given field must match
+ */
+export interface StyleRuleCondition {
+  geometryType?: Geometry['type'] | Geometry['type'][];
+  /** Value of any `tagging` body */
+  tag?: ValueCondition;
+  /** Label of the `classifying` body */
+  classification?: ValueCondition;
+  /** Confidence of the `classifying` body */
+  confidence?: ValueCondition;
+  /** Any body whose given fields all match */
+  body?: { purpose?: BodyPurpose; type?: string; value?: ValueCondition };
+  /** `customData` values by dot path, e.g. `{ 'camera.zone': 'A' }` */
+  customData?: Record<string, ValueCondition>;
+}
+
+export interface StyleRule {
+  name?: string;
+  when: StyleRuleCondition | ((annotation: Annotation) => boolean);
+  style: Partial<ShapeStyle>;
+}
+
+/**
+ * Merge the styles of all matching rules; later rules win
+ */
+export function evaluateStyleRules(
+  rules: StyleRule[],
+  annotation: Annotation
+): Partial<ShapeStyle> {
+  return rules.reduce<Partial<ShapeStyle>>(
+    (style, rule) =>
+      matchesStyleRule(rule, annotation) ? { ...style, ...rule.style } : style,
+    {}
+  );
+}
+
+export function matchesStyleRule(rule: StyleRule, annotation: Annotation): boolean {
+  if (typeof rule.when === 'function') {
+    try {
+      return rule.when(annotation);
+    } catch (error) {
+      console.error(`Error in style rule ${rule.name ?? ''}:`, error);
+      return false;
+    }
+  }
+
+  const when = rule.when;
+  const bodies = annotation.body || [];
+
+  if (when.geometryType !== undefined) {
+    const types = Array.isArray(when.geometryType) ? when.geometryType : [when.geometryType];
+    if (!types.includes(annotation.target.selector.geometry.type)) return false;
+  }
+
+  if (when.tag !== undefined) {
+    const tags = bodies.filter((body) => body.purpose === 'tagging');
+    if (!tags.some((body) => matchesValue(body.value, when.tag!))) return false;
+  }
+
+  const classification = bodies.find((body) => body.purpose === 'classifying');
+
+  if (when.classification !== undefined) {
+    if (!classification || !matchesValue(classificationLabel(classification), when.classification)) {
+      return false;
+    }
+  }
+
+  if (when.confidence !== undefined) {
+    if (!matchesValue(classification?.value?.confidence, when.confidence)) return false;
+  }
+
+  if (when.body) {
+    const { purpose, type, value } = when.body;
+    const found = bodies.some((body) =>
+      (purpose === undefined || body.purpose === purpose) &&
+      (type === undefined || body.type === type) &&
+      (value === undefined || matchesValue(body.value, value))
+    );
+    if (!found) return false;
+  }
+
+  if (when.customData) {
+    for (const [path, condition] of Object.entries(when.customData)) {
+      if (!matchesValue(readPath(annotation.customData, path), condition)) return false;
+    }
+  }
+
+  return true;
+}
+
+function classificationLabel(body: AnnotationBody): unknown {
+  return body.value && typeof body.value === 'object' ? body.value.label : body.value;
+}
+
+function readPath(data: Record<string, any> | undefined, path: string): unknown {
+  return path
+    .split('.')
+    .reduce<any>((value, key) => (value == null ? undefined : value[key]), data);
+}
+
+function matchesValue(value: unknown, condition: ValueCondition): boolean {
+  if (Array.isArray(condition)) {
+    return condition.includes(value);
+  }
+  if (condition === null || typeof condition !== 'object') {
+    return value === condition;
+  }
+
+  const matcher = condition as ValueMatcher;
+  if (matcher.exists !== undefined && (value !== undefined && value !== null) !== matcher.exists) return false;
+  if ('eq' in matcher && value !== matcher.eq) return false;
+  if ('ne' in matcher && value === matcher.ne) return false;
+  if (matcher.in && !matcher.in.includes(value)) return false;
+
+  const hasNumericTest =
+    matcher.lt !== undefined || matcher.lte !== undefined ||
+    matcher.gt !== undefined || matcher.gte !== undefined;
+  if (hasNumericTest) {
+    if (typeof value !== 'number') return false;
+    if (matcher.lt !== undefined && !(value < matcher.lt)) return false;
+    if (matcher.lte !== undefined && !(value <= matcher.lte)) return false;
+    if (matcher.gt !== undefined && !(value > matcher.gt)) return false;
+    if (matcher.gte !== undefined && !(value >= matcher.gte)) return false;
+  }
+
+  return true;
+}
@@ -11,6 +11,11 @@ interface ToolState {
   isDrawing: boolean;
 }
 
+/**
+ * Adjusts a pointer position (SVG coordinates) before it reaches the tool
+ */
+export type ToolSnapper = (point: Point, event: PointerEvent, anchor: Point | null) => Point;
+
 /**
  * Tool manager events
  */
@@ -30,6 +35,7 @@ export class ToolManager extends EventEmitter<ToolManagerEvents> {
   private state: ToolState;
   private enabled: boolean;
   private overlay: SvgOverlay;
+  private snapper: ToolSnapper | null = null;
   private eventListeners: {
     pointerdown: (event: PointerEvent) => void;
     pointermove: (event: PointerEvent) => void;
@@ -84,7 +90,7 @@ export class ToolManager extends EventEmitter<ToolManagerEvents> {
     if (this.enabled && this.state.isDrawing) {
       event.preventDefault();
       event.stopPropagation();
-      const point = this.getMousePosition(event);
+      const point = this.snapPoint(this.getMousePosition(event), event);
       this.handleMouseDown(point, event);
     }
   }
@@ -93,7 +99,7 @@ export class ToolManager extends EventEmitter<ToolManagerEvents> {
     if (this.enabled && this.state.isDrawing) {
       event.preventDefault();
       event.stopPropagation();
-      const point = this.getMousePosition(event);
+      const point = this.snapPoint(this.getMousePosition(event), event);
       this.handleMouseMove(point, event);
     }
   }
@@ -102,7 +108,7 @@ export class ToolManager extends EventEmitter<ToolManagerEvents> {
     if (this.enabled && this.state.isDrawing) {
       event.preventDefault();
       event.stopPropagation();
-      const point = this.getMousePosition(event);
+      const point = this.snapPoint(this.getMousePosition(event), event);
       this.handleMouseUp(point, event);
     }
   }
@@ -298,6 +304,19 @@ export class ToolManager extends EventEmitter<ToolManagerEvents> {
 
 
 
+  /**
+   * Snap pointer positions for tools that support it
+   */
+  setSnapper(snapper: ToolSnapper | null): void {
+    this.snapper = snapper;
+  }
+
+  private snapPoint(point: Point, event: PointerEvent): Point {
+    const tool = this.state.activeTool;
+    if (!this.snapper || !tool?.capabilities?.supportsSnapping) return point;
+    return this.snapper(point, event, tool.getSnapAnchor?.() ?? null);
+  }
+
   /**
    * Get mouse position in SVG coordinates
    */
@@ -1,4 +1,7 @@
 export * from './ToolManager';
 export * from './EditManager';
 export * from './StyleManager';
-export * from './KeyboardManager'; 
\ No newline at end of file
+export * from './KeyboardManager';
+export * from './StyleRules';
+export * from './LayerManager';
+export * from './SnapManager';
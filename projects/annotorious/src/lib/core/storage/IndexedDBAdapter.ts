@@ -0,0 +1,75 @@
+import { AnnotationStateSnapshot } from '../../types/annotation.types';
+import { StorageAdapter } from './StorageAdapter';
+
+/**
+ * Stores snapshots in an IndexedDB object store keyed by source.
+ * Handles large annotation sets that don't fit in localStorage.
+ */
+export class IndexedDBAdapter implements StorageAdapter {
+  private readonly dbName: string;
+  private readonly storeName: string;
+  private db: Promise<IDBDatabase> | null = null;
+
+  constructor(dbName: string = 'a9s-annotations', storeName: string = 'snapshots') {
+    this.dbName = dbName;
+    this.storeName = storeName;
+  }
+
+  async load(source: string): Promise<AnnotationStateSnapshot | null> {
+    const result = await this.request<AnnotationStateSnapshot | undefined>(
+      'readonly',
+      (store) => store.get(source)
+    );
+    return result ?? null;
+  }
+
+  async save(source: string, snapshot: AnnotationStateSnapshot): Promise<void> {
+    await this.request('readwrite', (store) => store.put(snapshot, source));
+  }
+
+  async delete(source: string): Promise<void> {
+    await this.request('readwrite', (store) => store.delete(source));
+  }
+
+  /**
+   * Close the database connection; it is reopened on next use
+   */
+  async close(): Promise<void> {
+    if (!this.db) return;
+    const db = await this.db;
+    this.db = null;
+    db.close();
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.dbName, 1);
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(this.storeName)) {
+            request.result.createObjectStore(this.storeName);
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      // Allow a later call to retry after a failed open
+      this.db.catch(() => (this.db = null));
+    }
+    return this.db;
+  }
+
+  private async request<T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest
+  ): Promise<T> {
+    const db = await this.open();
+    return new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(this.storeName, mode);
+      const request = operation(transaction.objectStore(this.storeName));
+      transaction.oncomplete = () => resolve(request.result as T);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+}
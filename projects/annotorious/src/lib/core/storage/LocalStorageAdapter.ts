@@ -0,0 +1,29 @@
+import { AnnotationStateSnapshot } from '../../types/annotation.types';
+import { StorageAdapter } from './StorageAdapter';
+
+/**
+ * Stores snapshots as JSON in `localStorage` (or any Web Storage).
+ * Suited to small annotation sets; browsers cap storage at a few MB.
+ */
+export class LocalStorageAdapter implements StorageAdapter {
+  private readonly prefix: string;
+  private readonly storage: Storage;
+
+  constructor(prefix: string = 'a9s-annotations:', storage: Storage = window.localStorage) {
+    this.prefix = prefix;
+    this.storage = storage;
+  }
+
+  async load(source: string): Promise<AnnotationStateSnapshot | null> {
+    const json = this.storage.getItem(this.prefix + source);
+    return json ? JSON.parse(json) as AnnotationStateSnapshot : null;
+  }
+
+  async save(source: string, snapshot: AnnotationStateSnapshot): Promise<void> {
+    this.storage.setItem(this.prefix + source, JSON.stringify(snapshot));
+  }
+
+  async delete(source: string): Promise<void> {
+    this.storage.removeItem(this.prefix + source);
+  }
+}
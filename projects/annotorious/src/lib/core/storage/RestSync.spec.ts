@@ -0,0 +1,305 @@
+import { EventEmitter } from '../events/EventEmitter';
+import { Annotation } from '../../types/annotation.types';
+import type { OpenSeadragonAnnotator } from '../annotator/OpenSeadragonAnnotator';
+import { RestSync, SyncConflictEvent, SyncErrorEvent } from './RestSync';
+
+/**
+ * Stands in for the annotator: keeps annotations in a map and emits the
+ * events RestSync listens to
+ */
+class FakeAnnotator extends EventEmitter {
+  annotations = new Map<string, Annotation>();
+
+  loadAnnotations(annotations: Annotation[]): void {
+    // The annotator adds defaults the server copy doesn't have
+    this.annotations = new Map(
+      annotations.map((a) => [a.id, { zIndex: 0, ...structuredClone(a) }])
+    );
+  }
+
+  getAnnotations(): Annotation[] {
+    return Array.from(this.annotations.values());
+  }
+
+  applyRemoteAnnotation(id: string, annotation: Annotation | null): void {
+    if (annotation) {
+      this.annotations.set(id, structuredClone(annotation));
+    } else {
+      this.annotations.delete(id);
+    }
+  }
+
+  create(annotation: Annotation): void {
+    this.annotations.set(annotation.id, annotation);
+    this.emit('create', annotation);
+  }
+
+  update(annotation: Annotation): void {
+    this.annotations.set(annotation.id, annotation);
+    this.emit('update', annotation);
+  }
+
+  delete(id: string): void {
+    const annotation = this.annotations.get(id)!;
+    this.annotations.delete(id);
+    this.emit('delete', annotation);
+  }
+}
+
+interface Request {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body: any;
+}
+
+type Reply = { status: number; body?: unknown; etag?: string };
+
+/**
+ * In-process fetch: records requests and answers them from `reply`
+ */
+function mockFetch(reply: (request: Request) => Reply) {
+  const requests: Request[] = [];
+  const fetchFn = (async (url: string, init: RequestInit = {}) => {
+    const request: Request = {
+      method: init.method || 'GET',
+      url,
+      headers: init.headers as Record<string, string>,
+      body: init.body ? JSON.parse(init.body as string) : undefined,
+    };
+    requests.push(request);
+
+    const { status, body, etag } = reply(request);
+    const headers: Record<string, string> = {};
+    if (body !== undefined) headers['Content-Type'] = 'application/json';
+    if (etag) headers['ETag'] = etag;
+    return new Response(body !== undefined ? JSON.stringify(body) : null, { status, headers });
+  }) as unknown as typeof fetch;
+  return { fetchFn, requests };
+}
+
+function rectangle(id: string, x = 10, extra: Partial<Annotation> = {}): Annotation {
+  return {
+    id,
+    type: 'Annotation',
+    body: [],
+    target: {
+      source: 'image.jpg',
+      selector: { type: 'SvgSelector', geometry: { type: 'rectangle', x, y: 10, width: 20, height: 20 } },
+    },
+    ...extra,
+  };
+}
+
+describe('RestSync', () => {
+  let annotator: FakeAnnotator;
+  let sync: RestSync;
+
+  function setup(reply: (request: Request) => Reply) {
+    const mock = mockFetch(reply);
+    annotator = new FakeAnnotator();
+    sync = new RestSync(annotator as unknown as OpenSeadragonAnnotator, {
+      baseUrl: '/api/annotations',
+      fetch: mock.fetchFn,
+    });
+    return mock.requests;
+  }
+
+  afterEach(() => sync.destroy());
+
+  describe('optimistic changes', () => {
+    it('posts a created annotation and keeps it locally', async () => {
+      const requests = setup((request) => ({ status: 201, body: request.body, etag: '"1"' }));
+      const synced = jasmine.createSpy('synced');
+      sync.on('synced', synced);
+
+      annotator.create(rectangle('a'));
+      expect(annotator.annotations.has('a')).toBeTrue();
+      await sync.flush();
+
+      expect(requests.length).toBe(1);
+      expect(requests[0].method).toBe('POST');
+      expect(requests[0].url).toBe('/api/annotations');
+      expect(requests[0].body.id).toBe('a');
+      expect(synced).toHaveBeenCalledWith(jasmine.objectContaining({ operation: 'create' }));
+    });
+
+    it('puts updates with the last ETag and confirmed timestamp', async () => {
+      const requests = setup((request) => ({
+        status: 200,
+        body: { ...request.body, modified: '2024-01-01T00:00:00Z' },
+        etag: '"1"',
+      }));
+
+      annotator.create(rectangle('a'));
+      annotator.update(rectangle('a', 50));
+      await sync.flush();
+
+      expect(requests.map((r) => r.method)).toEqual(['POST', 'PUT']);
+      expect(requests[1].url).toBe('/api/annotations/a');
+      expect(requests[1].headers['If-Match']).toBe('"1"');
+      expect(requests[1].body.modified).toBe('2024-01-01T00:00:00Z');
+      expect(requests[1].body.target.selector.geometry.x).toBe(50);
+    });
+
+    it('deletes an annotation', async () => {
+      const requests = setup((request) =>
+        request.method === 'DELETE' ? { status: 204 } : { status: 201, body: request.body }
+      );
+
+      annotator.create(rectangle('a'));
+      annotator.delete('a');
+      await sync.flush();
+
+      expect(requests.map((r) => r.method)).toEqual(['POST', 'DELETE']);
+      expect(requests[1].url).toBe('/api/annotations/a');
+      expect(annotator.annotations.has('a')).toBeFalse();
+    });
+
+    it('skips updates that change nothing that is synced', async () => {
+      const requests = setup((request) =>
+        request.method === 'GET'
+          ? { status: 200, body: [rectangle('a')] }
+          : { status: 200, body: request.body }
+      );
+
+      await sync.load('image.jpg');
+      // Deselecting emits update with the unchanged annotation
+      annotator.update(structuredClone(annotator.annotations.get('a')!));
+      await sync.flush();
+
+      expect(requests.map((r) => r.method)).toEqual(['GET']);
+    });
+  });
+
+  describe('rollback on server errors', () => {
+    it('removes a created annotation the server rejected, even when locked', async () => {
+      setup(() => ({ status: 500 }));
+      const errors: SyncErrorEvent[] = [];
+      sync.on('syncError', (event) => errors.push(event));
+
+      annotator.create(rectangle('a', 10, { locked: true }));
+      await sync.flush();
+
+      expect(annotator.annotations.has('a')).toBeFalse();
+      expect(errors.length).toBe(1);
+      expect(errors[0]).toEqual(jasmine.objectContaining({ operation: 'create', id: 'a', status: 500 }));
+    });
+
+    it('restores the confirmed version after a failed update', async () => {
+      setup((request) =>
+        request.method === 'GET'
+          ? { status: 200, body: [rectangle('a')] }
+          : { status: 503 }
+      );
+
+      await sync.load('image.jpg');
+      annotator.update(rectangle('a', 80));
+      await sync.flush();
+
+      expect(annotator.annotations.get('a')!.target.selector.geometry).toEqual(
+        jasmine.objectContaining({ x: 10 })
+      );
+    });
+
+    it('puts back an annotation whose delete failed', async () => {
+      setup((request) =>
+        request.method === 'GET'
+          ? { status: 200, body: [rectangle('a')] }
+          : { status: 500 }
+      );
+
+      await sync.load('image.jpg');
+      annotator.delete('a');
+      await sync.flush();
+
+      expect(annotator.annotations.has('a')).toBeTrue();
+    });
+
+    it('keeps the queue running when a rollback throws', async () => {
+      const requests = setup((request) => ({ status: request.method === 'POST' ? 500 : 200, body: request.body }));
+      const errors: SyncErrorEvent[] = [];
+      sync.on('syncError', (event) => errors.push(event));
+      spyOn(annotator, 'applyRemoteAnnotation').and.throwError('rollback failed');
+
+      annotator.create(rectangle('a'));
+      annotator.update(rectangle('a', 40));
+      await sync.flush();
+
+      expect(requests.map((r) => r.method)).toEqual(['POST', 'PUT']);
+      expect(errors.map((e) => e.operation)).toEqual(['create', 'create']);
+    });
+  });
+
+  describe('conflicts', () => {
+    it('reports a 409 with the server copy and keeps the local change', async () => {
+      const remote = rectangle('a', 99, { modified: '2024-02-01T00:00:00Z' });
+      setup((request) =>
+        request.method === 'GET'
+          ? { status: 200, body: [rectangle('a')], etag: '"1"' }
+          : { status: 409, body: remote }
+      );
+      const conflicts: SyncConflictEvent[] = [];
+      sync.on('conflict', (event) => conflicts.push(event));
+
+      await sync.load('image.jpg');
+      annotator.update(rectangle('a', 40));
+      await sync.flush();
+
+      expect(conflicts.length).toBe(1);
+      expect(conflicts[0].operation).toBe('update');
+      expect(conflicts[0].remote).toEqual(remote);
+      expect(sync.getConflicts()).toEqual(['a']);
+      expect(annotator.annotations.get('a')!.target.selector.geometry).toEqual(
+        jasmine.objectContaining({ x: 40 })
+      );
+    });
+
+    it('accepts the server version without sending it back', async () => {
+      const remote = rectangle('a', 99);
+      const requests = setup((request) =>
+        request.method === 'GET'
+          ? { status: 200, body: [rectangle('a')] }
+          : { status: 409, body: remote }
+      );
+
+      await sync.load('image.jpg');
+      annotator.update(rectangle('a', 40));
+      await sync.flush();
+      await sync.resolveConflict('a', 'remote');
+      annotator.update(structuredClone(annotator.annotations.get('a')!));
+      await sync.flush();
+
+      expect(annotator.annotations.get('a')!.target.selector.geometry).toEqual(
+        jasmine.objectContaining({ x: 99 })
+      );
+      expect(requests.map((r) => r.method)).toEqual(['GET', 'PUT']);
+      expect(sync.getConflicts()).toEqual([]);
+    });
+
+    it('overwrites the server on a 412 when the local version is kept', async () => {
+      let rejected = false;
+      const requests = setup((request) => {
+        if (request.method === 'POST') return { status: 201, body: request.body, etag: '"1"' };
+        if (!rejected) {
+          rejected = true;
+          return { status: 412 };
+        }
+        return { status: 204 };
+      });
+      const conflict = jasmine.createSpy('conflict');
+      sync.on('conflict', conflict);
+
+      annotator.create(rectangle('a'));
+      annotator.delete('a');
+      await sync.flush();
+      expect(conflict).toHaveBeenCalledWith(jasmine.objectContaining({ operation: 'delete', id: 'a' }));
+
+      await sync.resolveConflict('a', 'local');
+
+      expect(requests.map((r) => r.method)).toEqual(['POST', 'DELETE', 'DELETE']);
+      expect(requests[1].headers['If-Match']).toBe('"1"');
+      expect(requests[2].headers['If-Match']).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,391 @@
+import { EventEmitter } from '../events/EventEmitter';
+import { Annotation } from '../../types/annotation.types';
+import type { OpenSeadragonAnnotator } from '../annotator/OpenSeadragonAnnotator';
+
+export type SyncOperation = 'load' | 'create' | 'update' | 'delete';
+
+export interface RestSyncConfig {
+  /** Collection URL, e.g. `/api/annotations` */
+  baseUrl: string;
+  /** Override individual endpoints; defaults are REST-style under `baseUrl` */
+  endpoints?: {
+    list?: (source: string) => string;
+    create?: (annotation: Annotation) => string;
+    update?: (annotation: Annotation) => string;
+    delete?: (id: string) => string;
+  };
+  /** Extra request headers, e.g. authorization */
+  headers?: Record<string, string>;
+  /** Fetch implementation, defaults to the global `fetch` */
+  fetch?: typeof fetch;
+}
+
+export interface SyncedEvent {
+  operation: SyncOperation;
+  annotation?: Annotation;
+  annotations?: Annotation[];
+}
+
+export interface SyncErrorEvent {
+  operation: SyncOperation;
+  id?: string;
+  status?: number;
+  error: unknown;
+}
+
+export interface SyncConflictEvent {
+  operation: SyncOperation;
+  id: string;
+  /** The rejected local version */
+  local: Annotation | null;
+  /** The server version, when the response carried one */
+  remote: Annotation | null;
+}
+
+interface RestSyncEvents {
+  synced: SyncedEvent;
+  syncError: SyncErrorEvent;
+  conflict: SyncConflictEvent;
+}
+
+interface SyncResponse {
+  status: number;
+  etag: string | null;
+  body: any;
+}
+
+/** Fields sent to the server; other changes, e.g. selection, are not synced */
+const SYNCED_FIELDS = [
+  'body',
+  'target',
+  'label',
+  'style',
+  'layer',
+  'zIndex',
+  'locked',
+  'customData',
+] as const;
+
+/**
+ * Comparable form of the synced fields, independent of key order
+ */
+function fingerprint(annotation: Annotation): string {
+  return JSON.stringify(
+    SYNCED_FIELDS.map((field) => annotation[field] ?? null),
+    (_key, value) =>
+      value && typeof value === 'object' && !Array.isArray(value)
+        ? Object.fromEntries(Object.entries(value).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)))
+        : value
+  );
+}
+
+class SyncHttpError extends Error {
+  constructor(readonly status: number, readonly body: any) {
+    super(`Request failed with status ${status}`);
+    this.name = 'SyncHttpError';
+  }
+}
+
+/**
+ * Mirrors annotator changes to a REST backend.
+ *
+ * Changes are applied locally first and sent in order per annotation:
+ * `create` → POST, `update` → PUT, `delete` → DELETE. A failed request rolls
+ * the annotation back to its last confirmed server version and emits
+ * `syncError`. Updates and deletes send the last known ETag as `If-Match`
+ * and the last confirmed `modified` timestamp in the body; a 409 or 412
+ * response keeps the local change and emits `conflict`, to be settled with
+ * `resolveConflict()`.
+ */
+export class RestSync extends EventEmitter<RestSyncEvents> {
+  private readonly annotator: OpenSeadragonAnnotator;
+  private readonly config: RestSyncConfig;
+  private readonly fetchFn: typeof fetch;
+
+  /** Last version acknowledged by the server, used for rollback */
+  private confirmed = new Map<string, Annotation>();
+  private etags = new Map<string, string>();
+  /** Fingerprint of the last version sent or loaded, to skip no-op updates */
+  private lastSent = new Map<string, string>();
+  private queues = new Map<string, Promise<void>>();
+  private conflicts = new Map<string, SyncConflictEvent>();
+  private applyingRemote = false;
+
+  constructor(annotator: OpenSeadragonAnnotator, config: RestSyncConfig) {
+    super();
+    this.annotator = annotator;
+    this.config = config;
+    this.fetchFn = config.fetch ?? globalThis.fetch.bind(globalThis);
+
+    this.annotator.on('create', this.onCreate);
+    this.annotator.on('update', this.onUpdate);
+    this.annotator.on('delete', this.onDelete);
+  }
+
+  /**
+   * Fetch the annotations of an image source and load them into the annotator
+   */
+  async load(source: string): Promise<Annotation[]> {
+    try {
+      const response = await this.send('GET', this.listUrl(source));
+      const annotations: Annotation[] = Array.isArray(response.body) ? response.body : [];
+
+      this.confirmed.clear();
+      this.etags.clear();
+      this.lastSent.clear();
+      this.conflicts.clear();
+      annotations.forEach((annotation) => this.confirm(annotation, null));
+
+      this.applyRemote(() => this.annotator.loadAnnotations(structuredClone(annotations)));
+      this.annotator.getAnnotations().forEach((annotation) => {
+        this.lastSent.set(annotation.id, fingerprint(annotation));
+      });
+      this.emit('synced', { operation: 'load', annotations });
+      return annotations;
+    } catch (error) {
+      this.emit('syncError', { operation: 'load', status: (error as SyncHttpError).status, error });
+      return [];
+    }
+  }
+
+  /**
+   * Settle a conflict by overwriting the server ('local') or accepting the
+   * server version ('remote')
+   */
+  resolveConflict(id: string, keep: 'local' | 'remote'): Promise<void> {
+    const conflict = this.conflicts.get(id);
+    if (!conflict) return Promise.resolve();
+    this.conflicts.delete(id);
+
+    if (keep === 'remote') {
+      const remote = conflict.remote;
+      if (remote) {
+        this.confirm(remote, null);
+        this.rollback(id, remote);
+      }
+      return Promise.resolve();
+    }
+
+    // Drop our ETag and adopt the server's timestamp so the write goes through
+    this.etags.delete(id);
+    if (conflict.remote) this.confirm(conflict.remote, null);
+
+    const local = this.annotator.getAnnotations().find((a) => a.id === id);
+    return local
+      ? this.enqueue(id, 'update', () => this.pushUpdate(local))
+      : this.enqueue(id, 'delete', () => this.pushDelete(id, conflict.remote));
+  }
+
+  /**
+   * Ids with an unresolved conflict
+   */
+  getConflicts(): string[] {
+    return Array.from(this.conflicts.keys());
+  }
+
+  /**
+   * Resolves once every queued request has finished
+   */
+  async flush(): Promise<void> {
+    while (this.queues.size > 0) {
+      await Promise.all(Array.from(this.queues.values()));
+    }
+  }
+
+  destroy(): void {
+    this.annotator.off('create', this.onCreate);
+    this.annotator.off('update', this.onUpdate);
+    this.annotator.off('delete', this.onDelete);
+    this.removeAllListeners();
+  }
+
+  private onCreate = (annotation: Annotation): void => {
+    if (this.applyingRemote) return;
+    const local = structuredClone(annotation);
+    this.lastSent.set(local.id, fingerprint(local));
+    this.enqueue(local.id, 'create', () => this.pushCreate(local));
+  };
+
+  private onUpdate = (annotation: Annotation): void => {
+    if (this.applyingRemote) return;
+    // Selection changes also emit update; only send real changes
+    const key = fingerprint(annotation);
+    if (this.lastSent.get(annotation.id) === key) return;
+
+    const local = structuredClone(annotation);
+    this.lastSent.set(local.id, key);
+    this.enqueue(local.id, 'update', () => this.pushUpdate(local));
+  };
+
+  private onDelete = (annotation: Annotation): void => {
+    if (this.applyingRemote) return;
+    this.lastSent.delete(annotation.id);
+    const previous = this.confirmed.get(annotation.id) ?? structuredClone(annotation);
+    this.enqueue(annotation.id, 'delete', () => this.pushDelete(annotation.id, previous));
+  };
+
+  private async pushCreate(local: Annotation): Promise<void> {
+    try {
+      const response = await this.send('POST', this.createUrl(local), local);
+      this.confirm(this.responseAnnotation(response, local), response.etag);
+      this.emit('synced', { operation: 'create', annotation: local });
+    } catch (error) {
+      if (this.handleConflict(error, 'create', local.id, local)) return;
+      this.emit('syncError', { operation: 'create', id: local.id, status: (error as SyncHttpError).status, error });
+      this.rollback(local.id, null);
+    }
+  }
+
+  private async pushUpdate(local: Annotation): Promise<void> {
+    const base = this.confirmed.get(local.id);
+    const body: Annotation = { ...local };
+    if (base?.modified) body.modified = base.modified;
+
+    try {
+      const response = await this.send('PUT', this.updateUrl(local), body, this.etags.get(local.id));
+      this.confirm(this.responseAnnotation(response, local), response.etag);
+      this.emit('synced', { operation: 'update', annotation: local });
+    } catch (error) {
+      if (this.handleConflict(error, 'update', local.id, local)) return;
+      this.emit('syncError', { operation: 'update', id: local.id, status: (error as SyncHttpError).status, error });
+      if (base) {
+        this.rollback(base.id, base);
+      }
+    }
+  }
+
+  private async pushDelete(id: string, previous: Annotation | null): Promise<void> {
+    try {
+      await this.send('DELETE', this.deleteUrl(id), undefined, this.etags.get(id));
+      this.confirmed.delete(id);
+      this.etags.delete(id);
+      this.emit('synced', { operation: 'delete', annotation: previous ?? undefined });
+    } catch (error) {
+      if (this.handleConflict(error, 'delete', id, null)) return;
+      this.emit('syncError', { operation: 'delete', id, status: (error as SyncHttpError).status, error });
+      if (previous) {
+        this.rollback(id, previous);
+      }
+    }
+  }
+
+  /**
+   * Record a conflict for 409/412 responses; returns false for other errors
+   */
+  private handleConflict(
+    error: unknown,
+    operation: SyncOperation,
+    id: string,
+    local: Annotation | null
+  ): boolean {
+    if (!(error instanceof SyncHttpError) || (error.status !== 409 && error.status !== 412)) {
+      return false;
+    }
+
+    const remote = error.body && typeof error.body === 'object' && error.body.id === id
+      ? error.body as Annotation
+      : null;
+    const conflict: SyncConflictEvent = { operation, id, local, remote };
+    this.conflicts.set(id, conflict);
+    this.emit('conflict', conflict);
+    return true;
+  }
+
+  private confirm(annotation: Annotation, etag: string | null): void {
+    this.confirmed.set(annotation.id, structuredClone(annotation));
+    if (etag) {
+      this.etags.set(annotation.id, etag);
+    }
+  }
+
+  /**
+   * The server's copy when it echoes the annotation, else what we sent
+   */
+  private responseAnnotation(response: SyncResponse, sent: Annotation): Annotation {
+    const body = response.body;
+    return body && typeof body === 'object' && body.id === sent.id ? body : sent;
+  }
+
+  /**
+   * Put the server version back (or remove the annotation) outside the undo
+   * history and regardless of locks, and take it as sent
+   */
+  private rollback(id: string, remote: Annotation | null): void {
+    this.applyRemote(() => this.annotator.applyRemoteAnnotation(id, remote));
+    const current = this.annotator.getAnnotations().find((a) => a.id === id);
+    if (current) {
+      this.lastSent.set(id, fingerprint(current));
+    } else {
+      this.lastSent.delete(id);
+    }
+  }
+
+  private applyRemote(operation: () => void): void {
+    this.applyingRemote = true;
+    try {
+      operation();
+    } finally {
+      this.applyingRemote = false;
+    }
+  }
+
+  /**
+   * Requests for one annotation run strictly in order
+   */
+  private enqueue(id: string, operation: SyncOperation, task: () => Promise<void>): Promise<void> {
+    // A failing task must not end the chain, later requests still have to run
+    const next = (this.queues.get(id) ?? Promise.resolve())
+      .then(task)
+      .catch((error) => this.emit('syncError', { operation, id, error }));
+    this.queues.set(id, next);
+    next.finally(() => {
+      if (this.queues.get(id) === next) this.queues.delete(id);
+    });
+    return next;
+  }
+
+  private async send(method: string, url: string, body?: unknown, etag?: string): Promise<SyncResponse> {
+    const headers: Record<string, string> = {
+      Accept: 'application/json',
+      ...this.config.headers,
+    };
+    if (body !== undefined) headers['Content-Type'] = 'application/json';
+    if (etag) headers['If-Match'] = etag;
+
+    const response = await this.fetchFn(url, {
+      method,
+      headers,
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+    });
+
+    let data: any = null;
+    const contentType = response.headers.get('Content-Type') || '';
+    if (response.status !== 204 && contentType.includes('json')) {
+      data = await response.json().catch(() => null);
+    }
+
+    if (!response.ok) {
+      throw new SyncHttpError(response.status, data);
+    }
+    return { status: response.status, etag: response.headers.get('ETag'), body: data };
+  }
+
+  private listUrl(source: string): string {
+    return this.config.endpoints?.list?.(source)
+      ?? `${this.config.baseUrl}?source=${encodeURIComponent(source)}`;
+  }
+
+  private createUrl(annotation: Annotation): string {
+    return this.config.endpoints?.create?.(annotation) ?? this.config.baseUrl;
+  }
+
+  private updateUrl(annotation: Annotation): string {
+    return this.config.endpoints?.update?.(annotation)
+      ?? `${this.config.baseUrl}/${encodeURIComponent(annotation.id)}`;
+  }
+
+  private deleteUrl(id: string): string {
+    return this.config.endpoints?.delete?.(id)
+      ?? `${this.config.baseUrl}/${encodeURIComponent(id)}`;
+  }
+}
@@ -0,0 +1,27 @@
+import { AnnotationStateSnapshot } from '../../types/annotation.types';
+
+/**
+ * Version of the snapshot format written by the annotator
+ */
+export const SNAPSHOT_VERSION = '1.0';
+
+/**
+ * Pluggable persistence backend. Snapshots are keyed by the image
+ * source (`target.source`) their annotations belong to.
+ */
+export interface StorageAdapter {
+  /**
+   * Load the snapshot stored for a source, or null when there is none
+   */
+  load(source: string): Promise<AnnotationStateSnapshot | null>;
+
+  /**
+   * Store the snapshot for a source, replacing any previous one
+   */
+  save(source: string, snapshot: AnnotationStateSnapshot): Promise<void>;
+
+  /**
+   * Remove the snapshot stored for a source
+   */
+  delete(source: string): Promise<void>;
+}
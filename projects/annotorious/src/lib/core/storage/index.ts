@@ -0,0 +1,4 @@
+export * from './StorageAdapter';
+export * from './LocalStorageAdapter';
+export * from './IndexedDBAdapter';
+export * from './RestSync';
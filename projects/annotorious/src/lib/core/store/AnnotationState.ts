@@ -4,6 +4,7 @@ import { Shape } from '../../shapes/base';
 import { SpatialIndex } from './SpatialIndex';
 import { HitDetection, SVGUtils } from '../../utils';
 import { Point, TextGeometry } from '../../types/shape.types';
+import { AnnotationLayer, DEFAULT_LAYER_ID } from '../../types/layer.types';
 import { v4 as uuid } from 'uuid';
 interface AnnotationStateEvents {
   loaded: {};
@@ -12,6 +13,7 @@ interface AnnotationStateEvents {
   delete: { annotation: Annotation };
   select: { id: string };
   deselect: { id: string };
+  selectionChanged: { ids: string[] };
   disableMouseNavigation: {};
   enableMouseNavigation: {};
 }
@@ -19,10 +21,13 @@ interface AnnotationStateEvents {
 export class AnnotationState extends EventEmitter<AnnotationStateEvents> {
   private annotations: Map<string, Annotation>;
   private shapes: Map<string, Shape>;
-  private selectedId: string | null = null;
+  private selectedIds: Set<string> = new Set();
   private readonly spatialIndex: SpatialIndex;
   private suppressEvents = false;
   private hiddenAnnotations: Set<string> = new Set();
+  private hiddenLayers: Set<string> = new Set();
+  private lockedLayers: Set<string> = new Set();
+  private layerOrder: Map<string, number> = new Map();
 
   constructor() {
     super();
@@ -136,7 +141,7 @@ export class AnnotationState extends EventEmitter<AnnotationStateEvents> {
     changes: Partial<Annotation>,
     emitEvent: boolean = true
   ): void {
-    if (id != this.selectedId) return;
+    if (!this.selectedIds.has(id)) return;
     const current = this.annotations.get(id);
     if (!current) return;
 
@@ -216,8 +221,8 @@ export class AnnotationState extends EventEmitter<AnnotationStateEvents> {
     this.annotations.delete(id);
 
     // Clean up selection
-    if (this.selectedId === id) {
-      this.selectedId = null;
+    if (this.selectedIds.delete(id)) {
+      this.emit('selectionChanged', { ids: this.getSelectedIds() });
     }
 
     this.emit('delete', { annotation });
@@ -290,24 +295,108 @@ export class AnnotationState extends EventEmitter<AnnotationStateEvents> {
     this.emit('update', { id });
   }
 
+  /**
+   * Replace an annotation with a snapshot (e.g. from undo/redo history),
+   * regardless of the current selection
+   */
+  restore(annotation: Annotation): void {
+    const id = annotation.id;
+    const current = this.annotations.get(id);
+    if (!current) return;
+
+    const oldBbox = SVGUtils.getAnnotationBBox(current);
+    if (oldBbox) {
+      this.spatialIndex.remove({ ...oldBbox, id });
+    }
+    if (current.label) {
+      const oldLabelBbox = SVGUtils.getAnnotationBBox({
+        target: { selector: { geometry: current.label } },
+      } as Annotation);
+      if (oldLabelBbox) {
+        this.spatialIndex.remove({ ...oldLabelBbox, id: `label-${id}` });
+      }
+    }
+
+    this.annotations.set(id, annotation);
+
+    const bbox = SVGUtils.getAnnotationBBox(annotation);
+    if (bbox) {
+      this.spatialIndex.insert({ ...bbox, id });
+    }
+    if (annotation.label) {
+      const labelBbox = SVGUtils.getAnnotationBBox({
+        target: { selector: { geometry: annotation.label } },
+      } as Annotation);
+      if (labelBbox) {
+        this.spatialIndex.insert({ ...labelBbox, id: `label-${id}` });
+      }
+    }
+
+    const shape = this.shapes.get(id);
+    if (shape) {
+      shape.update(annotation.target.selector.geometry);
+      if (annotation.label) {
+        shape.updateLabel(annotation.label);
+      } else {
+        shape.removeLabel();
+      }
+    }
+
+    this.emit('update', { id });
+  }
+
   /**
    * Select an annotation and start editing it
    */
   select(id: string): void {
     this.deselectAll();
+    this.addToSelection(id);
+  }
 
-    const shape = this.shapes.get(id);
-    if (shape) {
-      this.selectedId = id;
-      this.emit('select', { id });
+  /**
+   * Add an annotation to the current selection
+   */
+  addToSelection(id: string): void {
+    if (this.selectedIds.has(id) || !this.shapes.has(id)) return;
+    if (!this.isAnnotationSelectable(id)) return;
+
+    this.selectedIds.add(id);
+    this.emit('select', { id });
+    this.emit('selectionChanged', { ids: this.getSelectedIds() });
+  }
+
+  /**
+   * Remove an annotation from the current selection
+   */
+  removeFromSelection(id: string): void {
+    if (!this.selectedIds.has(id)) return;
+
+    this.emit('deselect', { id });
+    this.selectedIds.delete(id);
+    this.emit('selectionChanged', { ids: this.getSelectedIds() });
+  }
+
+  /**
+   * Add or remove an annotation from the current selection
+   */
+  toggleSelection(id: string): void {
+    if (this.selectedIds.has(id)) {
+      this.removeFromSelection(id);
+    } else {
+      this.addToSelection(id);
     }
   }
 
   deselectAll(): void {
-    if (this.selectedId === null) return;
+    if (this.selectedIds.size === 0) return;
 
-    this.emit('deselect', { id: this.selectedId });
-    this.selectedId = null;
+    // Deselect events fire while the id is still selected, so listeners
+    // can commit pending edits
+    for (const id of Array.from(this.selectedIds)) {
+      this.emit('deselect', { id });
+      this.selectedIds.delete(id);
+    }
+    this.emit('selectionChanged', { ids: [] });
   }
 
   /**
@@ -343,7 +432,7 @@ export class AnnotationState extends EventEmitter<AnnotationStateEvents> {
 
     this.annotations.clear();
     this.shapes.clear();
-    this.selectedId = null;
+    this.selectedIds.clear();
     this.spatialIndex.clear();
     this.clearHiddenState();
   }
@@ -352,21 +441,29 @@ export class AnnotationState extends EventEmitter<AnnotationStateEvents> {
    * Check if an annotation is currently selected
    */
   isSelected(id: string): boolean {
-    return this.selectedId === id;
+    return this.selectedIds.has(id);
   }
 
   /**
-   * Get all selected annotation IDs
+   * Get the most recently selected annotation ID
    */
   getSelectedId(): string | null {
-    return this.selectedId;
+    const ids = this.getSelectedIds();
+    return ids.length > 0 ? ids[ids.length - 1] : null;
+  }
+
+  /**
+   * Get all selected annotation IDs, in selection order
+   */
+  getSelectedIds(): string[] {
+    return Array.from(this.selectedIds);
   }
 
   /**
    * Check if any annotations are selected
    */
   hasSelections(): boolean {
-    return this.selectedId !== null;
+    return this.selectedIds.size > 0;
   }
 
   /**
@@ -389,11 +486,32 @@ export class AnnotationState extends EventEmitter<AnnotationStateEvents> {
   }
 
   /**
-   * Find the best hit annotation at a given point using precise hit detection
+   * Query selectable annotations whose shape or label intersects the given box
+   */
+  queryInBounds(bounds: {
+    minX: number;
+    minY: number;
+    maxX: number;
+    maxY: number;
+  }): string[] {
+    const ids = this.spatialIndex
+      .search(bounds)
+      .map((item) =>
+        item.id.startsWith('label-') ? item.id.substring(6) : item.id
+      )
+      .filter((id) => this.isAnnotationSelectable(id));
+    return Array.from(new Set(ids));
+  }
+
+  /**
+   * Find the topmost annotation hit at a given point using precise hit
+   * detection. `isFilled` tells which annotations are clickable inside, not
+   * only on the edge.
    */
   findHitAnnotation(
     point: Point,
-    tolerance: number = 5
+    tolerance: number = 5,
+    isFilled: (id: string) => boolean = () => false
   ): { id: string; distance: number } | null {
     // Get candidates using tolerance-aware spatial index search
     const candidateIds = this.queryAtPoint(point, tolerance);
@@ -402,12 +520,15 @@ export class AnnotationState extends EventEmitter<AnnotationStateEvents> {
     }
 
     let bestHit: { id: string; distance: number } | null = null;
-    let minDistance = Infinity;
+    let bestRank = -1;
+    const ranks = new Map(
+      this.getAllInStackingOrder().map((annotation, index) => [annotation.id, index])
+    );
 
     // Test each candidate with precise hit detection
     for (const id of candidateIds) {
       const annotation = this.annotations.get(id);
-      if (!annotation) {
+      if (!annotation || !this.isAnnotationSelectable(id)) {
         continue;
       }
 
@@ -416,7 +537,8 @@ export class AnnotationState extends EventEmitter<AnnotationStateEvents> {
         hitResult = HitDetection.hitTest(
           point,
           annotation.target.selector.geometry,
-          tolerance
+          tolerance,
+          isFilled(id)
         );
       }
 
@@ -436,8 +558,10 @@ export class AnnotationState extends EventEmitter<AnnotationStateEvents> {
         }
       }
 
-      if (hitResult && hitResult.hit && hitResult.distance < minDistance) {
-        minDistance = hitResult.distance;
+      // Overlapping hits go to the shape drawn on top
+      const rank = ranks.get(id) ?? -1;
+      if (hitResult && hitResult.hit && rank > bestRank) {
+        bestRank = rank;
         bestHit = { id, distance: hitResult.distance };
       }
     }
@@ -457,10 +581,65 @@ export class AnnotationState extends EventEmitter<AnnotationStateEvents> {
   }
 
   /**
-   * Check if annotation is visible in state
+   * Check if annotation is visible in state, on its own and through its layer
    */
   isAnnotationVisible(id: string): boolean {
-    return !this.hiddenAnnotations.has(id);
+    return (
+      !this.hiddenAnnotations.has(id) &&
+      !this.hiddenLayers.has(this.getLayerId(id))
+    );
+  }
+
+  /**
+   * Check if the annotation's layer is locked
+   */
+  isInLockedLayer(id: string): boolean {
+    return this.lockedLayers.has(this.getLayerId(id));
+  }
+
+  /**
+   * Check the annotation's own `locked` flag
+   */
+  isAnnotationLocked(id: string): boolean {
+    return !!this.annotations.get(id)?.locked;
+  }
+
+  /**
+   * Visible annotations outside locked layers can be hit and selected
+   */
+  isAnnotationSelectable(id: string): boolean {
+    return this.isAnnotationVisible(id) && !this.isInLockedLayer(id);
+  }
+
+  getLayerId(id: string): string {
+    return this.annotations.get(id)?.layer || DEFAULT_LAYER_ID;
+  }
+
+  /**
+   * Take over layer visibility and locking
+   */
+  setLayerState(layers: AnnotationLayer[]): void {
+    this.hiddenLayers = new Set(layers.filter((l) => !l.visible).map((l) => l.id));
+    this.lockedLayers = new Set(layers.filter((l) => l.locked).map((l) => l.id));
+    this.layerOrder = new Map(layers.map((l, index) => [l.id, index]));
+  }
+
+  /**
+   * Annotations bottom to top, as drawn: by layer, then zIndex, then
+   * insertion order
+   */
+  getAllInStackingOrder(): Annotation[] {
+    const layerIndex = (annotation: Annotation) =>
+      this.layerOrder.get(annotation.layer || DEFAULT_LAYER_ID) ?? 0;
+
+    return this.getAll()
+      .map((annotation, index) => ({ annotation, index }))
+      .sort((a, b) =>
+        layerIndex(a.annotation) - layerIndex(b.annotation) ||
+        (a.annotation.zIndex ?? 0) - (b.annotation.zIndex ?? 0) ||
+        a.index - b.index
+      )
+      .map(({ annotation }) => annotation);
   }
 
   /**
@@ -0,0 +1,147 @@
+import { Annotation } from '../../types/annotation.types';
+import { AnnotationStore } from './AnnotationStore';
+
+function rectangle(id: string, x = 10): Annotation {
+  return {
+    id,
+    type: 'Annotation',
+    body: [],
+    target: {
+      source: 'image.jpg',
+      selector: { type: 'SvgSelector', geometry: { type: 'rectangle', x, y: 10, width: 20, height: 20 } },
+    },
+  };
+}
+
+function xOf(store: AnnotationStore, id: string): number | undefined {
+  const geometry = store.get(id)?.target.selector.geometry;
+  return geometry?.type === 'rectangle' ? geometry.x : undefined;
+}
+
+describe('AnnotationStore', () => {
+  let store: AnnotationStore;
+
+  beforeEach(() => {
+    store = new AnnotationStore();
+  });
+
+  describe('undo and redo', () => {
+    it('reverts and replays create, update and delete', () => {
+      store.create(rectangle('a'));
+      store.update('a', { target: rectangle('a', 50).target });
+      store.delete('a');
+
+      store.undo();
+      expect(xOf(store, 'a')).toBe(50);
+      store.undo();
+      expect(xOf(store, 'a')).toBe(10);
+      store.undo();
+      expect(store.get('a')).toBeUndefined();
+      expect(store.canUndo()).toBeFalse();
+
+      store.redo();
+      store.redo();
+      expect(xOf(store, 'a')).toBe(50);
+      store.redo();
+      expect(store.get('a')).toBeUndefined();
+      expect(store.canRedo()).toBeFalse();
+    });
+
+    it('restores only the fields an update changed', () => {
+      store.create({ ...rectangle('a'), customData: { reviewed: true } });
+      store.update('a', { label: { type: 'text', x: 0, y: 0, text: 'Cat' } });
+
+      store.undo();
+
+      expect(store.get('a')!.label).toBeUndefined();
+      expect(store.get('a')!.customData).toEqual({ reviewed: true });
+    });
+
+    it('drops the redo steps on a new change', () => {
+      store.create(rectangle('a'));
+      store.undo();
+      expect(store.canRedo()).toBeTrue();
+
+      store.create(rectangle('b'));
+
+      expect(store.canRedo()).toBeFalse();
+    });
+
+    it('reports history changes', () => {
+      const changes: { canUndo: boolean; canRedo: boolean }[] = [];
+      store.on('historyChanged', (event) => changes.push(event));
+
+      store.create(rectangle('a'));
+      store.undo();
+
+      expect(changes).toEqual([
+        { canUndo: true, canRedo: false },
+        { canUndo: false, canRedo: true },
+      ]);
+    });
+  });
+
+  describe('batches', () => {
+    it('records a batch as one undo step', () => {
+      store.startBatch();
+      store.create(rectangle('a'));
+      store.create(rectangle('b'));
+      store.endBatch();
+
+      store.undo();
+
+      expect(store.getAll()).toEqual([]);
+      expect(store.canUndo()).toBeFalse();
+    });
+
+    it('folds nested batches into the outermost one', () => {
+      store.startBatch();
+      store.create(rectangle('a'));
+      store.startBatch();
+      store.create(rectangle('b'));
+      store.endBatch();
+      expect(store.canUndo()).toBeFalse();
+      store.create(rectangle('c'));
+      store.endBatch();
+
+      store.undo();
+
+      expect(store.getAll()).toEqual([]);
+      expect(store.canUndo()).toBeFalse();
+    });
+
+    it('ignores an end without a start', () => {
+      store.endBatch();
+      store.create(rectangle('a'));
+      store.create(rectangle('b'));
+
+      store.undo();
+
+      expect(store.get('a')).toBeDefined();
+      expect(store.get('b')).toBeUndefined();
+    });
+
+    it('records nothing for an empty batch', () => {
+      store.create(rectangle('a'));
+      store.startBatch();
+      store.endBatch();
+
+      store.undo();
+
+      expect(store.get('a')).toBeUndefined();
+    });
+  });
+
+  describe('writes outside the history', () => {
+    it('puts and discards annotations without undo steps', () => {
+      store.put(rectangle('a'));
+      store.put(rectangle('a', 30));
+      expect(xOf(store, 'a')).toBe(30);
+      expect(store.canUndo()).toBeFalse();
+
+      store.discard('a');
+      expect(store.get('a')).toBeUndefined();
+      expect(store.canUndo()).toBeFalse();
+    });
+  });
+});
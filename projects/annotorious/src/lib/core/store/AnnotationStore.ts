@@ -1,26 +1,40 @@
 import { EventEmitter } from '../events/EventEmitter';
 import { Annotation, AnnotationBody } from '../../types/annotation.types';
+import { HistoryChangedEvent } from '../../types/events.types';
 
 /**
  * Store action types
  */
 type StoreAction = 
   | { type: 'CREATE'; annotation: Annotation }
-  | { type: 'UPDATE'; id: string; changes: Partial<Annotation> }
+  | { type: 'UPDATE'; id: string; changes: Partial<Annotation>; previous: Partial<Annotation> }
   | { type: 'DELETE'; id: string; annotation: Annotation }
   | { type: 'ADD_BODY'; id: string; body: AnnotationBody }
   | { type: 'REMOVE_BODY'; id: string; bodyIndex: number; body: AnnotationBody }
-  | { type: 'CLEAR' };
+  | { type: 'CLEAR'; annotations: Annotation[] }
+  | { type: 'BATCH'; actions: StoreAction[] };
 
+/**
+ * Annotation store events
+ */
+interface AnnotationStoreEvents {
+  create: { type: 'create'; annotation: Annotation };
+  update: { type: 'update'; id: string; changes: Partial<Annotation> };
+  delete: { type: 'delete'; id: string; annotation: Annotation };
+  clear: { type: 'clear' };
+  load: { type: 'load'; annotations: Annotation[] };
+  historyChanged: HistoryChangedEvent;
+}
 
 /**
  * Manages annotation data with undo/redo support
  */
-export class AnnotationStore extends EventEmitter {
+export class AnnotationStore extends EventEmitter<AnnotationStoreEvents> {
   private annotations: Map<string, Annotation>;
   private undoStack: StoreAction[];
   private redoStack: StoreAction[];
-  private batchOperation: boolean;
+  /** Open `startBatch` calls; the batch is recorded when it drops to 0 */
+  private batchDepth: number;
   private batchActions: StoreAction[];
 
   constructor() {
@@ -28,35 +42,67 @@ export class AnnotationStore extends EventEmitter {
     this.annotations = new Map();
     this.undoStack = [];
     this.redoStack = [];
-    this.batchOperation = false;
+    this.batchDepth = 0;
     this.batchActions = [];
   }
 
   /**
-   * Start a batch operation
+   * Start a batch operation. Batches nest: actions of inner batches become
+   * part of the outermost one.
    */
   startBatch(): void {
-    this.batchOperation = true;
-    this.batchActions = [];
+    if (this.batchDepth === 0) {
+      this.batchActions = [];
+    }
+    this.batchDepth++;
   }
 
   /**
-   * End a batch operation
+   * End a batch operation; the outermost one records a single history step
    */
   endBatch(): void {
-    this.batchOperation = false;
-    if (this.batchActions.length > 0) {
-      this.undoStack.push(...this.batchActions);
-      this.redoStack = [];
-    }
+    if (this.batchDepth === 0) return;
+    this.batchDepth--;
+    if (this.batchDepth > 0) return;
+
+    const actions = this.batchActions;
     this.batchActions = [];
+    if (actions.length > 0) {
+      this.record({ type: 'BATCH', actions });
+    }
+  }
+
+  /**
+   * Replace all annotations without recording history
+   */
+  load(annotations: Annotation[]): void {
+    this.annotations = new Map(
+      annotations.map(annotation => [annotation.id, structuredClone(annotation)])
+    );
+    this.clearHistory();
+    this.emit('load', { type: 'load', annotations: this.getAll() });
+  }
+
+  /**
+   * Set an annotation without recording history, e.g. a version confirmed
+   * by a server
+   */
+  put(annotation: Annotation): void {
+    this.annotations.set(annotation.id, structuredClone(annotation));
+  }
+
+  /**
+   * Drop an annotation without recording history
+   */
+  discard(id: string): void {
+    this.annotations.delete(id);
   }
 
   /**
    * Add an annotation
    */
   create(annotation: Annotation): void {
-    const action = { type: 'CREATE' as const, annotation };
+    const action = { type: 'CREATE' as const, annotation: structuredClone(annotation) };
     this.executeAction(action);
   }
 
@@ -64,7 +110,16 @@ export class AnnotationStore extends EventEmitter {
    * Update an annotation
    */
   update(id: string, changes: Partial<Annotation>): void {
-    const action = { type: 'UPDATE' as const, id, changes };
+    const annotation = this.annotations.get(id);
+    if (!annotation) return;
+
+    const previous: Partial<Annotation> = {};
+    const keep = <K extends keyof Annotation>(key: K) => {
+      previous[key] = structuredClone(annotation[key]);
+    };
+    (Object.keys(changes) as (keyof Annotation)[]).forEach(keep);
+
+    const action = { type: 'UPDATE' as const, id, changes: structuredClone(changes), previous };
     this.executeAction(action);
   }
 
@@ -103,7 +158,7 @@ export class AnnotationStore extends EventEmitter {
    * Clear all annotations
    */
   clear(): void {
-    const action = { type: 'CLEAR' as const };
+    const action = { type: 'CLEAR' as const, annotations: this.getAll() };
     this.executeAction(action);
   }
 
@@ -129,6 +184,7 @@ export class AnnotationStore extends EventEmitter {
     if (action) {
       this.executeReverseAction(action);
       this.redoStack.push(action);
+      this.emitHistoryChanged();
     }
   }
 
@@ -138,8 +194,9 @@ export class AnnotationStore extends EventEmitter {
   redo(): void {
     const action = this.redoStack.pop();
     if (action) {
-      this.executeAction(action);
+      this.applyAction(action);
       this.undoStack.push(action);
+      this.emitHistoryChanged();
     }
   }
 
@@ -158,22 +215,59 @@ export class AnnotationStore extends EventEmitter {
   }
 
   /**
-   * Execute a store action
+   * Drop all undo/redo history
+   */
+  clearHistory(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+    this.batchActions = [];
+    this.emitHistoryChanged();
+  }
+
+  /**
+   * Execute a store action and record it in the history
    */
   private executeAction(action: StoreAction): void {
+    this.applyAction(action);
+    if (this.batchDepth > 0) {
+      this.batchActions.push(action);
+    } else {
+      this.record(action);
+    }
+  }
+
+  /**
+   * Push an action onto the undo stack, invalidating redo
+   */
+  private record(action: StoreAction): void {
+    this.undoStack.push(action);
+    this.redoStack = [];
+    this.emitHistoryChanged();
+  }
+
+  private emitHistoryChanged(): void {
+    this.emit('historyChanged', { canUndo: this.canUndo(), canRedo: this.canRedo() });
+  }
+
+  /**
+   * Apply a store action to the annotations
+   */
+  private applyAction(action: StoreAction): void {
     switch (action.type) {
       case 'CREATE': {
-        this.annotations.set(action.annotation.id, action.annotation);
-        this.emit('create', { type: 'create', annotation: action.annotation });
+        const annotation = structuredClone(action.annotation);
+        this.annotations.set(annotation.id, annotation);
+        this.emit('create', { type: 'create', annotation });
         break;
       }
 
       case 'UPDATE': {
         const annotation = this.annotations.get(action.id);
         if (annotation) {
-          const updated = { ...annotation, ...action.changes };
+          const changes = structuredClone(action.changes);
+          const updated = { ...annotation, ...changes };
           this.annotations.set(action.id, updated);
-          this.emit('update', { type: 'update', id: action.id, changes: action.changes });
+          this.emit('update', { type: 'update', id: action.id, changes });
         }
         break;
       }
@@ -220,13 +314,11 @@ export class AnnotationStore extends EventEmitter {
         this.emit('clear', { type: 'clear' });
         break;
       }
-    }
 
-    if (!this.batchOperation) {
-      this.undoStack.push(action);
-      this.redoStack = [];
-    } else {
-      this.batchActions.push(action);
+      case 'BATCH': {
+        action.actions.forEach(batched => this.applyAction(batched));
+        break;
+      }
     }
   }
 
@@ -236,25 +328,22 @@ export class AnnotationStore extends EventEmitter {
   private executeReverseAction(action: StoreAction): void {
     switch (action.type) {
       case 'CREATE': {
-        this.annotations.delete(action.annotation.id);
-        this.emit('delete', { 
-          type: 'delete', 
-          id: action.annotation.id, 
-          annotation: action.annotation 
-        });
+        const annotation = this.annotations.get(action.annotation.id);
+        if (annotation) {
+          this.annotations.delete(annotation.id);
+          this.emit('delete', { 
+            type: 'delete', 
+            id: annotation.id, 
+            annotation 
+          });
+        }
         break;
       }
 
       case 'UPDATE': {
         const annotation = this.annotations.get(action.id);
         if (annotation) {
-          const original: Partial<Annotation> = {};
-          for (const key in action.changes) {
-            if (Object.prototype.hasOwnProperty.call(action.changes, key)) {
-              original[key as keyof Annotation] = annotation[key as keyof Annotation] as any;
-            }
-          }
-          
+          const original = structuredClone(action.previous);
           const updated = { ...annotation, ...original };
           this.annotations.set(action.id, updated);
           this.emit('update', { type: 'update', id: action.id, changes: original });
@@ -263,8 +352,9 @@ export class AnnotationStore extends EventEmitter {
       }
 
       case 'DELETE': {
-        this.annotations.set(action.id, action.annotation);
-        this.emit('create', { type: 'create', annotation: action.annotation });
+        const annotation = structuredClone(action.annotation);
+        this.annotations.set(action.id, annotation);
+        this.emit('create', { type: 'create', annotation });
         break;
       }
 
@@ -292,7 +382,16 @@ export class AnnotationStore extends EventEmitter {
       }
 
       case 'CLEAR': {
-        // Cannot undo clear
+        action.annotations.forEach(annotation => {
+          const restored = structuredClone(annotation);
+          this.annotations.set(restored.id, restored);
+          this.emit('create', { type: 'create', annotation: restored });
+        });
+        break;
+      }
+
+      case 'BATCH': {
+        [...action.actions].reverse().forEach(batched => this.executeReverseAction(batched));
         break;
       }
     }
@@ -0,0 +1,133 @@
+import { Annotation, AnnotationBody } from '../types/annotation.types';
+import { COCOAnnotation, COCODataset } from '../types/coco.types';
+import { Geometry } from '../types/shape.types';
+import { COCOSerializer } from './COCOSerializer';
+
+const IMAGE = { fileName: 'image.jpg', width: 100, height: 100 };
+
+function annotation(id: string, geometry: Geometry, body: AnnotationBody[]): Annotation {
+  return {
+    id,
+    type: 'Annotation',
+    body,
+    target: {
+      source: 'image.jpg',
+      selector: { type: 'SvgSelector', geometry },
+    },
+  };
+}
+
+function classification(label: string, confidence?: number): AnnotationBody {
+  const value: { id: string; label: string; confidence?: number } = { id: label, label };
+  if (confidence !== undefined) value.confidence = confidence;
+  return { type: 'Classification', purpose: 'classifying', value };
+}
+
+function dataset(annotations: Partial<COCOAnnotation>[]): COCODataset {
+  return {
+    images: [{ id: 1, file_name: 'image.jpg', width: 100, height: 100 }],
+    categories: [{ id: 1, name: 'cat' }],
+    annotations: annotations.map((item, index) => ({
+      id: index + 1,
+      image_id: 1,
+      category_id: 1,
+      bbox: [0, 0, 0, 0],
+      segmentation: [],
+      area: 0,
+      iscrowd: 0,
+      ...item,
+    })),
+  };
+}
+
+describe('COCOSerializer', () => {
+  describe('export', () => {
+    it('writes area shapes with category, bbox, segmentation and score', () => {
+      const result = COCOSerializer.serialize(
+        [
+          annotation('a', { type: 'rectangle', x: 10, y: 20, width: 30, height: 40 }, [classification('cat', 0.9)]),
+          annotation('b', {
+            type: 'freehand',
+            points: [{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 10, y: 10 }],
+          }, [{ type: 'TextualBody', purpose: 'tagging', value: 'dog' }]),
+        ],
+        IMAGE
+      );
+
+      expect(result.categories).toEqual([{ id: 1, name: 'cat' }, { id: 2, name: 'dog' }]);
+      expect(result.annotations[0]).toEqual(jasmine.objectContaining({
+        category_id: 1,
+        bbox: [10, 20, 30, 40],
+        segmentation: [[10, 20, 40, 20, 40, 60, 10, 60]],
+        area: 1200,
+        score: 0.9,
+      }));
+      expect(result.annotations[1]).toEqual(jasmine.objectContaining({
+        category_id: 2,
+        segmentation: [[0, 0, 10, 0, 10, 10]],
+        area: 50,
+      }));
+    });
+
+    it('skips lines, points and unlabeled shapes', () => {
+      const result = COCOSerializer.serialize(
+        [
+          annotation('a', { type: 'point', x: 1, y: 1 }, [classification('cat')]),
+          annotation('b', { type: 'rectangle', x: 0, y: 0, width: 5, height: 5 }, []),
+        ],
+        IMAGE
+      );
+
+      expect(result.annotations).toEqual([]);
+    });
+  });
+
+  describe('import', () => {
+    it('round-trips boxes and polygons with their classification', () => {
+      const exported = COCOSerializer.serialize(
+        [
+          annotation('a', { type: 'rectangle', x: 10, y: 20, width: 30, height: 40 }, [classification('cat', 0.9)]),
+          annotation('b', {
+            type: 'polygon',
+            points: [{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 5, y: 10 }],
+          }, [classification('cat')]),
+        ],
+        IMAGE
+      );
+      const [box, polygon] = COCOSerializer.parse(exported, { source: 'image.jpg' });
+
+      expect(box.target.selector.geometry).toEqual({ type: 'rectangle', x: 10, y: 20, width: 30, height: 40 });
+      expect(box.body).toEqual([
+        { type: 'Classification', purpose: 'classifying', value: { id: '1', label: 'cat', confidence: 0.9 } },
+      ]);
+      expect(polygon.target.selector.geometry).toEqual({
+        type: 'polygon',
+        points: [{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 5, y: 10 }],
+      });
+      expect(polygon.target.source).toBe('image.jpg');
+    });
+
+    it('skips crowd regions instead of importing their boxes', () => {
+      const warn = spyOn(console, 'warn');
+      const parsed = COCOSerializer.parse(dataset([
+        { iscrowd: 1, bbox: [0, 0, 50, 50], segmentation: { counts: [0, 10, 90], size: [10, 10] } },
+        { iscrowd: 0, bbox: [5, 5, 10, 10], segmentation: [] },
+      ]));
+
+      expect(parsed.length).toBe(1);
+      expect(warn).toHaveBeenCalledTimes(1);
+      expect(parsed[0].target.selector.geometry).toEqual({ type: 'rectangle', x: 5, y: 5, width: 10, height: 10 });
+    });
+
+    it('keeps the largest part of multi-part objects', () => {
+      const [parsed] = COCOSerializer.parse(dataset([
+        { segmentation: [[0, 0, 2, 0, 1, 2], [0, 0, 20, 0, 10, 20]] },
+      ]));
+
+      expect(parsed.target.selector.geometry).toEqual({
+        type: 'polygon',
+        points: [{ x: 0, y: 0 }, { x: 20, y: 0 }, { x: 10, y: 20 }],
+      });
+    });
+  });
+});
@@ -0,0 +1,219 @@
+import { v4 as uuid } from 'uuid';
+import { Annotation, AnnotationBody, ClassificationBody } from '../types/annotation.types';
+import { Geometry, Point } from '../types/shape.types';
+import {
+  COCOAnnotation,
+  COCOCategory,
+  COCODataset,
+  DatasetImageInfo,
+} from '../types/coco.types';
+import { GeometryUtils } from '../utils/GeometryUtils';
+import { SVGUtils } from '../utils/SVGUtils';
+
+export interface DatasetExportOptions {
+  /** Fixed category order; ids are assigned 1..n in this order */
+  categories?: string[];
+  /** Category for annotations without a tagging/classifying body. Unlabeled annotations are skipped when unset. */
+  defaultCategory?: string;
+}
+
+export interface COCOImportOptions {
+  /** Image whose annotations are imported (default: the first image) */
+  imageId?: number;
+  /** Target source set on the imported annotations */
+  source?: string;
+}
+
+/**
+ * Exports annotations as a COCO dataset and imports COCO annotations,
+ * e.g. model pre-labels, for correction.
+ *
+ * Only area shapes are exported: rectangles (including rotated ones),
+ * polygons and freehand outlines. The category is taken from the first
+ * `classifying` body, falling back to the first `tagging` body.
+ */
+export class COCOSerializer {
+  static serialize(
+    annotations: Annotation[],
+    image: DatasetImageInfo,
+    options: DatasetExportOptions = {}
+  ): COCODataset {
+    const categories: COCOCategory[] = (options.categories || []).map((name, index) => ({ id: index + 1, name }));
+    const categoryId = (name: string): number => {
+      let category = categories.find(c => c.name === name);
+      if (!category) {
+        category = { id: categories.length + 1, name };
+        categories.push(category);
+      }
+      return category.id;
+    };
+
+    const cocoAnnotations: COCOAnnotation[] = [];
+
+    annotations.forEach(annotation => {
+      const outline = COCOSerializer.getOutline(annotation.target.selector.geometry);
+      const category = COCOSerializer.getCategory(annotation) ?? options.defaultCategory;
+      if (!outline || !category) return;
+
+      const xs = outline.map(p => p.x);
+      const ys = outline.map(p => p.y);
+      const x = Math.min(...xs);
+      const y = Math.min(...ys);
+
+      const cocoAnnotation: COCOAnnotation = {
+        id: cocoAnnotations.length + 1,
+        image_id: 1,
+        category_id: categoryId(category),
+        bbox: [x, y, Math.max(...xs) - x, Math.max(...ys) - y],
+        segmentation: [outline.flatMap(p => [p.x, p.y])],
+        area: GeometryUtils.polygonArea(outline),
+        iscrowd: 0,
+      };
+
+      const confidence = COCOSerializer.getClassification(annotation)?.value.confidence;
+      if (confidence !== undefined) cocoAnnotation.score = confidence;
+
+      cocoAnnotations.push(cocoAnnotation);
+    });
+
+    return {
+      info: { date_created: new Date().toISOString() },
+      images: [{ id: 1, file_name: image.fileName, width: image.width, height: image.height }],
+      annotations: cocoAnnotations,
+      categories,
+    };
+  }
+
+  /**
+   * Convert the annotations of one image to annotations with a
+   * `classifying` body per category. Crowd regions (RLE masks) are skipped;
+   * annotations without a segmentation come in as their bbox rectangle.
+   */
+  static parse(dataset: COCODataset, options: COCOImportOptions = {}): Annotation[] {
+    const imageId = options.imageId ?? dataset.images[0]?.id;
+    const categories = new Map(dataset.categories.map(c => [c.id, c]));
+
+    return dataset.annotations.reduce<Annotation[]>((result, item) => {
+      if (item.image_id !== imageId) return result;
+
+      const geometry = COCOSerializer.toGeometry(item);
+      if (!geometry) {
+        console.warn('Skipping COCO annotation with unsupported segmentation:', item.id);
+        return result;
+      }
+
+      const category = categories.get(item.category_id);
+      const body: ClassificationBody = {
+        type: 'Classification',
+        purpose: 'classifying',
+        value: {
+          id: String(item.category_id),
+          label: category?.name ?? String(item.category_id),
+        },
+      };
+      if (item.score !== undefined) body.value.confidence = item.score;
+
+      result.push({
+        id: uuid(),
+        type: 'Annotation',
+        body: [body],
+        target: {
+          source: options.source || '',
+          selector: { type: 'SvgSelector', geometry },
+        },
+      });
+      return result;
+    }, []);
+  }
+
+  /**
+   * Outline of an area shape in image coordinates, or null for other geometries
+   */
+  static getOutline(geometry: Geometry): Point[] | null {
+    switch (geometry.type) {
+      case 'rectangle': {
+        const center = { x: geometry.x + geometry.width / 2, y: geometry.y + geometry.height / 2 };
+        return [
+          { x: geometry.x, y: geometry.y },
+          { x: geometry.x + geometry.width, y: geometry.y },
+          { x: geometry.x + geometry.width, y: geometry.y + geometry.height },
+          { x: geometry.x, y: geometry.y + geometry.height },
+        ].map(corner => SVGUtils.rotatePoint(corner, center, geometry.rotation || 0));
+      }
+      case 'polygon':
+      case 'freehand':
+        return geometry.points.length >= 3 ? geometry.points.map(p => ({ ...p })) : null;
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Category name from the first classifying body, else the first tag
+   */
+  static getCategory(annotation: Annotation): string | undefined {
+    const classification = COCOSerializer.getClassification(annotation);
+    if (classification) {
+      return typeof classification.value === 'string'
+        ? classification.value
+        : classification.value.label;
+    }
+
+    const tag = annotation.body.find((body: AnnotationBody) => body.purpose === 'tagging');
+    return typeof tag?.value === 'string' ? tag.value : undefined;
+  }
+
+  private static getClassification(annotation: Annotation): ClassificationBody | undefined {
+    return annotation.body.find(
+      (body: AnnotationBody) => body.purpose === 'classifying'
+    ) as ClassificationBody | undefined;
+  }
+
+  private static toGeometry(item: COCOAnnotation): Geometry | null {
+    // Crowd regions are RLE masks, their bbox would not outline the objects
+    if (item.iscrowd === 1 || (item.segmentation && !Array.isArray(item.segmentation))) {
+      return null;
+    }
+
+    const polygons = Array.isArray(item.segmentation)
+      ? item.segmentation.filter(polygon => Array.isArray(polygon) && polygon.length >= 6)
+      : [];
+
+    if (polygons.length === 0) {
+      if (!item.bbox) return null;
+      const [x, y, width, height] = item.bbox;
+      return { type: 'rectangle', x, y, width, height };
+    }
+
+    // Multi-part objects keep their largest part
+    const points = polygons
+      .map(polygon => {
+        const pts: Point[] = [];
+        for (let i = 0; i + 1 < polygon.length; i += 2) {
+          pts.push({ x: polygon[i], y: polygon[i + 1] });
+        }
+        return pts;
+      })
+      .reduce((largest, pts) =>
+        GeometryUtils.polygonArea(pts) > GeometryUtils.polygonArea(largest) ? pts : largest
+      );
+
+    if (COCOSerializer.isAxisAlignedBox(points)) {
+      const xs = points.map(p => p.x);
+      const ys = points.map(p => p.y);
+      const x = Math.min(...xs);
+      const y = Math.min(...ys);
+      return { type: 'rectangle', x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+    }
+
+    return { type: 'polygon', points };
+  }
+
+  private static isAxisAlignedBox(points: Point[]): boolean {
+    if (points.length !== 4) return false;
+    return points.every((p, i) => {
+      const next = points[(i + 1) % 4];
+      return p.x === next.x || p.y === next.y;
+    });
+  }
+}
@@ -0,0 +1,80 @@
+import { Annotation } from '../types/annotation.types';
+import { Geometry } from '../types/shape.types';
+import { GeoJSONSerializer } from './GeoJSONSerializer';
+
+function annotation(geometry: Geometry): Annotation {
+  return {
+    id: 'a1',
+    type: 'Annotation',
+    body: [{ type: 'TextualBody', purpose: 'tagging', value: 'tree' }],
+    target: {
+      source: 'image.jpg',
+      selector: { type: 'SvgSelector', geometry },
+    },
+  };
+}
+
+function roundTrip(geometry: Geometry): Geometry {
+  const collection = GeoJSONSerializer.serialize([annotation(geometry)]);
+  return GeoJSONSerializer.parse(collection, 'image.jpg')[0].target.selector.geometry;
+}
+
+describe('GeoJSONSerializer', () => {
+  it('exports freehand areas as closed polygons and imports them as freehand', () => {
+    const freehand: Geometry = {
+      type: 'freehand',
+      points: [{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 10, y: 10 }],
+      smoothing: 0.5,
+    };
+    const feature = GeoJSONSerializer.serializeAnnotation(annotation(freehand));
+
+    expect(feature.geometry).toEqual({
+      type: 'Polygon',
+      coordinates: [[[0, 0], [10, 0], [10, 10], [0, 0]]],
+    });
+    expect(feature.properties).toEqual(jasmine.objectContaining({ geometryType: 'freehand', smoothing: 0.5 }));
+    expect(roundTrip(freehand)).toEqual(freehand);
+  });
+
+  it('keeps two-point freehand strokes as line strings', () => {
+    const freehand: Geometry = { type: 'freehand', points: [{ x: 0, y: 0 }, { x: 10, y: 5 }] };
+
+    expect(GeoJSONSerializer.serializeAnnotation(annotation(freehand)).geometry.type).toBe('LineString');
+    expect(roundTrip(freehand)).toEqual(freehand);
+  });
+
+  it('restores rotated rectangles from their corner polygon', () => {
+    const rectangle: Geometry = { type: 'rectangle', x: 10, y: 20, width: 40, height: 20, rotation: 90 };
+    const restored = roundTrip(rectangle);
+
+    expect(restored.type).toBe('rectangle');
+    if (restored.type !== 'rectangle') return;
+    expect(restored.x).toBeCloseTo(10);
+    expect(restored.y).toBeCloseTo(20);
+    expect(restored.width).toBeCloseTo(40);
+    expect(restored.height).toBeCloseTo(20);
+    expect(restored.rotation).toBe(90);
+  });
+
+  it('keeps bodies and the source through a round trip', () => {
+    const collection = GeoJSONSerializer.serialize([annotation({ type: 'point', x: 3, y: 4 })]);
+    const [parsed] = GeoJSONSerializer.parse(collection, 'image.jpg');
+
+    expect(parsed.id).toBe('a1');
+    expect(parsed.body).toEqual(annotation({ type: 'point', x: 3, y: 4 }).body);
+    expect(parsed.target.source).toBe('image.jpg');
+  });
+
+  it('imports polygons from other tools as polygons', () => {
+    const [parsed] = GeoJSONSerializer.parse({
+      type: 'Feature',
+      geometry: { type: 'Polygon', coordinates: [[[0, 0], [10, 0], [10, 10], [0, 0]]] },
+      properties: {},
+    });
+
+    expect(parsed.target.selector.geometry).toEqual({
+      type: 'polygon',
+      points: [{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 10, y: 10 }],
+    });
+  });
+});
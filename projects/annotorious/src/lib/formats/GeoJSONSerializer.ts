@@ -0,0 +1,294 @@
+import { v4 as uuid } from 'uuid';
+import { Annotation } from '../types/annotation.types';
+import { Geometry, Point } from '../types/shape.types';
+import {
+  GeoJSONAnnotationProperties,
+  GeoJSONFeature,
+  GeoJSONFeatureCollection,
+  GeoJSONGeometry,
+  GeoJSONPosition,
+} from '../types/geojson.types';
+import { SVGUtils } from '../utils/SVGUtils';
+
+export interface GeoJSONSerializeOptions {
+  /** Export circles and ellipses as polygons instead of points with radii (default true) */
+  polygonize?: boolean;
+  /** Number of vertices used when polygonizing (default 64) */
+  segments?: number;
+}
+
+/**
+ * Converts annotations to and from GeoJSON in image pixel space.
+ *
+ * Coordinates are `[x, y]` image pixels with y pointing down. Each feature
+ * carries `geometryType` plus the shape parameters GeoJSON cannot express
+ * (radii, rotation, text, arrows), so exports round-trip exactly. Features
+ * without them, e.g. from other tools, are imported as polygons, lines and points.
+ */
+export class GeoJSONSerializer {
+  /**
+   * Serialize annotations to a FeatureCollection
+   */
+  static serialize(annotations: Annotation[], options: GeoJSONSerializeOptions = {}): GeoJSONFeatureCollection {
+    return {
+      type: 'FeatureCollection',
+      features: annotations.map(annotation => GeoJSONSerializer.serializeAnnotation(annotation, options)),
+    };
+  }
+
+  static serializeAnnotation(annotation: Annotation, options: GeoJSONSerializeOptions = {}): GeoJSONFeature {
+    const geometry = annotation.target.selector.geometry;
+    const properties: GeoJSONAnnotationProperties = {
+      geometryType: geometry.type,
+      bodies: structuredClone(annotation.body),
+    };
+
+    if (annotation.label) properties.label = structuredClone(annotation.label);
+    if (annotation.customData) properties.customData = structuredClone(annotation.customData);
+
+    return {
+      type: 'Feature',
+      id: annotation.id,
+      geometry: GeoJSONSerializer.toGeoJSONGeometry(geometry, properties, options),
+      properties,
+    };
+  }
+
+  /**
+   * Parse a FeatureCollection, a single Feature or an array of Features.
+   * Features with unsupported geometries are skipped with a warning.
+   */
+  static parse(input: GeoJSONFeatureCollection | GeoJSONFeature | GeoJSONFeature[], source = ''): Annotation[] {
+    const features = Array.isArray(input)
+      ? input
+      : input.type === 'FeatureCollection' ? input.features : [input];
+
+    return features.reduce<Annotation[]>((result, feature) => {
+      const annotation = GeoJSONSerializer.parseFeature(feature, source);
+      if (annotation) {
+        result.push(annotation);
+      } else {
+        console.warn('Skipping GeoJSON feature with unsupported geometry:', feature.id);
+      }
+      return result;
+    }, []);
+  }
+
+  static parseFeature(feature: GeoJSONFeature, source = ''): Annotation | null {
+    const properties = feature.properties || {};
+    const geometry = GeoJSONSerializer.fromGeoJSONGeometry(feature.geometry, properties);
+    if (!geometry) return null;
+
+    const annotation: Annotation = {
+      id: feature.id !== undefined ? String(feature.id) : uuid(),
+      type: 'Annotation',
+      body: structuredClone(properties.bodies || []),
+      target: {
+        source,
+        selector: { type: 'SvgSelector', geometry },
+      },
+    };
+
+    if (properties.label) annotation.label = structuredClone(properties.label);
+    if (properties.customData) annotation.customData = structuredClone(properties.customData);
+
+    return annotation;
+  }
+
+  /**
+   * Convert a geometry, adding any parameters GeoJSON can't hold to `properties`
+   */
+  private static toGeoJSONGeometry(
+    geometry: Geometry,
+    properties: GeoJSONAnnotationProperties,
+    options: GeoJSONSerializeOptions
+  ): GeoJSONGeometry {
+    const polygonize = options.polygonize ?? true;
+    const segments = Math.max(3, options.segments ?? 64);
+
+    switch (geometry.type) {
+      case 'rectangle': {
+        if (geometry.rotation) properties.rotation = geometry.rotation;
+        const center = { x: geometry.x + geometry.width / 2, y: geometry.y + geometry.height / 2 };
+        const corners = [
+          { x: geometry.x, y: geometry.y },
+          { x: geometry.x + geometry.width, y: geometry.y },
+          { x: geometry.x + geometry.width, y: geometry.y + geometry.height },
+          { x: geometry.x, y: geometry.y + geometry.height },
+        ].map(corner => SVGUtils.rotatePoint(corner, center, geometry.rotation || 0));
+        return { type: 'Polygon', coordinates: [GeoJSONSerializer.toRing(corners)] };
+      }
+      case 'polygon':
+        return { type: 'Polygon', coordinates: [GeoJSONSerializer.toRing(geometry.points)] };
+      case 'circle':
+        properties.radius = geometry.r;
+        return polygonize
+          ? {
+              type: 'Polygon',
+              coordinates: [GeoJSONSerializer.toRing(
+                GeoJSONSerializer.ellipsePoints(geometry.cx, geometry.cy, geometry.r, geometry.r, 0, segments)
+              )],
+            }
+          : { type: 'Point', coordinates: [geometry.cx, geometry.cy] };
+      case 'ellipse':
+        properties.radiusX = geometry.rx;
+        properties.radiusY = geometry.ry;
+        if (geometry.rotation) properties.rotation = geometry.rotation;
+        return polygonize
+          ? {
+              type: 'Polygon',
+              coordinates: [GeoJSONSerializer.toRing(
+                GeoJSONSerializer.ellipsePoints(geometry.cx, geometry.cy, geometry.rx, geometry.ry, geometry.rotation || 0, segments)
+              )],
+            }
+          : { type: 'Point', coordinates: [geometry.cx, geometry.cy] };
+      case 'freehand':
+        if (geometry.smoothing) properties.smoothing = geometry.smoothing;
+        // Freehand shapes are closed areas from three points on, as they are drawn
+        return geometry.points.length >= 3
+          ? { type: 'Polygon', coordinates: [GeoJSONSerializer.toRing(geometry.points)] }
+          : { type: 'LineString', coordinates: geometry.points.map(GeoJSONSerializer.toPosition) };
+      case 'line':
+        return { type: 'LineString', coordinates: geometry.points.map(GeoJSONSerializer.toPosition) };
+      case 'polyline-arrow':
+        properties.arrows = structuredClone(geometry.arrows);
+        return { type: 'LineString', coordinates: geometry.points.map(GeoJSONSerializer.toPosition) };
+      case 'point':
+        return { type: 'Point', coordinates: [geometry.x, geometry.y] };
+      case 'text':
+        properties.text = geometry.text;
+        if (geometry.rotation) properties.rotation = geometry.rotation;
+        return { type: 'Point', coordinates: [geometry.x, geometry.y] };
+    }
+  }
+
+  private static fromGeoJSONGeometry(
+    geometry: GeoJSONGeometry,
+    properties: GeoJSONAnnotationProperties
+  ): Geometry | null {
+    if (!geometry) return null;
+    const rotation = properties.rotation || undefined;
+
+    switch (geometry.type) {
+      case 'Polygon': {
+        const points = GeoJSONSerializer.fromRing(geometry.coordinates[0] || []);
+        if (points.length < 3) return null;
+        const center = GeoJSONSerializer.centroid(points);
+
+        switch (properties.geometryType) {
+          case 'rectangle': {
+            // Undo the rotation to recover the axis-aligned rectangle
+            const local = points.map(p => SVGUtils.rotatePoint(p, center, -(rotation || 0)));
+            const xs = local.map(p => p.x);
+            const ys = local.map(p => p.y);
+            const x = Math.min(...xs);
+            const y = Math.min(...ys);
+            const rect = { type: 'rectangle' as const, x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+            return rotation ? { ...rect, rotation } : rect;
+          }
+          case 'circle':
+            return { type: 'circle', cx: center.x, cy: center.y, r: properties.radius ?? 0 };
+          case 'ellipse': {
+            const ellipse = {
+              type: 'ellipse' as const,
+              cx: center.x,
+              cy: center.y,
+              rx: properties.radiusX ?? 0,
+              ry: properties.radiusY ?? 0,
+            };
+            return rotation ? { ...ellipse, rotation } : ellipse;
+          }
+          case 'freehand':
+            return properties.smoothing
+              ? { type: 'freehand', points, smoothing: properties.smoothing }
+              : { type: 'freehand', points };
+          default:
+            return { type: 'polygon', points };
+        }
+      }
+      case 'LineString': {
+        const points = geometry.coordinates.map(GeoJSONSerializer.fromPosition);
+        if (points.length < 2) return null;
+
+        switch (properties.geometryType) {
+          case 'freehand':
+            return properties.smoothing
+              ? { type: 'freehand', points, smoothing: properties.smoothing }
+              : { type: 'freehand', points };
+          case 'line':
+            return { type: 'line', points: [points[0], points[points.length - 1]] };
+          default:
+            return points.length === 2 && !properties.arrows
+              ? { type: 'line', points: [points[0], points[1]] }
+              : { type: 'polyline-arrow', points, arrows: structuredClone(properties.arrows || []) };
+        }
+      }
+      case 'Point': {
+        const [x, y] = geometry.coordinates;
+
+        switch (properties.geometryType) {
+          case 'circle':
+            return { type: 'circle', cx: x, cy: y, r: properties.radius ?? 0 };
+          case 'ellipse': {
+            const ellipse = { type: 'ellipse' as const, cx: x, cy: y, rx: properties.radiusX ?? 0, ry: properties.radiusY ?? 0 };
+            return rotation ? { ...ellipse, rotation } : ellipse;
+          }
+          case 'text': {
+            const text = { type: 'text' as const, x, y, text: properties.text || '' };
+            return rotation ? { ...text, rotation } : text;
+          }
+          default:
+            return { type: 'point', x, y };
+        }
+      }
+      default:
+        return null;
+    }
+  }
+
+  private static ellipsePoints(cx: number, cy: number, rx: number, ry: number, rotation: number, segments: number): Point[] {
+    const center = { x: cx, y: cy };
+    const points: Point[] = [];
+    for (let i = 0; i < segments; i++) {
+      const angle = (2 * Math.PI * i) / segments;
+      points.push(SVGUtils.rotatePoint(
+        { x: cx + rx * Math.cos(angle), y: cy + ry * Math.sin(angle) },
+        center,
+        rotation
+      ));
+    }
+    return points;
+  }
+
+  private static centroid(points: Point[]): Point {
+    const sum = points.reduce((acc, p) => ({ x: acc.x + p.x, y: acc.y + p.y }), { x: 0, y: 0 });
+    return { x: sum.x / points.length, y: sum.y / points.length };
+  }
+
+  /**
+   * GeoJSON rings repeat the first position at the end
+   */
+  private static toRing(points: Point[]): GeoJSONPosition[] {
+    const ring = points.map(GeoJSONSerializer.toPosition);
+    if (ring.length > 0) ring.push([...ring[0]] as GeoJSONPosition);
+    return ring;
+  }
+
+  private static fromRing(ring: GeoJSONPosition[]): Point[] {
+    const points = ring.map(GeoJSONSerializer.fromPosition);
+    const first = points[0];
+    const last = points[points.length - 1];
+    if (points.length > 1 && first.x === last.x && first.y === last.y) {
+      points.pop();
+    }
+    return points;
+  }
+
+  private static toPosition(point: Point): GeoJSONPosition {
+    return [point.x, point.y];
+  }
+
+  private static fromPosition(position: GeoJSONPosition): Point {
+    return { x: position[0], y: position[1] };
+  }
+}
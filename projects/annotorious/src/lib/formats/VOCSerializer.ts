@@ -0,0 +1,72 @@
+import { Annotation } from '../types/annotation.types';
+import { DatasetImageInfo } from '../types/coco.types';
+import { COCOSerializer, DatasetExportOptions } from './COCOSerializer';
+
+/**
+ * Exports annotations as a Pascal VOC XML document.
+ *
+ * VOC only stores bounding boxes, so every area shape supported by the COCO
+ * exporter is written as its axis-aligned box, rounded to whole pixels and
+ * clamped to the image.
+ */
+export class VOCSerializer {
+  static serialize(
+    annotations: Annotation[],
+    image: DatasetImageInfo,
+    options: DatasetExportOptions = {}
+  ): string {
+    const objects = annotations.reduce<string[]>((result, annotation) => {
+      const outline = COCOSerializer.getOutline(annotation.target.selector.geometry);
+      const category = COCOSerializer.getCategory(annotation) ?? options.defaultCategory;
+      if (!outline || !category) return result;
+
+      const clampX = (value: number) => Math.min(Math.max(Math.round(value), 0), image.width);
+      const clampY = (value: number) => Math.min(Math.max(Math.round(value), 0), image.height);
+      const xs = outline.map(p => p.x);
+      const ys = outline.map(p => p.y);
+      const xmin = Math.min(...xs);
+      const ymin = Math.min(...ys);
+      const xmax = Math.max(...xs);
+      const ymax = Math.max(...ys);
+      const truncated = xmin < 0 || ymin < 0 || xmax > image.width || ymax > image.height;
+
+      result.push([
+        '  <object>',
+        `    <name>${VOCSerializer.escape(category)}</name>`,
+        '    <pose>Unspecified</pose>',
+        `    <truncated>${truncated ? 1 : 0}</truncated>`,
+        '    <difficult>0</difficult>',
+        '    <bndbox>',
+        `      <xmin>${clampX(xmin)}</xmin>`,
+        `      <ymin>${clampY(ymin)}</ymin>`,
+        `      <xmax>${clampX(xmax)}</xmax>`,
+        `      <ymax>${clampY(ymax)}</ymax>`,
+        '    </bndbox>',
+        '  </object>',
+      ].join('\n'));
+      return result;
+    }, []);
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<annotation>',
+      `  <filename>${VOCSerializer.escape(image.fileName)}</filename>`,
+      '  <size>',
+      `    <width>${image.width}</width>`,
+      `    <height>${image.height}</height>`,
+      '    <depth>3</depth>',
+      '  </size>',
+      '  <segmented>0</segmented>',
+      ...objects,
+      '</annotation>',
+      '',
+    ].join('\n');
+  }
+
+  private static escape(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;');
+  }
+}
@@ -0,0 +1,121 @@
+import { Annotation, AnnotationBody } from '../types/annotation.types';
+import { Geometry } from '../types/shape.types';
+import { W3CSerializer } from './W3CSerializer';
+
+function annotation(geometry: Geometry, body: AnnotationBody[] = []): Annotation {
+  return {
+    id: 'a1',
+    type: 'Annotation',
+    body,
+    target: {
+      source: 'image.jpg',
+      selector: { type: 'SvgSelector', geometry },
+    },
+  };
+}
+
+function roundTrip(source: Annotation): Annotation {
+  const [parsed] = W3CSerializer.parse(W3CSerializer.serialize([source]));
+  return parsed;
+}
+
+describe('W3CSerializer', () => {
+  describe('bodies', () => {
+    it('keeps class id and confidence of classification bodies', () => {
+      const body: AnnotationBody = {
+        type: 'Classification',
+        purpose: 'classifying',
+        value: { id: 'c7', label: 'Cat', confidence: 0.83 },
+      };
+
+      const [exported] = W3CSerializer.serialize([annotation({ type: 'point', x: 1, y: 2 }, [body])]);
+      expect(exported.body[0]).toEqual(
+        jasmine.objectContaining({ type: 'TextualBody', value: 'Cat', classId: 'c7', confidence: 0.83 })
+      );
+
+      expect(roundTrip(annotation({ type: 'point', x: 1, y: 2 }, [body])).body).toEqual([body]);
+    });
+
+    it('uses the label as class id when there is no separate one', () => {
+      const body: AnnotationBody = {
+        type: 'Classification',
+        purpose: 'classifying',
+        value: { id: 'Cat', label: 'Cat' },
+      };
+
+      const [exported] = W3CSerializer.serialize([annotation({ type: 'point', x: 1, y: 2 }, [body])]);
+      expect(exported.body[0].classId).toBeUndefined();
+      expect(roundTrip(annotation({ type: 'point', x: 1, y: 2 }, [body])).body).toEqual([body]);
+    });
+  });
+
+  describe('geometries', () => {
+    it('writes unrotated rectangles as a pixel fragment', () => {
+      const rectangle: Geometry = { type: 'rectangle', x: 10, y: 20, width: 30, height: 40 };
+      const [exported] = W3CSerializer.serialize([annotation(rectangle)]);
+
+      expect(exported.target.selector).toEqual(
+        jasmine.objectContaining({ type: 'FragmentSelector', value: 'xywh=pixel:10,20,30,40' })
+      );
+      expect(roundTrip(annotation(rectangle)).target.selector.geometry).toEqual(rectangle);
+    });
+
+    it('closes freehand areas and reads them back as freehand', () => {
+      const freehand: Geometry = {
+        type: 'freehand',
+        points: [{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 10, y: 10 }],
+        smoothing: 0.5,
+      };
+      const [exported] = W3CSerializer.serialize([annotation(freehand)]);
+
+      expect(exported.target.selector).toEqual(
+        jasmine.objectContaining({ type: 'SvgSelector', value: jasmine.stringMatching(/d="M0,0 L10,0 L10,10 Z"/) })
+      );
+      expect(roundTrip(annotation(freehand)).target.selector.geometry).toEqual(freehand);
+    });
+
+    it('leaves two-point freehand strokes open', () => {
+      const freehand: Geometry = { type: 'freehand', points: [{ x: 0, y: 0 }, { x: 10, y: 5 }] };
+      const [exported] = W3CSerializer.serialize([annotation(freehand)]);
+
+      expect(exported.target.selector).toEqual(
+        jasmine.objectContaining({ value: jasmine.stringMatching(/d="M0,0 L10,5"/) })
+      );
+      expect(roundTrip(annotation(freehand)).target.selector.geometry).toEqual(freehand);
+    });
+
+    it('imports closed paths from other tools as polygons', () => {
+      const [parsed] = W3CSerializer.parse({
+        '@context': 'http://www.w3.org/ns/anno.jsonld',
+        id: 'urn:uuid:b2',
+        type: 'Annotation',
+        body: [],
+        target: {
+          source: 'image.jpg',
+          selector: {
+            type: 'SvgSelector',
+            value: '<svg xmlns="http://www.w3.org/2000/svg"><path d="M0,0 L10,0 L10,10 Z"/></svg>',
+          },
+        },
+      });
+
+      expect(parsed.id).toBe('b2');
+      expect(parsed.target.selector.geometry).toEqual({
+        type: 'polygon',
+        points: [{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 10, y: 10 }],
+      });
+    });
+
+    it('keeps rotation and polyline arrows', () => {
+      const ellipse: Geometry = { type: 'ellipse', cx: 50, cy: 50, rx: 20, ry: 10, rotation: 30 };
+      const arrow: Geometry = {
+        type: 'polyline-arrow',
+        points: [{ x: 0, y: 0 }, { x: 5, y: 5 }, { x: 10, y: 0 }],
+        arrows: [{ startIndex: 0, endIndex: 1, direction: 'up' }],
+      };
+
+      expect(roundTrip(annotation(ellipse)).target.selector.geometry).toEqual(ellipse);
+      expect(roundTrip(annotation(arrow)).target.selector.geometry).toEqual(arrow);
+    });
+  });
+});
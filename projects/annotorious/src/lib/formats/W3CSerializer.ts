@@ -0,0 +1,331 @@
+import { v4 as uuid } from 'uuid';
+import { Annotation, AnnotationBody, BodyPurpose } from '../types/annotation.types';
+import { Geometry, Point } from '../types/shape.types';
+import {
+  W3CAnnotation,
+  W3CBody,
+  W3CSelector,
+  W3C_ANNOTATION_CONTEXT,
+} from '../types/w3c.types';
+import { SVG_NAMESPACE } from '../utils/SVGUtils';
+
+export interface W3CSerializeOptions {
+  /** Target source used when an annotation has none */
+  source?: string;
+}
+
+const MEDIA_FRAGMENTS = 'http://www.w3.org/TR/media-frags/';
+
+/**
+ * Converts annotations to and from the W3C Web Annotation JSON-LD format.
+ *
+ * Unrotated rectangles are written as a `FragmentSelector` (`xywh=pixel:`),
+ * every other geometry as an `SvgSelector` holding SVG markup. Display-only
+ * fields (label, style, customData) have no W3C equivalent and are not exported.
+ */
+export class W3CSerializer {
+  /**
+   * Serialize annotations to W3C JSON-LD
+   */
+  static serialize(annotations: Annotation[], options: W3CSerializeOptions = {}): W3CAnnotation[] {
+    return annotations.map(annotation => W3CSerializer.serializeAnnotation(annotation, options));
+  }
+
+  static serializeAnnotation(annotation: Annotation, options: W3CSerializeOptions = {}): W3CAnnotation {
+    const result: W3CAnnotation = {
+      '@context': W3C_ANNOTATION_CONTEXT,
+      id: W3CSerializer.toIri(annotation.id),
+      type: 'Annotation',
+      body: annotation.body.map(body => W3CSerializer.serializeBody(body)),
+      target: {
+        source: annotation.target.source || options.source || '',
+        selector: W3CSerializer.toSelector(annotation.target.selector.geometry),
+      },
+    };
+
+    if (annotation.created) result.created = annotation.created;
+    if (annotation.modified) result.modified = annotation.modified;
+    if (annotation.creator) result.creator = { ...annotation.creator };
+
+    return result;
+  }
+
+  /**
+   * Parse W3C JSON-LD into annotations. Accepts a single annotation, an array
+   * or an AnnotationPage (`items`). Annotations with unsupported selectors are
+   * skipped with a warning.
+   */
+  static parse(input: W3CAnnotation | W3CAnnotation[] | { items: W3CAnnotation[] }): Annotation[] {
+    const items = Array.isArray(input)
+      ? input
+      : 'items' in input ? input.items : [input];
+
+    return items.reduce<Annotation[]>((result, item) => {
+      const annotation = W3CSerializer.parseAnnotation(item);
+      if (annotation) {
+        result.push(annotation);
+      } else {
+        console.warn('Skipping W3C annotation with unsupported target:', item.id);
+      }
+      return result;
+    }, []);
+  }
+
+  static parseAnnotation(item: W3CAnnotation): Annotation | null {
+    const selectors = Array.isArray(item.target?.selector)
+      ? item.target.selector
+      : item.target?.selector ? [item.target.selector] : [];
+
+    // Selectors in an array are alternatives, take the first one we understand
+    let geometry: Geometry | null = null;
+    for (const selector of selectors) {
+      geometry = W3CSerializer.fromSelector(selector);
+      if (geometry) break;
+    }
+    if (!geometry) return null;
+
+    const bodies = item.body === undefined ? [] : Array.isArray(item.body) ? item.body : [item.body];
+
+    const annotation: Annotation = {
+      id: W3CSerializer.fromIri(item.id),
+      type: 'Annotation',
+      body: bodies.map(body => W3CSerializer.parseBody(body)),
+      target: {
+        source: item.target.source,
+        selector: { type: 'SvgSelector', geometry },
+      },
+    };
+
+    if (item.created) annotation.created = item.created;
+    if (item.modified) annotation.modified = item.modified;
+    if (item.creator) annotation.creator = { id: item.creator.id, name: item.creator.name };
+
+    return annotation;
+  }
+
+  /**
+   * Build the target selector for a geometry
+   */
+  static toSelector(geometry: Geometry): W3CSelector {
+    if (geometry.type === 'rectangle' && !geometry.rotation) {
+      return {
+        type: 'FragmentSelector',
+        conformsTo: MEDIA_FRAGMENTS,
+        value: `xywh=pixel:${geometry.x},${geometry.y},${geometry.width},${geometry.height}`,
+      };
+    }
+
+    return {
+      type: 'SvgSelector',
+      value: `<svg xmlns="${SVG_NAMESPACE}">${W3CSerializer.toSvgMarkup(geometry)}</svg>`,
+    };
+  }
+
+  /**
+   * Parse a selector back into a geometry, or null when not supported
+   */
+  static fromSelector(selector: W3CSelector): Geometry | null {
+    if (selector.type === 'FragmentSelector') {
+      return W3CSerializer.parseFragment(selector.value);
+    }
+    if (selector.type === 'SvgSelector') {
+      return W3CSerializer.parseSvg(selector.value);
+    }
+    return null;
+  }
+
+  private static toSvgMarkup(geometry: Geometry): string {
+    const points = (pts: Point[]) => pts.map(p => `${p.x},${p.y}`).join(' ');
+    const rotate = (angle: number | undefined, cx: number, cy: number) =>
+      angle ? ` transform="rotate(${angle} ${cx} ${cy})"` : '';
+
+    switch (geometry.type) {
+      case 'rectangle':
+        return `<rect x="${geometry.x}" y="${geometry.y}" width="${geometry.width}" height="${geometry.height}"` +
+          `${rotate(geometry.rotation, geometry.x + geometry.width / 2, geometry.y + geometry.height / 2)}/>`;
+      case 'polygon':
+        return `<polygon points="${points(geometry.points)}"/>`;
+      case 'circle':
+        return `<circle cx="${geometry.cx}" cy="${geometry.cy}" r="${geometry.r}"/>`;
+      case 'ellipse':
+        return `<ellipse cx="${geometry.cx}" cy="${geometry.cy}" rx="${geometry.rx}" ry="${geometry.ry}"` +
+          `${rotate(geometry.rotation, geometry.cx, geometry.cy)}/>`;
+      case 'freehand': {
+        // Closed from three points on, as drawn; the type attribute keeps
+        // the import from turning the area into a polygon
+        const d = geometry.points.map((p, i) => `${i === 0 ? 'M' : 'L'}${p.x},${p.y}`).join(' ');
+        return `<path d="${geometry.points.length >= 3 ? `${d} Z` : d}" data-geometry-type="freehand"` +
+          `${geometry.smoothing ? ` data-smoothing="${geometry.smoothing}"` : ''}/>`;
+      }
+      case 'polyline-arrow':
+        return `<polyline points="${points(geometry.points)}"` +
+          ` data-arrows="${W3CSerializer.escape(JSON.stringify(geometry.arrows))}"/>`;
+      case 'line':
+        return `<line x1="${geometry.points[0].x}" y1="${geometry.points[0].y}"` +
+          ` x2="${geometry.points[1].x}" y2="${geometry.points[1].y}"/>`;
+      case 'text':
+        return `<text x="${geometry.x}" y="${geometry.y}"${rotate(geometry.rotation, geometry.x, geometry.y)}>` +
+          `${W3CSerializer.escape(geometry.text)}</text>`;
+      case 'point':
+        // SVG has no point primitive, a zero-radius circle marks the location
+        return `<circle cx="${geometry.x}" cy="${geometry.y}" r="0"/>`;
+    }
+  }
+
+  private static parseFragment(value: string): Geometry | null {
+    const match = value.match(/^xywh=(?:pixel:)?([^,]+),([^,]+),([^,]+),([^,]+)$/);
+    if (!match) return null; // percent: needs the image size, not supported
+
+    const [x, y, width, height] = match.slice(1).map(Number);
+    if ([x, y, width, height].some(isNaN)) return null;
+
+    return { type: 'rectangle', x, y, width, height };
+  }
+
+  private static parseSvg(markup: string): Geometry | null {
+    const doc = new DOMParser().parseFromString(markup, 'image/svg+xml');
+    if (doc.getElementsByTagName('parsererror').length > 0) return null;
+
+    const element = doc.documentElement.localName === 'svg'
+      ? doc.documentElement.querySelector('rect, polygon, circle, ellipse, path, polyline, line, text')
+      : doc.documentElement;
+    if (!element) return null;
+
+    const num = (name: string) => parseFloat(element.getAttribute(name) || '0');
+    const rotation = W3CSerializer.parseRotation(element.getAttribute('transform'));
+
+    switch (element.localName) {
+      case 'rect': {
+        const rect = { type: 'rectangle' as const, x: num('x'), y: num('y'), width: num('width'), height: num('height') };
+        return rotation ? { ...rect, rotation } : rect;
+      }
+      case 'polygon':
+        return { type: 'polygon', points: W3CSerializer.parsePoints(element.getAttribute('points')) };
+      case 'circle':
+        return num('r') === 0
+          ? { type: 'point', x: num('cx'), y: num('cy') }
+          : { type: 'circle', cx: num('cx'), cy: num('cy'), r: num('r') };
+      case 'ellipse': {
+        const ellipse = { type: 'ellipse' as const, cx: num('cx'), cy: num('cy'), rx: num('rx'), ry: num('ry') };
+        return rotation ? { ...ellipse, rotation } : ellipse;
+      }
+      case 'path': {
+        const d = element.getAttribute('d') || '';
+        const points = W3CSerializer.parsePoints(d);
+        // A closed path is a polygon unless marked freehand, an open one a freehand stroke
+        const freehand = element.getAttribute('data-geometry-type') === 'freehand';
+        if (!freehand && /z\s*$/i.test(d.trim())) {
+          return { type: 'polygon', points };
+        }
+        const smoothing = num('data-smoothing');
+        return smoothing ? { type: 'freehand', points, smoothing } : { type: 'freehand', points };
+      }
+      case 'polyline': {
+        let arrows: { startIndex: number; endIndex: number; direction: 'up' | 'down' | 'both' }[] = [];
+        try {
+          arrows = JSON.parse(element.getAttribute('data-arrows') || '[]');
+        } catch {
+          arrows = [];
+        }
+        return { type: 'polyline-arrow', points: W3CSerializer.parsePoints(element.getAttribute('points')), arrows };
+      }
+      case 'line':
+        return {
+          type: 'line',
+          points: [{ x: num('x1'), y: num('y1') }, { x: num('x2'), y: num('y2') }],
+        };
+      case 'text': {
+        const text = { type: 'text' as const, x: num('x'), y: num('y'), text: element.textContent || '' };
+        return rotation ? { ...text, rotation } : text;
+      }
+      default:
+        return null;
+    }
+  }
+
+  private static parsePoints(value: string | null): Point[] {
+    const numbers = (value || '').match(/-?\d*\.?\d+(?:e[-+]?\d+)?/gi)?.map(Number) || [];
+    const points: Point[] = [];
+    for (let i = 0; i + 1 < numbers.length; i += 2) {
+      points.push({ x: numbers[i], y: numbers[i + 1] });
+    }
+    return points;
+  }
+
+  private static parseRotation(transform: string | null): number | undefined {
+    const match = transform?.match(/rotate\(\s*(-?[\d.eE+-]+)/);
+    const angle = match ? parseFloat(match[1]) : 0;
+    return angle || undefined;
+  }
+
+  private static serializeBody(body: AnnotationBody): W3CBody {
+    let result: W3CBody;
+
+    if (body.type === 'Link') {
+      // External resources are referenced by IRI rather than embedded
+      result = { id: body.value, purpose: body.purpose };
+    } else if (body.type === 'Classification' && body.value && typeof body.value === 'object') {
+      // The label stays the textual value; id and confidence ride along as extensions
+      result = { type: 'TextualBody', purpose: body.purpose, value: body.value.label };
+      if (body.value.id !== undefined && body.value.id !== body.value.label) {
+        result.classId = body.value.id;
+      }
+      if (typeof body.value.confidence === 'number') {
+        result.confidence = body.value.confidence;
+      }
+    } else {
+      result = {
+        type: body.type,
+        purpose: body.purpose,
+        value: typeof body.value === 'string' ? body.value : JSON.stringify(body.value),
+      };
+    }
+
+    if (body.creator) result.creator = { ...body.creator };
+    if (body.created) result.created = body.created;
+    if (body.modified) result.modified = body.modified;
+
+    return result;
+  }
+
+  private static parseBody(body: W3CBody): AnnotationBody {
+    const purpose = (body.purpose || 'commenting') as BodyPurpose;
+    let result: AnnotationBody;
+
+    if (body.value === undefined && body.id) {
+      result = { type: 'Link', purpose, value: body.id };
+    } else if (purpose === 'classifying') {
+      const value: { id: string; label: string; confidence?: number } = {
+        id: body.classId ?? body.value ?? '',
+        label: body.value ?? '',
+      };
+      if (typeof body.confidence === 'number') value.confidence = body.confidence;
+      result = { type: 'Classification', purpose, value };
+    } else {
+      result = { type: body.type || 'TextualBody', purpose, value: body.value };
+    }
+
+    if (body.creator) result.creator = { id: body.creator.id, name: body.creator.name };
+    if (body.created) result.created = body.created;
+    if (body.modified) result.modified = body.modified;
+
+    return result;
+  }
+
+  private static toIri(id: string): string {
+    return id.includes(':') ? id : `urn:uuid:${id}`;
+  }
+
+  private static fromIri(id: string | undefined): string {
+    if (!id) return uuid();
+    return id.startsWith('urn:uuid:') ? id.substring('urn:uuid:'.length) : id;
+  }
+
+  private static escape(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+}
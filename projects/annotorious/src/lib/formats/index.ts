@@ -0,0 +1,4 @@
+export * from './W3CSerializer';
+export * from './GeoJSONSerializer';
+export * from './COCOSerializer';
+export * from './VOCSerializer';
@@ -2,6 +2,7 @@ export * from './core';
 export * from './shapes';
 export * from './tools';
 export * from './utils';
+export * from './formats';
 export * from './types';
 // export * from './styles'; // Uncomment when styles/index.ts exists
 // export * from './frameworks/angular'; // Uncomment when frameworks/angular/index.ts exists
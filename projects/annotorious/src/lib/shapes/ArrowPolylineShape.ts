@@ -7,6 +7,7 @@ export class PolylineArrowShape extends BaseShape {
   private arrows: PolylineArrowGeometry['arrows'] = [];
   private arrowElements: SVGTextElement[] = [];
   private arrowGroup?: SVGGElement;
+  protected override minVertices = 2;
   private polylineElement: SVGPolylineElement;
 
   constructor(id: string, geometry: PolylineArrowGeometry) {
@@ -272,32 +273,64 @@ export class PolylineArrowShape extends BaseShape {
   }
 
   protected override showEditHandles(): void {
-    if (this.handles.length === 0) {
-    const currentStyle = this.getCurrentStyle();
-    const handleSize = currentStyle ? currentStyle.handleSize : 6;
-      this.handles = this.points.map((pt) => {
-        const handle = document.createElementNS(
-          'http://www.w3.org/2000/svg',
-          'circle'
-        );
-        handle.setAttribute('cx', pt.x.toString());
-        handle.setAttribute('cy', pt.y.toString());
-        handle.setAttribute('r', (handleSize / 2).toString());
-        handle.setAttribute('class', 'a9s-handle');
-        this.handlesGroup.appendChild(handle);
-        return handle;
-      });
-    }
-    this.updateHandlePositions();
+    this.syncVertexHandles(this.points);
     super.showEditHandles();
   }
 
   private updateHandlePositions(): void {
-    if (this.handles.length !== this.points.length) return;
-    this.handles.forEach((handle, i) => {
-      handle.setAttribute('cx', this.points[i].x.toString());
-      handle.setAttribute('cy', this.points[i].y.toString());
+    if (this.handles.length === 0) return;
+    this.syncVertexHandles(this.points);
+  }
+
+  protected override getVertices(): Point[] {
+    return this.points;
+  }
+
+  protected override setVertices(points: Point[]): void {
+    this.update({ type: 'polyline-arrow', points, arrows: this.arrows });
+  }
+
+  /**
+   * Insert a vertex, keeping arrows on the segments they were drawn on.
+   * An arrow on the split segment stays on its first half.
+   */
+  override insertVertex(index: number, point: Point): number {
+    this.arrows = this.arrows.map((arrow) =>
+      arrow.startIndex > index
+        ? { ...arrow, startIndex: arrow.startIndex + 1, endIndex: arrow.endIndex + 1 }
+        : arrow
+    );
+    return super.insertVertex(index, point);
+  }
+
+  /**
+   * Remove a vertex and remap arrows. The two segments around an inner
+   * vertex merge and keep the first arrow; removing an end point drops
+   * the arrow on the segment that disappears.
+   */
+  override removeVertex(index: number): boolean {
+    if (index < 0 || index >= this.points.length || this.points.length <= this.minVertices) {
+      return false;
+    }
+
+    const lastIndex = this.points.length - 1;
+    const remapped: PolylineArrowGeometry['arrows'] = [];
+    [...this.arrows].sort((a, b) => a.startIndex - b.startIndex).forEach((arrow) => {
+      let start = arrow.startIndex;
+      if (start === index - 1 && index === lastIndex) return;
+      if (start === index) {
+        if (index === 0 || index === lastIndex) return;
+        start = index - 1;
+      } else if (start > index) {
+        start -= 1;
+      }
+      if (!remapped.some((a) => a.startIndex === start)) {
+        remapped.push({ ...arrow, startIndex: start, endIndex: start + 1 });
+      }
     });
+    this.arrows = remapped;
+
+    return super.removeVertex(index);
   }
 
   override updateOutline(): void {
@@ -96,6 +96,10 @@ export class CircleShape extends BaseShape {
     super.showEditHandles();
   }
 
+  protected override isFillable(): boolean {
+    return true;
+  }
+
   override applyStyle(style: any): void {
     super.applyStyle(style);
     // Update handle sizes when style changes
@@ -1,5 +1,6 @@
 import { BaseShape } from './base/BaseShape';
 import { Geometry } from '../types/shape.types';
+import { BoxConstraints } from '../utils/GeometryUtils';
 
 export class EllipseShape extends BaseShape {
   private cx: number = 0;
@@ -13,10 +14,15 @@ export class EllipseShape extends BaseShape {
       cx: this.cx,
       cy: this.cy,
       rx: this.rx,
-      ry: this.ry
+      ry: this.ry,
+      ...(this.rotation ? { rotation: this.rotation } : {})
     };
   }
 
+  override getRotationCenter(): { x: number; y: number } {
+    return { x: this.cx, y: this.cy };
+  }
+
   override getBBox(): { x: number; y: number; width: number; height: number } {
     return {
       x: this.cx - this.rx,
@@ -29,6 +35,7 @@ export class EllipseShape extends BaseShape {
   constructor(id: string, geometry: Geometry) {
     const ellipse = document.createElementNS('http://www.w3.org/2000/svg', 'ellipse');
     super(id, ellipse);
+    this.rotatable = true;
     this.update(geometry);
   }
 
@@ -42,6 +49,7 @@ export class EllipseShape extends BaseShape {
     this.cy = cy;
     this.rx = rx;
     this.ry = ry;
+    this.rotation = geometry.rotation ?? 0;
 
     this.shapeElement.setAttribute('cx', cx.toString());
     this.shapeElement.setAttribute('cy', cy.toString());
@@ -50,6 +58,7 @@ export class EllipseShape extends BaseShape {
 
     this.updateOutline();
     this.updateHandlePositions();
+    this.applyRotation();
   }
 
   public override getEditHandles(): { x: number; y: number; type: string; element: SVGCircleElement }[] {
@@ -67,9 +76,19 @@ export class EllipseShape extends BaseShape {
     }));
   }
 
-  public updateFromHandle(handle: SVGCircleElement, newPosition: { x: number; y: number }): void {
+  /**
+   * Handles always resize around the centre; with an aspect ratio the other
+   * radius follows
+   */
+  public updateFromHandle(
+    handle: SVGCircleElement,
+    worldPosition: { x: number; y: number },
+    constraints?: BoxConstraints
+  ): void {
     const idx = this.handles.indexOf(handle);
     if (idx === -1) return;
+    // Handles sit on the unrotated axes, so measure in the ellipse's own frame
+    const newPosition = this.toLocalPoint(worldPosition);
     switch (idx) {
       case 0: // left
         this.rx = Math.abs(this.cx - newPosition.x);
@@ -84,13 +103,21 @@ export class EllipseShape extends BaseShape {
         this.ry = Math.abs(newPosition.y - this.cy);
         break;
     }
-    this.update({ type: 'ellipse', cx: this.cx, cy: this.cy, rx: this.rx, ry: this.ry });
+    const ratio = constraints?.aspectRatio;
+    if (ratio && ratio > 0) {
+      if (idx < 2) {
+        this.ry = this.rx / ratio;
+      } else {
+        this.rx = this.ry * ratio;
+      }
+    }
+    this.update({ type: 'ellipse', cx: this.cx, cy: this.cy, rx: this.rx, ry: this.ry, rotation: this.rotation });
   }
 
   public override moveBy(deltaX: number, deltaY: number): void {
     this.cx += deltaX;
     this.cy += deltaY;
-    this.update({ type: 'ellipse', cx: this.cx, cy: this.cy, rx: this.rx, ry: this.ry });
+    this.update({ type: 'ellipse', cx: this.cx, cy: this.cy, rx: this.rx, ry: this.ry, rotation: this.rotation });
   }
 
   protected override showEditHandles(): void {
@@ -119,6 +146,10 @@ export class EllipseShape extends BaseShape {
     super.showEditHandles();
   }
 
+  protected override isFillable(): boolean {
+    return true;
+  }
+
   override applyStyle(style: any): void {
     super.applyStyle(style);
     // Update handle sizes when style changes
@@ -147,7 +178,8 @@ export class EllipseShape extends BaseShape {
     });
   }
 
-  public override containsPoint(point: { x: number; y: number }): boolean {
+  public override containsPoint(worldPoint: { x: number; y: number }): boolean {
+    const point = this.toLocalPoint(worldPoint);
     // Ellipse equation: ((x-cx)/rx)^2 + ((y-cy)/ry)^2 = 1
     const norm = Math.pow((point.x - this.cx) / this.rx, 2) + Math.pow((point.y - this.cy) / this.ry, 2);
     return Math.abs(norm - 1) <= 0.1; // ~5px tolerance for most ellipses
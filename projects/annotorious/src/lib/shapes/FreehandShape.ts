@@ -1,10 +1,11 @@
 import { BaseShape } from './base/BaseShape';
 import { Geometry, FreehandGeometry, Point } from '../types/shape.types';
+import { SVGUtils } from '../utils/SVGUtils';
 
 export class FreehandShape extends BaseShape {
   private geometry: FreehandGeometry;
   private pathElement: SVGPathElement;
-  private handlePoints: { point: Point; originalIndex: number }[] = [];
+  protected override minVertices = 2;
 
   constructor(id: string, geometry: Geometry) {
     const path = document.createElementNS('http://www.w3.org/2000/svg', 'path');
@@ -21,6 +22,7 @@ export class FreehandShape extends BaseShape {
 
     this.geometry = geometry as FreehandGeometry;
     this.updatePath();
+    this.updateHandlePositions();
   }
 
   getGeometry(): Geometry {
@@ -29,17 +31,15 @@ export class FreehandShape extends BaseShape {
 
   private updatePath(): void {
     if (this.geometry.points && this.geometry.points.length > 0) {
-      const pathData = this.geometry.points.map((point, index) => {
-        const command = index === 0 ? 'M' : 'L';
-        return `${command} ${point.x} ${point.y}`;
-      }).join(' ');
-      
       // Close the path if it has enough points
-      if (this.geometry.points.length > 2) {
-        this.pathElement.setAttribute('d', `${pathData} Z`);
-      } else {
-        this.pathElement.setAttribute('d', pathData);
-      }
+      this.pathElement.setAttribute(
+        'd',
+        SVGUtils.createSmoothPath(
+          this.geometry.points,
+          this.geometry.smoothing ?? 0,
+          this.geometry.points.length > 2
+        )
+      );
     }
   }
 
@@ -93,8 +93,8 @@ export class FreehandShape extends BaseShape {
 
   public override getEditHandles(): { x: number; y: number; type: string; element: SVGCircleElement }[] {
     return this.handles.map((handle, i) => ({
-      x: this.handlePoints[i].point.x,
-      y: this.handlePoints[i].point.y,
+      x: this.geometry.points[i].x,
+      y: this.geometry.points[i].y,
       type: 'vertex',
       element: handle
     }));
@@ -104,59 +104,39 @@ export class FreehandShape extends BaseShape {
     const idx = this.handles.indexOf(handle);
     if (idx === -1) return;
 
-    const originalIndex = this.handlePoints[idx].originalIndex;
-    this.geometry.points[originalIndex] = { x: newPosition.x, y: newPosition.y };
+    this.geometry.points[idx] = { x: newPosition.x, y: newPosition.y };
     this.update({ ...this.geometry });
-    this.updateHandlePositions();
   }
 
   public override moveBy(deltaX: number, deltaY: number): void {
     this.geometry.points = this.geometry.points.map(pt => ({ x: pt.x + deltaX, y: pt.y + deltaY }));
     this.update({ ...this.geometry });
-    if (this.handles && this.handles.length > 0) {
-      this.updateHandlePositions();
-    }
   }
 
   protected override showEditHandles(): void {
-    this.hideEditHandles();
-    const handleInterval = 1;
-    this.handlePoints = [];
-    const currentStyle = this.getCurrentStyle();
-    const handleSize = currentStyle ? currentStyle.handleSize : 6;
-      
-    this.handles = this.geometry.points.reduce((handles, pt, i) => {
-      if (i % handleInterval === 0) {
-        this.handlePoints.push({ point: pt, originalIndex: i });
-        const handle = document.createElementNS('http://www.w3.org/2000/svg', 'circle');
-        handle.setAttribute('cx', pt.x.toString());
-        handle.setAttribute('cy', pt.y.toString());
-        handle.setAttribute('r', (handleSize / 2).toString());
-        handle.setAttribute('class', 'a9s-handle');
-        this.pathElement.parentNode?.appendChild(handle);
-        handles.push(handle);
-      }
-      return handles;
-    }, [] as SVGCircleElement[]);
-  }
-
-  protected override hideEditHandles(): void {
-    this.handles.forEach(handle => {
-      handle.parentNode?.removeChild(handle);
-    });
-    this.handles = [];
-    this.handlePoints = [];
+    this.syncVertexHandles(this.geometry.points);
+    super.showEditHandles();
   }
 
   private updateHandlePositions(): void {
-    if (this.handles.length !== this.handlePoints.length) return;
-    this.handles.forEach((handle, i) => {
-      const originalIndex = this.handlePoints[i].originalIndex;
-      const point = this.geometry.points[originalIndex];
-      this.handlePoints[i].point = point;
-      handle.setAttribute('cx', point.x.toString());
-      handle.setAttribute('cy', point.y.toString());
-    });
+    if (this.handles.length === 0) return;
+    this.syncVertexHandles(this.geometry.points);
+  }
+
+  protected override getVertices(): Point[] {
+    return this.geometry.points;
+  }
+
+  protected override setVertices(points: Point[]): void {
+    this.update({ ...this.geometry, points });
+  }
+
+  protected override isClosedPath(): boolean {
+    // Matches updatePath(), which closes paths of three or more points
+    return this.geometry.points.length > 2;
+  }
+
+  protected override isFillable(): boolean {
+    return this.isClosedPath();
   }
 }
- 
\ No newline at end of file
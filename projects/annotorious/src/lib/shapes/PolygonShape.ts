@@ -3,6 +3,7 @@ import { Geometry, Point } from '../types/shape.types';
 
 export class PolygonShape extends BaseShape {
   private points: Array<Point> = [];
+  protected override minVertices = 3;
 
   constructor(id: string, geometry: Geometry) {
     const polygon = document.createElementNS('http://www.w3.org/2000/svg', 'polygon');
@@ -41,24 +42,14 @@ export class PolygonShape extends BaseShape {
   }
 
   protected override showEditHandles(): void {
-    if (this.handles.length === 0) {
-      const currentStyle = this.getCurrentStyle();
-      const handleSize = currentStyle ? currentStyle.handleSize : 6;
-      
-      this.handles = this.points.map((pt) => {
-        const handle = document.createElementNS('http://www.w3.org/2000/svg', 'circle');
-        handle.setAttribute('cx', pt.x.toString());
-        handle.setAttribute('cy', pt.y.toString());
-        handle.setAttribute('r', (handleSize / 2).toString());
-        handle.setAttribute('class', 'a9s-handle');
-        this.handlesGroup.appendChild(handle);
-        return handle;
-      });
-    }
-    this.updateHandlePositions();
+    this.syncVertexHandles(this.points);
     super.showEditHandles();
   }
 
+  protected override isFillable(): boolean {
+    return true;
+  }
+
   override applyStyle(style: any): void {
     super.applyStyle(style);
     // Update handle sizes when style changes
@@ -74,11 +65,20 @@ export class PolygonShape extends BaseShape {
   }
 
   private updateHandlePositions(): void {
-    if (this.handles.length !== this.points.length) return;
-    this.handles.forEach((handle, i) => {
-      handle.setAttribute('cx', this.points[i].x.toString());
-      handle.setAttribute('cy', this.points[i].y.toString());
-    });
+    if (this.handles.length === 0) return;
+    this.syncVertexHandles(this.points);
+  }
+
+  protected override getVertices(): Point[] {
+    return this.points;
+  }
+
+  protected override setVertices(points: Point[]): void {
+    this.update({ type: 'polygon', points });
+  }
+
+  protected override isClosedPath(): boolean {
+    return true;
   }
 
   public updateFromHandle(handle: SVGCircleElement, newPosition: { x: number; y: number }): void {
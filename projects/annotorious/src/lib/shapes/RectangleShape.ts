@@ -1,5 +1,7 @@
 import { BaseShape } from './base/BaseShape';
 import { Geometry } from '../types/shape.types';
+import { SVGUtils } from '../utils/SVGUtils';
+import { BoxConstraints, GeometryUtils } from '../utils/GeometryUtils';
 
 export class RectangleShape extends BaseShape {
   // shapeElement is now the rect, managed by BaseShape
@@ -12,6 +14,7 @@ export class RectangleShape extends BaseShape {
   constructor(id: string, geometry: Geometry) {
     const rect = document.createElementNS('http://www.w3.org/2000/svg', 'rect');
     super(id, rect);
+    this.rotatable = true;
     this.update(geometry);
   }
 
@@ -25,6 +28,7 @@ export class RectangleShape extends BaseShape {
     this.y = y;
     this.width = width;
     this.height = height;
+    this.rotation = geometry.rotation ?? 0;
 
     this.shapeElement.setAttribute('x', x.toString());
     this.shapeElement.setAttribute('y', y.toString());
@@ -33,6 +37,7 @@ export class RectangleShape extends BaseShape {
 
     this.updateOutline();
     this.updateHandlePositions();
+    this.applyRotation();
   }
 
   getGeometry(): Geometry {
@@ -41,10 +46,15 @@ export class RectangleShape extends BaseShape {
       x: this.x,
       y: this.y,
       width: this.width,
-      height: this.height
+      height: this.height,
+      ...(this.rotation ? { rotation: this.rotation } : {})
     };
   }
 
+  override getRotationCenter(): { x: number; y: number } {
+    return { x: this.x + this.width / 2, y: this.y + this.height / 2 };
+  }
+
 
   public override getEditHandles(): { x: number; y: number; type: string; element: SVGCircleElement }[] {
     const positions = [
@@ -61,9 +71,21 @@ export class RectangleShape extends BaseShape {
     }));
   }
 
-  public updateFromHandle(handle: SVGCircleElement, newPosition: { x: number; y: number }): void {
+  public updateFromHandle(
+    handle: SVGCircleElement,
+    newPosition: { x: number; y: number },
+    constraints?: BoxConstraints
+  ): void {
     const idx = this.handles.indexOf(handle);
     if (idx === -1) return;
+    if (constraints?.aspectRatio || constraints?.fromCenter) {
+      this.updateFromConstrainedHandle(idx, newPosition, constraints);
+      return;
+    }
+    if (this.rotation) {
+      this.updateFromRotatedHandle(idx, newPosition);
+      return;
+    }
     // 0: NW, 1: NE, 2: SE, 3: SW
     let x1 = this.x, y1 = this.y, x2 = this.x + this.width, y2 = this.y + this.height;
     switch (idx) {
@@ -78,10 +100,81 @@ export class RectangleShape extends BaseShape {
     this.update({ type: 'rectangle', x: nx, y: ny, width: nw, height: nh });
   }
 
+  /**
+   * Resize a rotated rectangle while keeping the opposite corner fixed in image space
+   */
+  private updateFromRotatedHandle(idx: number, newPosition: { x: number; y: number }): void {
+    const corners = [
+      { x: this.x, y: this.y },
+      { x: this.x + this.width, y: this.y },
+      { x: this.x + this.width, y: this.y + this.height },
+      { x: this.x, y: this.y + this.height }
+    ];
+    const center = this.getRotationCenter();
+    const anchor = SVGUtils.rotatePoint(corners[(idx + 2) % 4], center, this.rotation);
+
+    // Size comes from the diagonal measured in the rectangle's own frame
+    const diagonal = SVGUtils.rotatePoint(
+      { x: newPosition.x - anchor.x, y: newPosition.y - anchor.y },
+      { x: 0, y: 0 },
+      -this.rotation
+    );
+    const width = Math.abs(diagonal.x);
+    const height = Math.abs(diagonal.y);
+    const newCenter = { x: (anchor.x + newPosition.x) / 2, y: (anchor.y + newPosition.y) / 2 };
+
+    this.update({
+      type: 'rectangle',
+      x: newCenter.x - width / 2,
+      y: newCenter.y - height / 2,
+      width,
+      height,
+      rotation: this.rotation
+    });
+  }
+
+  /**
+   * Resize keeping the aspect ratio and/or the centre. Measured in the
+   * rectangle's own frame, so rotated rectangles keep their rotation; the
+   * bounds only apply to unrotated ones.
+   */
+  private updateFromConstrainedHandle(
+    idx: number,
+    newPosition: { x: number; y: number },
+    constraints: BoxConstraints
+  ): void {
+    const corners = [
+      { x: this.x, y: this.y },
+      { x: this.x + this.width, y: this.y },
+      { x: this.x + this.width, y: this.y + this.height },
+      { x: this.x, y: this.y + this.height }
+    ];
+    const center = this.getRotationCenter();
+    const box = GeometryUtils.constrainBox(
+      constraints.fromCenter ? center : corners[(idx + 2) % 4],
+      SVGUtils.rotatePoint(newPosition, center, -this.rotation),
+      { ...constraints, bounds: this.rotation ? undefined : constraints.bounds }
+    );
+    const newCenter = SVGUtils.rotatePoint(
+      { x: box.x + box.width / 2, y: box.y + box.height / 2 },
+      center,
+      this.rotation
+    );
+
+    this.update({
+      type: 'rectangle',
+      x: newCenter.x - box.width / 2,
+      y: newCenter.y - box.height / 2,
+      width: box.width,
+      height: box.height,
+      ...(this.rotation ? { rotation: this.rotation } : {})
+    });
+  }
+
   public override moveBy(deltaX: number, deltaY: number): void {
     this.x += deltaX;
     this.y += deltaY;
-    this.update({ type: 'rectangle', x: this.x, y: this.y, width: this.width, height: this.height });
+    this.update({ type: 'rectangle', x: this.x, y: this.y, width: this.width, height: this.height, rotation: this.rotation });
   }
 
   protected override showEditHandles(): void {
@@ -115,6 +208,10 @@ export class RectangleShape extends BaseShape {
     super.hideEditHandles();
   }
 
+  protected override isFillable(): boolean {
+    return true;
+  }
+
   override applyStyle(style: any): void {
     super.applyStyle(style);
     // Update handle sizes when style changes
@@ -139,7 +236,8 @@ export class RectangleShape extends BaseShape {
     });
   }
 
-  public override containsPoint(point: { x: number; y: number }): boolean {
+  public override containsPoint(worldPoint: { x: number; y: number }): boolean {
+    const point = this.toLocalPoint(worldPoint);
     const tol = 5;
     const left = Math.abs(point.x - this.x) <= tol && point.y >= this.y - tol && point.y <= this.y + this.height + tol;
     const right = Math.abs(point.x - (this.x + this.width)) <= tol && point.y >= this.y - tol && point.y <= this.y + this.height + tol;
@@ -14,6 +14,7 @@ export class TextShape extends BaseShape {
     
     super(id, text);
     this.text = text;
+    this.rotatable = true;
 
     // Set default text attributes
     this.text.setAttribute('dominant-baseline', 'middle');
@@ -23,16 +24,22 @@ export class TextShape extends BaseShape {
   }
 
   override update(geometry: Geometry): void {
-    const { x, y, text } = geometry as TextGeometry;
+    const { x, y, text, rotation } = geometry as TextGeometry;
     this.x = x;
     this.y = y;
     this.content = text;
+    this.rotation = rotation ?? 0;
 
     // Update text content and position
     this.text.textContent = text;
     this.text.setAttribute('x', x.toString());
     this.text.setAttribute('y', y.toString());
     this.updateOutline();
+    this.applyRotation();
+  }
+
+  override getRotationCenter(): { x: number; y: number } {
+    return { x: this.x, y: this.y };
   }
 
   override updateOutline(): void {
@@ -49,6 +56,7 @@ export class TextShape extends BaseShape {
       x: this.x,
       y: this.y,
       text: this.content,
+      ...(this.rotation ? { rotation: this.rotation } : {}),
     };
   }
 
@@ -112,10 +120,12 @@ export class TextShape extends BaseShape {
       x: this.x,
       y: this.y,
       text: this.content,
+      rotation: this.rotation,
     });
   }
 
-  override containsPoint(point: { x: number; y: number }): boolean {
+  override containsPoint(worldPoint: { x: number; y: number }): boolean {
+    const point = this.toLocalPoint(worldPoint);
     const bbox = this.getBBox();
     const tolerance = 5;
     
@@ -132,6 +142,7 @@ export class TextShape extends BaseShape {
       x: this.x,
       y: this.y,
       text: newText,
+      rotation: this.rotation,
     });
   }
 
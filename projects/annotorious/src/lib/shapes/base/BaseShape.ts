@@ -28,6 +28,12 @@ export abstract class BaseShape
   protected handles: SVGCircleElement[] = [];
   protected handlesGroup: SVGGElement;
   protected currentStyle: ShapeStyle | null = null;
+  protected rotation: number = 0;
+  protected rotatable: boolean = false;
+  protected rotationHandle: SVGCircleElement | null = null;
+  protected midpointHandles: SVGCircleElement[] = [];
+  /** Fewest vertices the shape may have; 0 disables inserting/removing vertices */
+  protected minVertices: number = 0;
 
   constructor(id: string, shapeElement: SVGGraphicsElement) {
     super();
@@ -39,6 +45,12 @@ export abstract class BaseShape
       'g'
     );
     this.rootGroup.setAttribute('class', 'a9s-shape-group');
+    // An option of the overlay's listbox, focusable from script only;
+    // the annotator moves focus between shapes
+    this.rootGroup.setAttribute('role', 'option');
+    this.rootGroup.setAttribute('tabindex', '-1');
+    this.rootGroup.setAttribute('aria-selected', 'false');
+    this.rootGroup.dataset['id'] = id;
     this.selected = false;
     this.hovered = false;
 
@@ -57,6 +69,7 @@ export abstract class BaseShape
     );
     this.handlesGroup.setAttribute('class', 'a9s-handles-group');
     this.handlesGroup.style.display = 'none';
+    this.handlesGroup.setAttribute('aria-hidden', 'true');
 
     this.labelElement = document.createElementNS(
       'http://www.w3.org/2000/svg',
@@ -65,6 +78,8 @@ export abstract class BaseShape
     this.labelElement.setAttribute('class', 'annotation-label');
     this.labelElement.setAttribute('text-anchor', 'middle');
     this.labelElement.style.cursor = 'default';
+    // The label text is part of the accessible name
+    this.labelElement.setAttribute('aria-hidden', 'true');
     this.rootGroup.appendChild(this.labelElement);
     // Assemble the structure
     this.rootGroup.appendChild(this.selectionOutline);
@@ -91,6 +106,10 @@ export abstract class BaseShape
     return this.rootGroup;
   }
 
+  setAccessibleName(name: string): void {
+    this.rootGroup.setAttribute('aria-label', name);
+  }
+
   abstract getGeometry(): Geometry;
   abstract update(geometry: Geometry): void;
 
@@ -125,6 +144,7 @@ updateLabel(label: TextGeometry): void {
   setSelected(selected: boolean): void {
     if (this.selected !== selected) {
       this.selected = selected;
+      this.rootGroup.setAttribute('aria-selected', String(selected));
       
       this.updateOutlineStyles();
       
@@ -224,9 +244,10 @@ updateLabel(label: TextGeometry): void {
       this.shapeElement.style.strokeWidth = style.strokeWidth.toString();
       this.shapeElement.style.strokeOpacity = style.strokeOpacity.toString();
 
-      if (style.fill !== undefined) {
-        this.shapeElement.style.fill = style.fill;
-      }
+      // Open shapes never paint their interior
+      const fill = this.isFillable() ? style.fill ?? 'none' : 'none';
+      this.shapeElement.style.fill = fill;
+      this.shapeElement.style.pointerEvents = fill === 'none' ? 'stroke' : 'visiblePainted';
 
       if (style.fillOpacity !== undefined) {
         this.shapeElement.style.fillOpacity = style.fillOpacity.toString();
@@ -243,7 +264,9 @@ updateLabel(label: TextGeometry): void {
 
 
   private applyHandleStyles(style: ShapeStyle): void {
-    this.handles.forEach((handle) => {
+    const handles = [...this.handles, ...this.midpointHandles];
+    if (this.rotationHandle) handles.push(this.rotationHandle);
+    handles.forEach((handle) => {
       // Fixed handle colors
       handle.style.fill = style.handleFill;
       handle.style.stroke = style.handleStroke;
@@ -283,6 +306,21 @@ updateLabel(label: TextGeometry): void {
   }
 
   protected showEditHandles(): void {
+    if (this.rotatable && !this.rotationHandle) {
+      const handleSize = this.currentStyle?.handleSize ?? 6;
+      this.rotationHandle = document.createElementNS(
+        'http://www.w3.org/2000/svg',
+        'circle'
+      );
+      this.rotationHandle.setAttribute('r', (handleSize / 2).toString());
+      this.rotationHandle.setAttribute('class', 'a9s-handle a9s-rotation-handle');
+      if (this.currentStyle) {
+        this.rotationHandle.style.fill = this.currentStyle.handleFill;
+        this.rotationHandle.style.stroke = this.currentStyle.handleStroke;
+      }
+      this.handlesGroup.appendChild(this.rotationHandle);
+    }
+    this.updateRotationHandle();
     this.handlesGroup.style.display = '';
   }
 
@@ -307,10 +345,179 @@ updateLabel(label: TextGeometry): void {
     return [];
   }
 
+  /**
+   * Vertex list of shapes that support inserting/removing vertices
+   */
+  protected getVertices(): Point[] {
+    return [];
+  }
+
+  /**
+   * Replace the vertex list; implemented together with getVertices()
+   */
+  protected setVertices(points: Point[]): void {
+    // Override in subclasses
+  }
+
+  /**
+   * Whether the last vertex connects back to the first
+   */
+  protected isClosedPath(): boolean {
+    return false;
+  }
+
+  /**
+   * Whether fill styles apply to this shape
+   */
+  protected isFillable(): boolean {
+    return false;
+  }
+
+  /**
+   * Insert a vertex on the edge starting at `index`.
+   * Returns the index of the new vertex, or -1 if not supported.
+   */
+  insertVertex(index: number, point: Point): number {
+    if (!this.minVertices) return -1;
+    const points = [...this.getVertices()];
+    points.splice(index + 1, 0, { x: point.x, y: point.y });
+    this.setVertices(points);
+    return index + 1;
+  }
+
+  /**
+   * Remove a vertex unless that would leave fewer than the minimum
+   */
+  removeVertex(index: number): boolean {
+    const points = [...this.getVertices()];
+    if (!this.minVertices || points.length <= this.minVertices) return false;
+    if (index < 0 || index >= points.length) return false;
+    points.splice(index, 1);
+    this.setVertices(points);
+    return true;
+  }
+
+  /**
+   * Index of the vertex a handle belongs to, or -1
+   */
+  getVertexIndex(handle: SVGElement): number {
+    return this.minVertices ? this.handles.indexOf(handle as SVGCircleElement) : -1;
+  }
+
+  /**
+   * Ghost handles on edge midpoints; `index` is the edge's first vertex
+   */
+  getMidpointHandles(): { element: SVGCircleElement; index: number }[] {
+    return this.midpointHandles.map((element, index) => ({ element, index }));
+  }
+
+  /**
+   * Keep one handle per vertex and one ghost handle per edge midpoint,
+   * reusing existing elements so attached listeners survive
+   */
+  protected syncVertexHandles(points: Point[]): void {
+    this.resizeHandleList(this.handles, points.length, 'a9s-handle');
+    this.handles.forEach((handle, i) => {
+      handle.setAttribute('cx', points[i].x.toString());
+      handle.setAttribute('cy', points[i].y.toString());
+    });
+
+    const edges = !this.minVertices || points.length < 2
+      ? 0
+      : this.isClosedPath() ? points.length : points.length - 1;
+    this.resizeHandleList(this.midpointHandles, edges, 'a9s-handle a9s-midpoint-handle');
+    this.midpointHandles.forEach((handle, i) => {
+      const a = points[i];
+      const b = points[(i + 1) % points.length];
+      handle.setAttribute('cx', ((a.x + b.x) / 2).toString());
+      handle.setAttribute('cy', ((a.y + b.y) / 2).toString());
+    });
+  }
+
+  private resizeHandleList(list: SVGCircleElement[], count: number, className: string): void {
+    while (list.length > count) {
+      list.pop()!.remove();
+    }
+    while (list.length < count) {
+      const handleSize = this.currentStyle?.handleSize ?? 6;
+      const handle = document.createElementNS('http://www.w3.org/2000/svg', 'circle');
+      handle.setAttribute('r', (handleSize / 2).toString());
+      handle.setAttribute('class', className);
+      if (this.currentStyle) {
+        handle.style.fill = this.currentStyle.handleFill;
+        handle.style.stroke = this.currentStyle.handleStroke;
+      }
+      this.handlesGroup.appendChild(handle);
+      list.push(handle);
+    }
+  }
+
   protected isOnCircumference(point: { x: number; y: number }): boolean {
     return this.containsPoint(point);
   }
 
+  /**
+   * Get the rotation in degrees (clockwise, around getRotationCenter())
+   */
+  getRotation(): number {
+    return this.rotation;
+  }
+
+  /**
+   * Rotate the shape; ignored by shapes that don't support rotation
+   */
+  setRotation(angle: number): void {
+    if (!this.rotatable) return;
+    this.rotation = angle;
+    this.applyRotation();
+  }
+
+  /**
+   * Point the shape rotates around, in unrotated coordinates
+   */
+  getRotationCenter(): Point {
+    const bbox = this.getBBox();
+    return { x: bbox.x + bbox.width / 2, y: bbox.y + bbox.height / 2 };
+  }
+
+  getRotationHandle(): SVGCircleElement | null {
+    return this.rotationHandle;
+  }
+
+  /**
+   * Apply the rotation transform to the shape, its outline and handles.
+   * Handles live in the unrotated frame, so they rotate with the shape.
+   */
+  protected applyRotation(): void {
+    if (!this.rotatable) return;
+    const center = this.getRotationCenter();
+    [this.shapeElement, this.selectionOutline, this.handlesGroup].forEach(
+      (element) => {
+        if (this.rotation) {
+          SVGUtils.setRotation(element, this.rotation, center.x, center.y);
+        } else {
+          element.removeAttribute('transform');
+        }
+      }
+    );
+    this.updateRotationHandle();
+  }
+
+  /**
+   * Map a point from image space into the shape's unrotated frame
+   */
+  protected toLocalPoint(point: Point): Point {
+    return SVGUtils.rotatePoint(point, this.getRotationCenter(), -this.rotation);
+  }
+
+  private updateRotationHandle(): void {
+    if (!this.rotationHandle) return;
+    const bbox = this.getBBox();
+    const offset = (this.currentStyle?.handleSize ?? 6) * 3;
+    this.rotationHandle.setAttribute('cx', (bbox.x + bbox.width / 2).toString());
+    this.rotationHandle.setAttribute('cy', (bbox.y - offset).toString());
+  }
+
   getCurrentStyle(): ShapeStyle | null {
     return this.currentStyle ? { ...this.currentStyle } : null;
   }
@@ -319,7 +526,7 @@ updateLabel(label: TextGeometry): void {
     if (this.selectionOutline) {
       const geometry = this.getGeometry();
       for (const key in geometry) {
-        if (key !== 'type') {
+        if (key !== 'type' && key !== 'rotation') {
           this.selectionOutline.setAttribute(
             key,
             geometry[key as keyof Geometry]
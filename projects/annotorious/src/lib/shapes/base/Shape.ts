@@ -1,6 +1,7 @@
 import { Geometry, TextGeometry } from '../../types/shape.types';
 import { Point } from '../../types/shape.types';
 import { ShapeStyle } from '../../core/managers/StyleManager';
+import { BoxConstraints } from '../../utils/GeometryUtils';
 
 interface ShapeEvents {
   select: { id: string };
@@ -10,6 +11,16 @@ interface ShapeEvents {
   geometryChanged: { geometry: Geometry };
 }
 
+/**
+ * Edit handle position; `element` is the draggable handle, when there is one
+ */
+export interface ShapeHandle {
+  x: number;
+  y: number;
+  type: string;
+  element?: SVGElement;
+}
+
 export interface Shape {
   /**
    * Set selected state
@@ -31,6 +42,11 @@ export interface Shape {
    */
   getElement(): SVGGraphicsElement;
 
+  /**
+   * Set the name screen readers announce for the shape
+   */
+  setAccessibleName?(name: string): void;
+
   /**
    * Get the geometry of the shape
    */
@@ -77,7 +93,53 @@ export interface Shape {
   /**
    * Get edit handles for the shape
    */
-  getEditHandles(): { x: number; y: number; type: string }[];
+  getEditHandles(): ShapeHandle[];
+
+  /**
+   * Move the point a handle stands for; rectangles and ellipses accept
+   * constraints for Shift/Alt resizing
+   */
+  updateFromHandle?(handle: SVGElement, position: Point, constraints?: BoxConstraints): void;
+
+  /**
+   * Get the rotation in degrees
+   */
+  getRotation?(): number;
+
+  /**
+   * Rotate the shape around its rotation center
+   */
+  setRotation?(angle: number): void;
+
+  /**
+   * Get the point the shape rotates around
+   */
+  getRotationCenter?(): Point;
+
+  /**
+   * Get the rotation handle, if the shape can be rotated
+   */
+  getRotationHandle?(): SVGCircleElement | null;
+
+  /**
+   * Insert a vertex on the edge starting at `index`; returns the new vertex index or -1
+   */
+  insertVertex?(index: number, point: Point): number;
+
+  /**
+   * Remove a vertex; returns false if the shape would have too few vertices
+   */
+  removeVertex?(index: number): boolean;
+
+  /**
+   * Get the index of the vertex a handle belongs to, or -1
+   */
+  getVertexIndex?(handle: SVGElement): number;
+
+  /**
+   * Get the ghost handles used to insert vertices on edges
+   */
+  getMidpointHandles?(): { element: SVGCircleElement; index: number }[];
 
   /**
    * Get the bounding box of the shape
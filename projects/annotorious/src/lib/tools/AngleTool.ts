@@ -0,0 +1,114 @@
+import { PolylineArrowShape } from '../shapes/ArrowPolylineShape';
+import { Point } from '../types/shape.types';
+import { Tool } from './base/Tool';
+import { v4 as uuid } from 'uuid';
+
+/**
+ * Three-click angle measurement: first arm end, vertex, second arm end.
+ * Draws a polyline without arrows; the annotator attaches an `angle`
+ * measurement to it.
+ */
+export class AngleTool extends Tool {
+  override capabilities = { supportsMouse: true, supportsSnapping: true };
+  override name = 'angle';
+
+  private svg: SVGSVGElement;
+  private currentShape: PolylineArrowShape | null = null;
+  private points: Point[] = [];
+  private isCurrentlyDrawing = false;
+  private onComplete: (shape: PolylineArrowShape) => void;
+  private snapDistance = 5;
+
+  constructor(
+    svg: SVGSVGElement,
+    onComplete: (shape: PolylineArrowShape) => void,
+    imageBounds: { naturalWidth: number; naturalHeight: number }
+  ) {
+    super(imageBounds);
+    this.svg = svg;
+    this.onComplete = onComplete;
+  }
+
+  override activate(): void {
+    // ToolManager routes pointer events
+  }
+
+  override deactivate(): void {
+    this.cleanup();
+  }
+
+  override handleMouseDown(point: Point, event: PointerEvent): void {
+    if (event.button !== 0) return;
+    const clamped = (this.constructor as typeof Tool).clampToImageBounds(point, Tool.imageBounds);
+
+    if (!this.isCurrentlyDrawing) {
+      this.startDrawing(clamped);
+      return;
+    }
+    if (this.isNearPoint(clamped, this.points[this.points.length - 1])) return;
+
+    this.points.push(clamped);
+    this.currentShape?.update({ type: 'polyline-arrow', points: this.points, arrows: [] });
+    if (this.points.length === 3) {
+      this.completeShape();
+    }
+  }
+
+  override handleMouseMove(point: Point, _event: PointerEvent): void {
+    if (!this.isCurrentlyDrawing || !this.currentShape) return;
+    const clamped = (this.constructor as typeof Tool).clampToImageBounds(point, Tool.imageBounds);
+    this.currentShape.update({
+      type: 'polyline-arrow',
+      points: [...this.points, clamped],
+      arrows: [],
+    });
+  }
+
+  isDrawing(): boolean {
+    return this.isCurrentlyDrawing;
+  }
+
+  override getSnapAnchor(): Point | null {
+    return this.isCurrentlyDrawing ? this.points[this.points.length - 1] : null;
+  }
+
+  private startDrawing(point: Point): void {
+    this.isCurrentlyDrawing = true;
+    this.points = [point];
+    this.currentShape = new PolylineArrowShape(uuid(), {
+      type: 'polyline-arrow',
+      points: [point],
+      arrows: [],
+    });
+
+    const element = this.currentShape.getElement();
+    if (element && this.svg.contains(element)) {
+      element.remove();
+    }
+    this.svg.appendChild(element);
+  }
+
+  private completeShape(): void {
+    if (!this.currentShape) return;
+    this.svg.appendChild(this.currentShape.getElement());
+    this.onComplete(this.currentShape);
+    this.cleanup();
+  }
+
+  private isNearPoint(p1: Point, p2: Point): boolean {
+    return Math.hypot(p1.x - p2.x, p1.y - p2.y) < this.snapDistance;
+  }
+
+  private cleanup(): void {
+    if (this.currentShape) {
+      const element = this.currentShape.getElement();
+      if (element && element.parentNode) {
+        element.parentNode.removeChild(element);
+      }
+      this.currentShape.destroy();
+      this.currentShape = null;
+    }
+    this.points = [];
+    this.isCurrentlyDrawing = false;
+  }
+}
@@ -40,31 +40,19 @@ export class CircleTool extends Tool {
     }
   }
 
-  override handleMouseMove(point: Point, _event: PointerEvent): void {
+  override handleMouseMove(point: Point, event: PointerEvent): void {
     if (this.startPoint && this.currentShape) {
-      const clamped = (this.constructor as typeof Tool).clampToImageBounds(point, Tool.imageBounds);
-      const radius = this.calculateRadius(this.startPoint, clamped) / 2;
-      const center = {
-        x: this.startPoint.x + (clamped.x - this.startPoint.x) / 2,
-        y: this.startPoint.y + (clamped.y - this.startPoint.y) / 2
-      };
-      
-      this.currentShape.update({
-        type: 'circle',
-        cx: center.x,
-        cy: center.y,
-        r: radius
-      });
+      this.currentShape.update(this.getCircle(this.startPoint, point, event));
     }
   }
 
-  override handleMouseUp(point: Point, _event: PointerEvent): void {
+  override handleMouseUp(point: Point, event: PointerEvent): void {
     if (this.startPoint && this.currentShape) {
-      const clamped = (this.constructor as typeof Tool).clampToImageBounds(point, Tool.imageBounds);
-      const radius = this.calculateRadius(this.startPoint, clamped) / 2;
+      const circle = this.getCircle(this.startPoint, point, event);
       
       // Only complete if the circle has some size
-      if (radius > this.minRadius) {
+      if (circle.r > this.minRadius) {
+        this.currentShape.update(circle);
         this.onComplete(this.currentShape);
       } else {
         this.cleanup();
@@ -75,6 +63,30 @@ export class CircleTool extends Tool {
     }
   }
 
+  /**
+   * Circle on the dragged diameter; with Alt the start point is the centre
+   * and the radius stops at the image edge
+   */
+  private getCircle(start: Point, point: Point, event: PointerEvent) {
+    const clamped = (this.constructor as typeof Tool).clampToImageBounds(point, Tool.imageBounds);
+    if (event.altKey) {
+      const bounds = (this.constructor as typeof Tool).getBoxBounds();
+      const room = Math.min(start.x, start.y, bounds.width - start.x, bounds.height - start.y);
+      return {
+        type: 'circle' as const,
+        cx: start.x,
+        cy: start.y,
+        r: Math.max(0, Math.min(this.calculateRadius(start, clamped), room))
+      };
+    }
+    return {
+      type: 'circle' as const,
+      cx: start.x + (clamped.x - start.x) / 2,
+      cy: start.y + (clamped.y - start.y) / 2,
+      r: this.calculateRadius(start, clamped) / 2
+    };
+  }
+
   private startDrawing(point: Point): void {
     this.startPoint = point;
     
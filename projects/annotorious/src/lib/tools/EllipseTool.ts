@@ -2,6 +2,7 @@ import { Tool } from './base/Tool';
 import { Point } from '../types/shape.types';
 import { ShapeFactory } from '../shapes/base/ShapeFactory';
 import { EllipseShape } from '../shapes/EllipseShape';
+import { GeometryUtils } from '../utils/GeometryUtils';
 import { v4 as uuid } from 'uuid';
 
 export class EllipseTool extends Tool {
@@ -43,9 +44,8 @@ export class EllipseTool extends Tool {
     }
   }
 
-  override handleMouseMove(point: Point, _event: PointerEvent): void {
+  override handleMouseMove(point: Point, event: PointerEvent): void {
     if (this.startPoint && this.currentShape) {
-      const clamped = (this.constructor as typeof Tool).clampToImageBounds(point, Tool.imageBounds);
       if (this.isRotating) {
         // Rotation is not supported yet
         
@@ -57,36 +57,21 @@ export class EllipseTool extends Tool {
           ry: 0
         });
       } else {
-        // Calculate ellipse dimensions
-        const radiusX = Math.abs(clamped.x - this.startPoint.x) / 2;
-        const radiusY = Math.abs(clamped.y - this.startPoint.y) / 2;
-        const center = {
-          x: this.startPoint.x + (clamped.x - this.startPoint.x) / 2,
-          y: this.startPoint.y + (clamped.y - this.startPoint.y) / 2
-        };
-        
-        this.currentShape.update({ 
-          type: 'ellipse',
-          cx: center.x,
-          cy: center.y,
-          rx: radiusX,
-          ry: radiusY
-        });
+        this.currentShape.update(this.getEllipse(this.startPoint, point, event));
       }
     }
   }
 
-  override handleMouseUp(point: Point, _event: PointerEvent): void {
+  override handleMouseUp(point: Point, event: PointerEvent): void {
     if (this.startPoint && this.currentShape) {
-      const clamped = (this.constructor as typeof Tool).clampToImageBounds(point, Tool.imageBounds);
       if (this.isRotating) {
         this.isRotating = false;
       } else {
-        const radiusX = Math.abs(clamped.x - this.startPoint.x) / 2;
-        const radiusY = Math.abs(clamped.y - this.startPoint.y) / 2;
+        const ellipse = this.getEllipse(this.startPoint, point, event);
         
         // Only complete if the ellipse has some size
-        if (radiusX > this.minSize && radiusY > this.minSize) {
+        if (ellipse.rx > this.minSize && ellipse.ry > this.minSize) {
+          this.currentShape.update(ellipse);
           this.onComplete(this.currentShape);
         } else {
           this.cleanup();
@@ -98,6 +83,26 @@ export class EllipseTool extends Tool {
     }
   }
 
+  /**
+   * Ellipse inscribed in the dragged box: Shift keeps the aspect ratio (a
+   * circle unless configured), Alt grows it around the start point
+   */
+  private getEllipse(start: Point, point: Point, event: PointerEvent) {
+    const clamped = (this.constructor as typeof Tool).clampToImageBounds(point, Tool.imageBounds);
+    const box = GeometryUtils.constrainBox(start, clamped, {
+      aspectRatio: event.shiftKey ? this.drawingOptions.aspectRatio ?? 1 : null,
+      fromCenter: event.altKey,
+      bounds: (this.constructor as typeof Tool).getBoxBounds()
+    });
+    return {
+      type: 'ellipse' as const,
+      cx: box.x + box.width / 2,
+      cy: box.y + box.height / 2,
+      rx: box.width / 2,
+      ry: box.height / 2
+    };
+  }
+
   private startDrawing(point: Point): void {
     this.startPoint = point;
     
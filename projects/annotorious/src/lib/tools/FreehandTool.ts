@@ -1,27 +1,57 @@
 import { Tool } from './base/Tool';
-import { Point } from '../types/shape.types';
+import { FreehandGeometry, Point } from '../types/shape.types';
 import { ShapeFactory } from '../shapes/base/ShapeFactory';
-import { PolygonShape } from '../shapes/PolygonShape';
+import { FreehandShape } from '../shapes/FreehandShape';
+import { GeometryUtils } from '../utils/GeometryUtils';
+import { SVGUtils } from '../utils/SVGUtils';
 import { v4 as uuid } from 'uuid';
 
+export interface FreehandOptions {
+  /**
+   * Simplification distance in screen pixels (default 1.5). Points are
+   * sampled on screen, so the detail kept follows the zoom level.
+   */
+  simplify?: number;
+  /** Curve rounding of drawn paths, 0 (straight segments) to 1 (default 0) */
+  smoothing?: number;
+}
+
 export class FreehandTool extends Tool {
   override name = 'freehand';
   override capabilities = {
     supportsMouse: true
   };
-  
+
   private svg: SVGSVGElement;
-  private currentShape: PolygonShape | null = null;
+  private currentShape: FreehandShape | null = null;
   private isCurrentlyDrawing: boolean = false;
   private points: Point[] = [];
-  private onComplete: (shape: PolygonShape) => void;
+  private onComplete: (shape: FreehandShape) => void;
   private pathElement: SVGPathElement | null = null;
+  private options: Required<FreehandOptions> = {
+    simplify: 1.5,
+    smoothing: 0,
+  };
 
-  constructor(svg: SVGSVGElement, onComplete: (shape: PolygonShape) => void, imageBounds: { naturalWidth: number, naturalHeight: number }) {
+  constructor(
+    svg: SVGSVGElement,
+    onComplete: (shape: FreehandShape) => void,
+    imageBounds: { naturalWidth: number, naturalHeight: number },
+    options: FreehandOptions = {}
+  ) {
     super(imageBounds);
     this.svg = svg;
     this.onComplete = onComplete;
+    this.setOptions(options);
+  }
 
+  setOptions(options: FreehandOptions): void {
+    this.options = { ...this.options, ...options };
+    this.options.smoothing = Math.min(Math.max(this.options.smoothing, 0), 1);
+  }
+
+  getOptions(): Required<FreehandOptions> {
+    return { ...this.options };
   }
 
   override activate(): void {
@@ -39,7 +69,7 @@ export class FreehandTool extends Tool {
     if (event.button === 0) { // Left click only
       this.isCurrentlyDrawing = true;
       this.points = [(this.constructor as typeof Tool).clampToImageBounds(point, Tool.imageBounds)];
-      
+
       // Create path element for visual feedback
       this.pathElement = document.createElementNS('http://www.w3.org/2000/svg', 'path');
       this.pathElement.setAttribute('stroke', '#000');
@@ -47,7 +77,7 @@ export class FreehandTool extends Tool {
       this.pathElement.setAttribute('fill', 'none');
       this.pathElement.setAttribute('class', 'freehand-path');
       this.svg.appendChild(this.pathElement);
-      
+
       this.updatePath();
     }
   }
@@ -58,7 +88,7 @@ export class FreehandTool extends Tool {
       const lastPoint = this.points[this.points.length - 1];
       const clamped = (this.constructor as typeof Tool).clampToImageBounds(point, Tool.imageBounds);
       const distance = Math.sqrt((clamped.x - lastPoint.x) ** 2 + (clamped.y - lastPoint.y) ** 2);
-      
+
       if (distance > 2) { // Minimum distance threshold
         this.points.push(clamped);
         this.updatePath();
@@ -69,24 +99,29 @@ export class FreehandTool extends Tool {
   override handleMouseUp(point: Point, _event: PointerEvent): void {
     if (this.isCurrentlyDrawing) {
       this.isCurrentlyDrawing = false;
-      
+
+      // Drop the jitter of raw pointer samples
+      const points = GeometryUtils.simplifyPath(this.points, this.options.simplify);
+
       // Only complete if we have enough points
-      if (this.points.length >= 3) {
-        // Create polygon shape from points
+      if (points.length >= 3) {
         this.currentShape = ShapeFactory.createDefault(
           uuid(),
-          'polygon'
-        ) as PolygonShape;
-        
-        // Update with actual points
-        this.currentShape.update({ type: 'polygon', points: this.points });
-        
+          'freehand'
+        ) as FreehandShape;
+
+        const geometry: FreehandGeometry = { type: 'freehand', points };
+        if (this.options.smoothing > 0) {
+          geometry.smoothing = this.options.smoothing;
+        }
+        this.currentShape.update(geometry);
+
         // Add to SVG
         this.svg.appendChild(this.currentShape.getElement());
-        
+
         this.onComplete(this.currentShape);
       }
-      
+
       this.cleanup();
     }
   }
@@ -94,12 +129,10 @@ export class FreehandTool extends Tool {
 
   private updatePath(): void {
     if (this.pathElement && this.points.length > 0) {
-      const pathData = this.points.map((point, index) => {
-        const command = index === 0 ? 'M' : 'L';
-        return `${command} ${point.x} ${point.y}`;
-      }).join(' ');
-      
-      this.pathElement.setAttribute('d', pathData);
+      this.pathElement.setAttribute(
+        'd',
+        SVGUtils.createSmoothPath(this.points, this.options.smoothing, false)
+      );
     }
   }
 
@@ -112,4 +145,4 @@ export class FreehandTool extends Tool {
     this.currentShape = null;
   }
 
-} 
\ No newline at end of file
+}
\ No newline at end of file
@@ -4,9 +4,10 @@ import { v4 as uuid } from 'uuid'
 import { Geometry, Point } from '../types/shape.types'
 import LineShape from '../shapes/LineShape'
 import { Tool } from './base/Tool';
+import { GeometryUtils } from '../utils/GeometryUtils'
 
 export class LineTool extends Tool {
-  override capabilities = { supportsMouse: true }
+  override capabilities = { supportsMouse: true, supportsSnapping: true }
   override name = 'line'
 
   private svg: SVGSVGElement
@@ -42,13 +43,16 @@ export class LineTool extends Tool {
     if (!this.isCurrentlyDrawing) {
       this.startDrawing(clamped)
     } else {
-      this.addPoint(clamped)
+      this.addPoint(this.constrainPoint(clamped, event))
     }
   }
 
-  override handleMouseMove(point: Point, _event: PointerEvent): void {
+  override handleMouseMove(point: Point, event: PointerEvent): void {
     if (!this.isCurrentlyDrawing || !this.currentShape) return
-    const clamped = (this.constructor as typeof Tool).clampToImageBounds(point, Tool.imageBounds)
+    const clamped = this.constrainPoint(
+      (this.constructor as typeof Tool).clampToImageBounds(point, Tool.imageBounds),
+      event
+    )
     const previewPoints =
       this.points.length === 1 ? [this.points[0], clamped] : [this.points[0], this.points[1]]
     const geometry: Geometry = { type: 'line', points: previewPoints as [Point, Point] }
@@ -79,6 +83,19 @@ export class LineTool extends Tool {
     return this.isCurrentlyDrawing
   }
 
+  override getSnapAnchor(): Point | null {
+    return this.isCurrentlyDrawing ? this.points[0] : null
+  }
+
+  // Shift keeps the line at 15° steps from its start
+  private constrainPoint(point: Point, event: PointerEvent): Point {
+    if (!event.shiftKey || this.points.length === 0) return point
+    return (this.constructor as typeof Tool).clampToImageBounds(
+      GeometryUtils.constrainAngle(point, this.points[0]),
+      Tool.imageBounds
+    )
+  }
+
   private startDrawing(point: Point): void {
     this.isCurrentlyDrawing = true
     this.points = [point]
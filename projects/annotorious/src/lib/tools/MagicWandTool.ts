@@ -0,0 +1,216 @@
+import { Tool } from './base/Tool';
+import { Point } from '../types/shape.types';
+import { ShapeFactory } from '../shapes/base/ShapeFactory';
+import { PolygonShape } from '../shapes/PolygonShape';
+import { FloodFill } from '../utils/FloodFill';
+import { GeometryUtils } from '../utils/GeometryUtils';
+import { v4 as uuid } from 'uuid';
+
+export interface MagicWandOptions {
+  /** Per-channel colour difference (0..255) still counted as the same region */
+  tolerance?: number;
+  /** Tolerance change per screen pixel dragged to the right (default 0.5) */
+  dragSensitivity?: number;
+  /** Outline simplification distance in screen pixels (default 1) */
+  simplify?: number;
+}
+
+/** Movement below this many pixels counts as a click, not a tolerance drag */
+const DRAG_THRESHOLD = 3;
+
+/**
+ * Selects a region of similar colour around the clicked pixel of the
+ * rendered image and turns its outline into a polygon. Dragging left or
+ * right while the button is down lowers or raises the tolerance.
+ *
+ * Pixels are read from the viewer canvas in the browser, so tiles must be
+ * same-origin or served with CORS headers; a tainted canvas can't be read.
+ */
+export class MagicWandTool extends Tool {
+  override name = 'magic-wand';
+  override capabilities = {
+    supportsMouse: true,
+  };
+
+  private svg: SVGSVGElement;
+  private onComplete: (shape: PolygonShape) => void;
+  private getCanvas: () => HTMLCanvasElement | null;
+  private options: Required<MagicWandOptions> = {
+    tolerance: 32,
+    dragSensitivity: 0.5,
+    simplify: 1,
+  };
+
+  private image: ImageData | null = null;
+  /** Canvas pixels per SVG unit */
+  private pixelRatio = 1;
+  private seed: Point | null = null;
+  private startX = 0;
+  private tolerance = 0;
+  private points: Point[] = [];
+  private previewShape: PolygonShape | null = null;
+  private frame: number | null = null;
+
+  constructor(
+    svg: SVGSVGElement,
+    onComplete: (shape: PolygonShape) => void,
+    imageBounds: { naturalWidth: number; naturalHeight: number },
+    getCanvas: () => HTMLCanvasElement | null,
+    options: MagicWandOptions = {}
+  ) {
+    super(imageBounds);
+    this.svg = svg;
+    this.onComplete = onComplete;
+    this.getCanvas = getCanvas;
+    this.setOptions(options);
+  }
+
+  setOptions(options: MagicWandOptions): void {
+    this.options = { ...this.options, ...options };
+    this.options.tolerance = MagicWandTool.clampTolerance(this.options.tolerance);
+  }
+
+  getOptions(): Required<MagicWandOptions> {
+    return { ...this.options };
+  }
+
+  override activate(): void {
+    this.svg.style.cursor = 'crosshair';
+  }
+
+  override deactivate(): void {
+    this.svg.style.cursor = '';
+    this.cleanup();
+  }
+
+  override handleMouseDown(point: Point, event: PointerEvent): void {
+    if (event.button !== 0) return; // Left click only
+
+    this.cleanup();
+    if (!this.captureImage()) return;
+
+    this.seed = { x: point.x * this.pixelRatio, y: point.y * this.pixelRatio };
+    this.startX = point.x;
+    this.tolerance = this.options.tolerance;
+
+    this.previewShape = ShapeFactory.createDefault(uuid(), 'polygon') as PolygonShape;
+    this.svg.appendChild(this.previewShape.getElement());
+    this.updateRegion();
+  }
+
+  override handleMouseMove(point: Point, _event: PointerEvent): void {
+    if (!this.seed) return;
+
+    const dx = point.x - this.startX;
+    const tolerance = Math.abs(dx) < DRAG_THRESHOLD
+      ? this.options.tolerance
+      : MagicWandTool.clampTolerance(this.options.tolerance + dx * this.options.dragSensitivity);
+
+    if (tolerance !== this.tolerance) {
+      this.tolerance = tolerance;
+      // Filling a full-screen canvas is too slow for every pointer event
+      if (this.frame === null) {
+        this.frame = requestAnimationFrame(() => {
+          this.frame = null;
+          this.updateRegion();
+        });
+      }
+    }
+  }
+
+  override handleMouseUp(_point: Point, _event: PointerEvent): void {
+    if (!this.seed) return;
+
+    if (this.frame !== null) {
+      cancelAnimationFrame(this.frame);
+      this.frame = null;
+      this.updateRegion();
+    }
+
+    const shape = this.previewShape;
+    const points = this.points;
+    this.previewShape = null;
+    this.cleanup();
+
+    if (shape && points.length >= 3) {
+      this.onComplete(shape);
+    } else {
+      shape?.getElement().remove();
+    }
+  }
+
+  /**
+   * Tolerance of the region being selected, or the configured one while idle
+   */
+  getTolerance(): number {
+    return this.seed ? this.tolerance : this.options.tolerance;
+  }
+
+  /**
+   * Snapshot the viewer canvas, so repeated fills while dragging read the
+   * same pixels
+   */
+  private captureImage(): boolean {
+    const canvas = this.getCanvas();
+    if (!canvas || canvas.width === 0 || canvas.height === 0) {
+      console.warn('Magic wand: no viewer canvas to read pixels from');
+      return false;
+    }
+
+    const copy = document.createElement('canvas');
+    copy.width = canvas.width;
+    copy.height = canvas.height;
+    const context = copy.getContext('2d', { willReadFrequently: true });
+    if (!context) return false;
+
+    try {
+      context.drawImage(canvas, 0, 0);
+      this.image = context.getImageData(0, 0, copy.width, copy.height);
+    } catch (error) {
+      // Cross-origin tiles without CORS headers taint the canvas
+      console.warn('Magic wand: viewer canvas pixels are not readable:', error);
+      return false;
+    }
+
+    const svgWidth = this.svg.clientWidth || canvas.clientWidth;
+    this.pixelRatio = svgWidth > 0 ? canvas.width / svgWidth : 1;
+    return true;
+  }
+
+  private updateRegion(): void {
+    if (!this.image || !this.seed || !this.previewShape) return;
+
+    const region = FloodFill.fill(this.image, this.seed, this.tolerance);
+    const outline = region ? FloodFill.traceOutline(region) : [];
+    const ratio = this.pixelRatio;
+
+    this.points = GeometryUtils.simplifyPath(
+      outline.map((p) => ({ x: p.x / ratio, y: p.y / ratio })),
+      this.options.simplify,
+      true
+    );
+
+    if (this.points.length >= 3) {
+      this.previewShape.update({ type: 'polygon', points: this.points });
+      this.previewShape.getElement().style.display = '';
+    } else {
+      this.previewShape.getElement().style.display = 'none';
+    }
+  }
+
+  private cleanup(): void {
+    if (this.frame !== null) {
+      cancelAnimationFrame(this.frame);
+      this.frame = null;
+    }
+    this.previewShape?.getElement().remove();
+    this.previewShape = null;
+    this.image = null;
+    this.seed = null;
+    this.points = [];
+  }
+
+  private static clampTolerance(value: number): number {
+    return Math.min(Math.max(Math.round(value), 0), 255);
+  }
+}
@@ -7,7 +7,8 @@ import { v4 as uuid } from 'uuid';
 export class PointTool extends Tool {
   override name = 'point';
   override capabilities = {
-    supportsMouse: true
+    supportsMouse: true,
+    supportsSnapping: true
   };
   
   private svg: SVGSVGElement;
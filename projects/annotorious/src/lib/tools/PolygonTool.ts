@@ -2,11 +2,13 @@ import { Tool } from './base/Tool';
 import { Point } from '../types/shape.types';
 import { ShapeFactory } from '../shapes/base/ShapeFactory';
 import { PolygonShape } from '../shapes/PolygonShape';
+import { GeometryUtils } from '../utils/GeometryUtils';
 import { v4 as uuid } from 'uuid';
 
 export class PolygonTool extends Tool {
   override capabilities = {
     supportsMouse: true,
+    supportsSnapping: true,
   };
   override name = 'polygon';
 
@@ -49,19 +51,19 @@ export class PolygonTool extends Tool {
       if (!this.isCurrentlyDrawing) {
         this.startDrawing(clamped);
       } else {
-        this.addPoint(clamped);
+        this.addPoint(this.constrainPoint(clamped, event));
       }
     }
   }
 
-  override handleMouseMove(point: Point, _event: PointerEvent): void {
+  override handleMouseMove(point: Point, event: PointerEvent): void {
     if (this.isCurrentlyDrawing && this.currentShape) {
       // Update the last point (preview line)
       const clamped = (this.constructor as typeof Tool).clampToImageBounds(
         point,
         Tool.imageBounds
       );
-      const points = [...this.points, clamped];
+      const points = [...this.points, this.constrainPoint(clamped, event)];
       this.currentShape.update({ type: 'polygon', points });
 
       // Check if near starting point to close polygon
@@ -97,6 +99,23 @@ export class PolygonTool extends Tool {
     return this.isCurrentlyDrawing;
   }
 
+  override getSnapAnchor(): Point | null {
+    return this.isCurrentlyDrawing ? this.points[this.points.length - 1] : null;
+  }
+
+  /**
+   * Shift keeps the edge from the last placed point at 15° steps
+   */
+  private constrainPoint(point: Point, event: PointerEvent): Point {
+    if (!event.shiftKey || this.points.length === 0) {
+      return point;
+    }
+    return (this.constructor as typeof Tool).clampToImageBounds(
+      GeometryUtils.constrainAngle(point, this.points[this.points.length - 1]),
+      Tool.imageBounds
+    );
+  }
+
   private startDrawing(point: Point): void {
     this.isCurrentlyDrawing = true;
     this.points = [point];
@@ -4,7 +4,7 @@ import { Tool } from "./base";
 import { v4 as uuid } from 'uuid';
 
 export class PolylineArrowTool extends Tool {
-  override capabilities = { supportsMouse: true };
+  override capabilities = { supportsMouse: true, supportsSnapping: true };
   override name = 'polyline-arrow';
 
   private svg: SVGSVGElement;
@@ -76,6 +76,10 @@ export class PolylineArrowTool extends Tool {
     return this.isCurrentlyDrawing;
   }
 
+  override getSnapAnchor(): Point | null {
+    return this.isCurrentlyDrawing ? this.points[this.points.length - 1] : null;
+  }
+
   private startDrawing(point: Point): void {
     this.isCurrentlyDrawing = true;
     this.points = [point];
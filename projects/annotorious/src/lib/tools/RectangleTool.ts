@@ -2,12 +2,14 @@ import { Tool } from './base/Tool';
 import { Point } from '../types/shape.types';
 import { ShapeFactory } from '../shapes/base/ShapeFactory';
 import { RectangleShape } from '../shapes/RectangleShape';
+import { GeometryUtils } from '../utils/GeometryUtils';
 import { v4 as uuid } from 'uuid';
 
 export class RectangleTool extends Tool {
   override name = 'rectangle';
   override capabilities = {
-    supportsMouse: true
+    supportsMouse: true,
+    supportsSnapping: true
   };
   
   private svg: SVGSVGElement;
@@ -55,26 +57,18 @@ export class RectangleTool extends Tool {
     }
   }
 
-  override handleMouseMove(point: Point): void {
+  override handleMouseMove(point: Point, event: PointerEvent): void {
     if (this.startPoint && this.currentShape) {
-      const clamped = (this.constructor as typeof Tool).clampToImageBounds(point, Tool.imageBounds);
-      // Calculate rectangle dimensions
-      const x = Math.min(this.startPoint.x, clamped.x);
-      const y = Math.min(this.startPoint.y, clamped.y);
-      const width = Math.abs(clamped.x - this.startPoint.x);
-      const height = Math.abs(clamped.y - this.startPoint.y);
-      
-      // Update shape
-      this.currentShape.update({ type: 'rectangle', x, y, width, height });
+      this.currentShape.update({ type: 'rectangle', ...this.getBox(this.startPoint, point, event) });
     }
   }
 
-  override handleMouseUp(point: Point): void {
+  override handleMouseUp(point: Point, event: PointerEvent): void {
     if (this.startPoint && this.currentShape) {
-      const clamped = (this.constructor as typeof Tool).clampToImageBounds(point, Tool.imageBounds);
+      const box = this.getBox(this.startPoint, point, event);
       // Only complete if the rectangle has some size
-      if (Math.abs(clamped.x - this.startPoint.x) > 2 && 
-          Math.abs(clamped.y - this.startPoint.y) > 2) {
+      if (box.width > 2 && box.height > 2) {
+        this.currentShape.update({ type: 'rectangle', ...box });
         this.onComplete(this.currentShape);
       } else {
         this.cleanup();
@@ -85,6 +79,19 @@ export class RectangleTool extends Tool {
     }
   }
 
+  /**
+   * Shift keeps the aspect ratio (a square unless configured), Alt grows
+   * the rectangle around the start point
+   */
+  private getBox(start: Point, point: Point, event: PointerEvent) {
+    const clamped = (this.constructor as typeof Tool).clampToImageBounds(point, Tool.imageBounds);
+    return GeometryUtils.constrainBox(start, clamped, {
+      aspectRatio: event.shiftKey ? this.drawingOptions.aspectRatio ?? 1 : null,
+      fromCenter: event.altKey,
+      bounds: (this.constructor as typeof Tool).getBoxBounds()
+    });
+  }
+
   private cleanup(): void {
     if (this.currentShape) {
       this.currentShape.destroy();
@@ -0,0 +1,9 @@
+import { LineTool } from './LineTool';
+
+/**
+ * Two-click distance measurement. Draws a line; the annotator attaches a
+ * `distance` measurement to it.
+ */
+export class RulerTool extends LineTool {
+  override name = 'ruler';
+}
@@ -0,0 +1,139 @@
+import { Tool } from './base/Tool';
+import { Point } from '../types/shape.types';
+import { ShapeFactory } from '../shapes/base/ShapeFactory';
+import { TextShape } from '../shapes/TextShape';
+import { v4 as uuid } from 'uuid';
+
+export class TextTool extends Tool {
+  override name = 'text';
+  override capabilities = {
+    supportsMouse: true
+  };
+
+  private svg: SVGSVGElement;
+  private onComplete: (shape: TextShape) => void;
+  private editor: SVGForeignObjectElement | null = null;
+  private input: HTMLInputElement | null = null;
+  private position: Point | null = null;
+
+  private readonly editorWidth = 200;
+  private readonly editorHeight = 28;
+
+  constructor(svg: SVGSVGElement, onComplete: (shape: TextShape) => void, imageBounds: { naturalWidth: number, naturalHeight: number }) {
+    super(imageBounds);
+    this.svg = svg;
+    this.onComplete = onComplete;
+  }
+
+  override activate(): void {
+    // ToolManager will route pointer events
+  }
+
+  override deactivate(): void {
+    // Switching tools keeps whatever was typed
+    this.commit();
+  }
+
+  override handleMouseDown(point: Point, event: PointerEvent): void {
+    if (event.button !== 0) return; // Left click only
+
+    // Clicking elsewhere while editing finishes the current text
+    if (this.editor) {
+      this.commit();
+      return;
+    }
+
+    const clamped = (this.constructor as typeof Tool).clampToImageBounds(point, Tool.imageBounds);
+    this.openEditor(clamped);
+  }
+
+  override handleMouseMove(_point: Point, _event: PointerEvent): void {
+    // No preview needed for text tool
+  }
+
+  override handleMouseUp(_point: Point, _event: PointerEvent): void {
+    // Text is placed on mouse down, so nothing to do here
+  }
+
+  /**
+   * Show an inline text input centred on the given SVG point
+   */
+  private openEditor(position: Point): void {
+    this.position = position;
+
+    const editor = document.createElementNS('http://www.w3.org/2000/svg', 'foreignObject');
+    editor.setAttribute('class', 'a9s-text-editor');
+    editor.setAttribute('x', (position.x - this.editorWidth / 2).toString());
+    editor.setAttribute('y', (position.y - this.editorHeight / 2).toString());
+    editor.setAttribute('width', this.editorWidth.toString());
+    editor.setAttribute('height', this.editorHeight.toString());
+
+    const input = document.createElement('input');
+    input.type = 'text';
+    input.placeholder = 'Enter text';
+    input.style.width = '100%';
+    input.style.height = '100%';
+    input.style.boxSizing = 'border-box';
+    input.style.textAlign = 'center';
+    input.style.font = '14px sans-serif';
+
+    // Keep pointer events inside the editor away from the ToolManager
+    input.addEventListener('pointerdown', (e) => e.stopPropagation());
+    input.addEventListener('keydown', (e) => {
+      if (e.key === 'Enter') {
+        e.preventDefault();
+        this.commit();
+      } else if (e.key === 'Escape') {
+        e.preventDefault();
+        this.cancel();
+      }
+    });
+    input.addEventListener('blur', () => this.commit());
+
+    editor.appendChild(input);
+    this.svg.appendChild(editor);
+    this.editor = editor;
+    this.input = input;
+
+    // Focus once the current pointer sequence has finished
+    setTimeout(() => input.focus());
+  }
+
+  /**
+   * Turn the typed text into a shape; empty input is discarded
+   */
+  private commit(): void {
+    if (!this.editor || !this.input || !this.position) return;
+
+    const text = this.input.value.trim();
+    const position = this.position;
+    this.closeEditor();
+
+    if (!text) return;
+
+    const textShape = ShapeFactory.createDefault(
+      uuid(),
+      'text'
+    ) as TextShape;
+    textShape.update({ type: 'text', x: position.x, y: position.y, text });
+    this.svg.appendChild(textShape.getElement());
+
+    this.onComplete(textShape);
+  }
+
+  private cancel(): void {
+    this.closeEditor();
+  }
+
+  private closeEditor(): void {
+    const editor = this.editor;
+    this.editor = null;
+    this.input = null;
+    this.position = null;
+    editor?.remove();
+  }
+
+  override destroy(): void {
+    this.closeEditor();
+  }
+}
@@ -12,6 +12,19 @@ export type ToolName = 'select' | 'rectangle' | 'polygon' | 'circle' | 'point' |
 export interface ToolCapabilities {
   supportsMouse?: boolean;
   supportsEnableDisable?: boolean;
+  /** Pointer positions are snapped before they reach the tool */
+  supportsSnapping?: boolean;
+}
+
+/**
+ * Constraints applied while a shape is drawn or resized with modifier keys
+ */
+export interface DrawingOptions {
+  /**
+   * Width/height ratio kept while Shift is held. Drawing defaults to 1
+   * (squares and circles), resizing to the shape's ratio when the drag starts.
+   */
+  aspectRatio?: number;
 }
 
 /**
@@ -29,6 +42,8 @@ export abstract class Tool extends EventEmitter {
    */
   capabilities?: ToolCapabilities;
 
+  protected drawingOptions: DrawingOptions = {};
+
   constructor(imageBounds: { naturalWidth: number; naturalHeight: number }) {
     Tool.imageBounds = imageBounds;
     super();
@@ -59,6 +74,16 @@ export abstract class Tool extends EventEmitter {
    */
   handleMouseUp?(point: Point, event: PointerEvent): void;
 
+  /**
+   * Last fixed point of the shape being drawn; Shift-snapping keeps the
+   * segment from it at 15° steps
+   */
+  getSnapAnchor?(): Point | null;
+
+  setDrawingOptions(options: DrawingOptions): void {
+    this.drawingOptions = { ...options };
+  }
+
   /**
    * Enable or disable the tool
    */
@@ -87,6 +112,13 @@ export abstract class Tool extends EventEmitter {
     };
   }
 
+  /**
+   * Image bounds as the width/height area used by `GeometryUtils.constrainBox`
+   */
+  protected static getBoxBounds(): { width: number; height: number } {
+    return { width: Tool.imageBounds.naturalWidth, height: Tool.imageBounds.naturalHeight };
+  }
+
   public static setContainerBound(bounds: {
     naturalWidth: number;
     naturalHeight: number;
@@ -5,6 +5,10 @@ export * from './CircleTool';
 export * from './EllipseTool';
 export * from './PolygonTool';
 export * from './RectangleTool';
+export * from './TextTool';
+export * from './RulerTool';
+export * from './AngleTool';
+export * from './MagicWandTool';
 
 
 import { PolygonTool } from './PolygonTool';
@@ -12,14 +16,31 @@ import { RectangleTool } from './RectangleTool';
 import { CircleTool } from './CircleTool';
 import { EllipseTool } from './EllipseTool';
 import { PointTool } from './PointTool';
-import { FreehandTool } from './FreehandTool';
-import { Tool } from './base/Tool';
+import { FreehandOptions, FreehandTool } from './FreehandTool';
+import { DrawingOptions, Tool } from './base/Tool';
 import { PolylineArrowTool } from './PolylineArrowTool';
 import { LineTool } from './LineTool';
+import { TextTool } from './TextTool';
+import { RulerTool } from './RulerTool';
+import { AngleTool } from './AngleTool';
+import { MagicWandOptions, MagicWandTool } from './MagicWandTool';
+
+/**
+ * Settings for tools that need more than the SVG and image bounds
+ */
+export interface ToolOptions {
+  /** Canvas the image is rendered into; read by the magic wand */
+  getCanvas?: () => HTMLCanvasElement | null;
+  magicWand?: MagicWandOptions;
+  freehand?: FreehandOptions;
+  drawing?: DrawingOptions;
+}
+
 export const createTools = (
   svg: SVGSVGElement,
   onComplete: (shape: any) => void,
-  imageBounds?: { naturalWidth: number; naturalHeight: number }
+  imageBounds?: { naturalWidth: number; naturalHeight: number },
+  options: ToolOptions = {}
 ): Tool[] => {
   const bounds = imageBounds || { naturalWidth: 0, naturalHeight: 0 };
   const tools: Tool[] = [
@@ -28,10 +49,17 @@ export const createTools = (
     new EllipseTool(svg, onComplete, bounds),
     new PolygonTool(svg, onComplete, bounds),
     new PointTool(svg, onComplete, bounds),
-    new FreehandTool(svg, onComplete, bounds),
+    new FreehandTool(svg, onComplete, bounds, options.freehand),
     new PolylineArrowTool(svg, onComplete, bounds),
-    new LineTool(svg, onComplete, bounds)
+    new LineTool(svg, onComplete, bounds),
+    new TextTool(svg, onComplete, bounds),
+    new RulerTool(svg, onComplete, bounds),
+    new AngleTool(svg, onComplete, bounds),
+    new MagicWandTool(svg, onComplete, bounds, options.getCanvas ?? (() => null), options.magicWand)
   ];
 
+  if (options.drawing) {
+    tools.forEach((tool) => tool.setDrawingOptions(options.drawing!));
+  }
   return tools;
 };
\ No newline at end of file
@@ -1,4 +1,5 @@
 import { Geometry, TextGeometry } from './shape.types';
+import { AnnotationLayer } from './layer.types';
 
 /**
  * Purpose of an annotation body
@@ -99,6 +100,12 @@ export interface Annotation {
   
   // UI and styling properties
   style?: Record<string, any>;
+  /** Id of the layer the annotation is drawn in (default layer when unset) */
+  layer?: string;
+  /** Stacking order within the layer, higher on top (0 when unset) */
+  zIndex?: number;
+  /** Locked annotations can be selected but not edited, moved or deleted */
+  locked?: boolean;
   
   // Metadata
   customData?: Record<string, any>;
@@ -191,6 +198,8 @@ export interface AnnotationStateSnapshot {
   annotations: Record<string, Annotation>;
   selectedIds: string[];
   editingId: string | null;
+  /** Layer definitions in stacking order */
+  layers?: AnnotationLayer[];
   version: string;
   timestamp: string;
 }
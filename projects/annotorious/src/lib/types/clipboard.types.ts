@@ -0,0 +1,27 @@
+import { Annotation } from './annotation.types';
+
+/**
+ * Identifies clipboard text written by the annotator
+ */
+export const CLIPBOARD_FORMAT = 'annotorious/annotations';
+
+/**
+ * What is kept of a copied annotation: no id, layer, stacking or lock,
+ * those belong to the annotator it is pasted into
+ */
+export type ClipboardAnnotation = Pick<
+  Annotation,
+  'body' | 'target' | 'label' | 'style' | 'customData'
+>;
+
+/**
+ * Serialized clipboard content, exchanged as JSON text so it can be
+ * pasted into another annotator instance or page
+ */
+export interface ClipboardPayload {
+  format: typeof CLIPBOARD_FORMAT;
+  version: 1;
+  /** Image source the annotations were copied from */
+  source?: string;
+  annotations: ClipboardAnnotation[];
+}
@@ -0,0 +1,55 @@
+/**
+ * COCO object detection dataset types (https://cocodataset.org/#format-data)
+ */
+
+export interface COCOImage {
+  id: number;
+  file_name: string;
+  width: number;
+  height: number;
+}
+
+export interface COCOCategory {
+  id: number;
+  name: string;
+  supercategory?: string;
+}
+
+export interface COCORunLength {
+  counts: number[] | string;
+  /** [height, width] */
+  size: [number, number];
+}
+
+export interface COCOAnnotation {
+  id: number;
+  image_id: number;
+  category_id: number;
+  /** [x, y, width, height] */
+  bbox: [number, number, number, number];
+  /**
+   * Polygons as flat [x1, y1, x2, y2, ...] arrays, or a run-length encoded
+   * mask for crowd regions (not imported)
+   */
+  segmentation: number[][] | COCORunLength;
+  area: number;
+  iscrowd: 0 | 1;
+  /** Confidence of model predictions */
+  score?: number;
+}
+
+export interface COCODataset {
+  info?: Record<string, any>;
+  images: COCOImage[];
+  annotations: COCOAnnotation[];
+  categories: COCOCategory[];
+}
+
+/**
+ * Image information needed by dataset exporters
+ */
+export interface DatasetImageInfo {
+  fileName: string;
+  width: number;
+  height: number;
+}
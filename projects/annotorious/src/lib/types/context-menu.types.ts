@@ -0,0 +1,62 @@
+import { Annotation } from './annotation.types';
+import { Point } from './shape.types';
+
+/**
+ * What was right-clicked or long-pressed: an annotation, one of the edit
+ * handles of the selected annotation, or the empty canvas
+ */
+export type ContextTarget = 'annotation' | 'handle' | 'canvas';
+
+/**
+ * Emitted as `contextMenu` by the annotator
+ */
+export interface AnnotationContextEvent {
+  target: ContextTarget;
+  /** Annotation hit, or null on the canvas */
+  annotation: Annotation | null;
+  /** Vertex of the handle hit, or null for other targets and non-vertex handles */
+  vertexIndex: number | null;
+  /** Pointer position in image coordinates */
+  imagePoint: Point;
+  /** Pointer position in the page, for placing a menu */
+  clientX: number;
+  clientY: number;
+  /** `contextmenu` event, or the pointer down that started a long-press */
+  originalEvent: MouseEvent;
+  /**
+   * Mark the event as handled by the app: the built-in menu stays closed
+   * and the browser menu is suppressed
+   */
+  preventDefault(): void;
+  readonly defaultPrevented: boolean;
+}
+
+export type BuiltInContextMenuItem =
+  | 'edit-label'
+  | 'add-vertex'
+  | 'remove-vertex'
+  | 'duplicate'
+  | 'bring-to-front'
+  | 'delete';
+
+/**
+ * App-defined entry of the built-in menu
+ */
+export interface ContextMenuItem {
+  id: string;
+  label: string;
+  /** Shown only when this returns true (default: always) */
+  when?: (event: AnnotationContextEvent) => boolean;
+  /** Shown but not selectable when this returns true */
+  disabled?: (event: AnnotationContextEvent) => boolean;
+  action: (event: AnnotationContextEvent) => void;
+}
+
+export interface ContextMenuConfig {
+  /** Show the built-in menu (default true when a config is given) */
+  enabled?: boolean;
+  /** Entries in display order; built-in ids and app items can be mixed */
+  items?: Array<BuiltInContextMenuItem | ContextMenuItem>;
+  /** Replacement captions for built-in entries, e.g. for translation */
+  labels?: Partial<Record<BuiltInContextMenuItem, string>>;
+}
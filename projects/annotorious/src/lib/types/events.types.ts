@@ -5,4 +5,8 @@ export interface ArrowClickEvent {
     direction: 'up' | 'down' | 'both';
     element: SVGElement;
     event: MouseEvent;
-}
\ No newline at end of file
+}
+export interface HistoryChangedEvent {
+    canUndo: boolean;
+    canRedo: boolean;
+}
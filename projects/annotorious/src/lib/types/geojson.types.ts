@@ -0,0 +1,61 @@
+import { AnnotationBody } from './annotation.types';
+import { Geometry, PolylineArrowGeometry, TextGeometry } from './shape.types';
+
+/**
+ * GeoJSON types (RFC 7946) with coordinates in image pixel space
+ */
+
+export type GeoJSONPosition = [number, number];
+
+export interface GeoJSONPoint {
+  type: 'Point';
+  coordinates: GeoJSONPosition;
+}
+
+export interface GeoJSONLineString {
+  type: 'LineString';
+  coordinates: GeoJSONPosition[];
+}
+
+export interface GeoJSONPolygon {
+  type: 'Polygon';
+  coordinates: GeoJSONPosition[][];
+}
+
+export type GeoJSONGeometry = GeoJSONPoint | GeoJSONLineString | GeoJSONPolygon;
+
+/**
+ * Feature properties written for each annotation. The shape parameters
+ * allow the original geometry to be restored on import.
+ */
+export interface GeoJSONAnnotationProperties {
+  geometryType?: Geometry['type'];
+  bodies?: AnnotationBody[];
+  label?: TextGeometry;
+  customData?: Record<string, any>;
+  /** Circle radius */
+  radius?: number;
+  /** Ellipse radii */
+  radiusX?: number;
+  radiusY?: number;
+  /** Rotation in degrees for rectangles, ellipses and text */
+  rotation?: number;
+  /** Text content for text annotations */
+  text?: string;
+  arrows?: PolylineArrowGeometry['arrows'];
+  /** Curve rounding of freehand paths */
+  smoothing?: number;
+  [key: string]: any;
+}
+
+export interface GeoJSONFeature {
+  type: 'Feature';
+  id?: string | number;
+  geometry: GeoJSONGeometry;
+  properties: GeoJSONAnnotationProperties | null;
+}
+
+export interface GeoJSONFeatureCollection {
+  type: 'FeatureCollection';
+  features: GeoJSONFeature[];
+}
@@ -1,3 +1,10 @@
 export * from './annotation.types';
 export * from './shape.types';
-export * from './events.types';
\ No newline at end of file
+export * from './events.types';
+export * from './w3c.types';
+export * from './geojson.types';
+export * from './coco.types';
+export * from './layer.types';
+export * from './measurement.types';
+export * from './clipboard.types';
+export * from './context-menu.types';
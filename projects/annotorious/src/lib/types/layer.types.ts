@@ -0,0 +1,18 @@
+/**
+ * Layer that annotations without a `layer` belong to. It always exists.
+ */
+export const DEFAULT_LAYER_ID = 'default';
+
+/**
+ * A named group of annotations, drawn in its own SVG group. Layers are
+ * stacked in list order, the last one on top.
+ */
+export interface AnnotationLayer {
+  id: string;
+  name: string;
+  visible: boolean;
+  /** 0..1, applied to the whole layer */
+  opacity: number;
+  /** Locked layers can't be selected or edited */
+  locked: boolean;
+}
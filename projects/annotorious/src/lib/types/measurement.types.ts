@@ -0,0 +1,28 @@
+export type MeasurementType = 'distance' | 'area' | 'angle';
+
+/**
+ * Maps image pixels to a real-world unit, e.g. `{ pixelsPerUnit: 2.5, unit: 'µm' }`
+ */
+export interface MeasurementCalibration {
+  pixelsPerUnit: number;
+  unit: string;
+  /** Decimal places in labels (default 2) */
+  decimals?: number;
+}
+
+/**
+ * Measurement stored in `customData.measurement`. Lengths are in `unit`,
+ * areas in `unit`², angles in degrees; `unit` is 'px' without calibration.
+ */
+export interface Measurement {
+  type: MeasurementType;
+  unit: string;
+  /** Distance: segment length, summed for polylines */
+  length?: number;
+  area?: number;
+  perimeter?: number;
+  /** Angle at the middle vertex, 0..180 */
+  degrees?: number;
+  /** Label text */
+  text: string;
+}
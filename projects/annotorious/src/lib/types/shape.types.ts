@@ -22,6 +22,8 @@ export interface RectangleGeometry extends BaseGeometry {
   y: number;
   width: number;
   height: number;
+  /** Clockwise rotation in degrees around the rectangle's center */
+  rotation?: number;
 }
 
 /**
@@ -51,6 +53,8 @@ export interface EllipseGeometry extends BaseGeometry {
   cy: number;
   rx: number;
   ry: number;
+  /** Clockwise rotation in degrees around the ellipse's center */
+  rotation?: number;
 }
 
 /**
@@ -59,6 +63,7 @@ export interface EllipseGeometry extends BaseGeometry {
 export interface FreehandGeometry extends BaseGeometry {
   type: 'freehand';
   points: Point[];
+  /** Curve rounding through the points, 0 (straight segments) to 1 */
   smoothing?: number;
 }
 
@@ -86,6 +91,8 @@ export interface TextGeometry extends BaseGeometry {
   y: number;
   text: string;
   style?: TextStyle;
+  /** Clockwise rotation in degrees around the text anchor (x, y) */
+  rotation?: number;
 }
 
 export interface TextStyle {
@@ -0,0 +1,61 @@
+/**
+ * W3C Web Annotation Data Model types (https://www.w3.org/TR/annotation-model/)
+ */
+
+export const W3C_ANNOTATION_CONTEXT = 'http://www.w3.org/ns/anno.jsonld';
+
+/**
+ * SVG selector carrying the shape as SVG markup
+ */
+export interface W3CSvgSelector {
+  type: 'SvgSelector';
+  value: string;
+}
+
+/**
+ * Media fragment selector, e.g. `xywh=pixel:10,20,100,50`
+ */
+export interface W3CFragmentSelector {
+  type: 'FragmentSelector';
+  conformsTo: 'http://www.w3.org/TR/media-frags/';
+  value: string;
+}
+
+export type W3CSelector = W3CSvgSelector | W3CFragmentSelector;
+
+export interface W3CAgent {
+  id: string;
+  type?: string;
+  name?: string;
+}
+
+export interface W3CBody {
+  type?: string;
+  purpose?: string;
+  value?: string;
+  id?: string;
+  format?: string;
+  /** Class id of a classification body, when it differs from the label (extension) */
+  classId?: string;
+  /** Confidence of a classification body, 0–1 (extension) */
+  confidence?: number;
+  creator?: W3CAgent;
+  created?: string;
+  modified?: string;
+}
+
+export interface W3CTarget {
+  source: string;
+  selector: W3CSelector | W3CSelector[];
+}
+
+export interface W3CAnnotation {
+  '@context': string | (string | Record<string, string>)[];
+  id: string;
+  type: 'Annotation';
+  body: W3CBody[];
+  target: W3CTarget;
+  created?: string;
+  modified?: string;
+  creator?: W3CAgent;
+}
@@ -0,0 +1,126 @@
+import { Point } from '../types/shape.types';
+
+export interface FloodFillRegion {
+  /** 1 for pixels in the region, 0 elsewhere; row-major, `width` × `height` */
+  mask: Uint8Array;
+  width: number;
+  height: number;
+  /** Number of pixels in the region */
+  size: number;
+}
+
+// Moore neighbourhood, clockwise starting west: W, NW, N, NE, E, SE, S, SW
+const NEIGHBOUR_X = [-1, -1, 0, 1, 1, 1, 0, -1];
+const NEIGHBOUR_Y = [0, -1, -1, -1, 0, 1, 1, 1];
+
+/**
+ * Colour-tolerance flood fill over raw pixels and tracing of the filled
+ * region's outline, for the magic wand tool
+ */
+export class FloodFill {
+  /**
+   * Fill the 4-connected region around `seed` whose pixels differ from the
+   * seed colour by at most `tolerance` (0..255) in every RGB channel
+   */
+  static fill(image: ImageData, seed: Point, tolerance: number): FloodFillRegion | null {
+    const { width, height, data } = image;
+    const seedX = Math.floor(seed.x);
+    const seedY = Math.floor(seed.y);
+    if (seedX < 0 || seedY < 0 || seedX >= width || seedY >= height) {
+      return null;
+    }
+
+    const offset = (seedY * width + seedX) * 4;
+    const r = data[offset];
+    const g = data[offset + 1];
+    const b = data[offset + 2];
+    const matches = (index: number) => {
+      const i = index * 4;
+      return (
+        Math.abs(data[i] - r) <= tolerance &&
+        Math.abs(data[i + 1] - g) <= tolerance &&
+        Math.abs(data[i + 2] - b) <= tolerance
+      );
+    };
+
+    const mask = new Uint8Array(width * height);
+    let size = 0;
+
+    // Scanline fill: fill a whole row span, then queue the rows above and below
+    const stack: number[] = [seedY * width + seedX];
+    while (stack.length > 0) {
+      const index = stack.pop()!;
+      if (mask[index]) continue;
+
+      const y = Math.floor(index / width);
+      const rowStart = y * width;
+      let left = index;
+      while (left > rowStart && !mask[left - 1] && matches(left - 1)) left--;
+      let right = index;
+      while (right < rowStart + width - 1 && !mask[right + 1] && matches(right + 1)) right++;
+
+      for (let i = left; i <= right; i++) {
+        mask[i] = 1;
+        size++;
+        if (y > 0 && !mask[i - width] && matches(i - width)) stack.push(i - width);
+        if (y < height - 1 && !mask[i + width] && matches(i + width)) stack.push(i + width);
+      }
+    }
+
+    return { mask, width, height, size };
+  }
+
+  /**
+   * Outer outline of a region as pixel centres, clockwise, found by Moore
+   * neighbour tracing from the region's top-left pixel. Holes are ignored.
+   */
+  static traceOutline(region: FloodFillRegion): Point[] {
+    const { mask, width, height } = region;
+    const start = mask.indexOf(1);
+    if (start === -1) return [];
+
+    const inside = (x: number, y: number) =>
+      x >= 0 && y >= 0 && x < width && y < height && mask[y * width + x] === 1;
+
+    const startX = start % width;
+    const startY = Math.floor(start / width);
+    const outline: Point[] = [{ x: startX + 0.5, y: startY + 0.5 }];
+
+    let x = startX;
+    let y = startY;
+    // The start pixel is the first in scan order, so its west neighbour is outside
+    let searchFrom = 0;
+    let firstDirection = -1;
+    const maxSteps = 4 * region.size + 8;
+
+    for (let step = 0; step < maxSteps; step++) {
+      let direction = -1;
+      for (let k = 0; k < 8; k++) {
+        const d = (searchFrom + k) % 8;
+        if (inside(x + NEIGHBOUR_X[d], y + NEIGHBOUR_Y[d])) {
+          direction = d;
+          break;
+        }
+      }
+      if (direction === -1) break; // single isolated pixel
+
+      // Jacob's stopping criterion: back at the start, leaving the same way
+      if (x === startX && y === startY) {
+        if (firstDirection === direction) break;
+        if (firstDirection === -1) firstDirection = direction;
+      }
+
+      x += NEIGHBOUR_X[direction];
+      y += NEIGHBOUR_Y[direction];
+      if (!(x === startX && y === startY)) {
+        outline.push({ x: x + 0.5, y: y + 0.5 });
+      }
+
+      // Resume the search at the outside neighbour checked just before the
+      // move, expressed relative to the new pixel
+      searchFrom = (direction + (direction % 2 === 0 ? 6 : 5)) % 8;
+    }
+
+    return outline;
+  }
+}
@@ -1,7 +1,186 @@
-import { Point } from '../types';
+import { Geometry, Point } from '../types';
+import { HitDetection } from './HitDetection';
+
+/**
+ * Limits for a box dragged from a start point, see `GeometryUtils.constrainBox`
+ */
+export interface BoxConstraints {
+  /** Width/height ratio to keep; unset for a free box */
+  aspectRatio?: number | null;
+  /** Grow the box symmetrically around the start point */
+  fromCenter?: boolean;
+  /** Area from 0,0 the box has to stay inside */
+  bounds?: { width: number; height: number };
+}
 
 // utils/GeometryUtils.ts
 export class GeometryUtils {
+  /**
+   * Area enclosed by a polygon (shoelace formula), independent of winding
+   */
+  static polygonArea(points: Point[]): number {
+    let sum = 0;
+    for (let i = 0; i < points.length; i++) {
+      const current = points[i];
+      const next = points[(i + 1) % points.length];
+      sum += current.x * next.y - next.x * current.y;
+    }
+    return Math.abs(sum) / 2;
+  }
+
+  /**
+   * Copy of a geometry moved by the given offset
+   */
+  static translate<T extends Geometry>(geometry: T, dx: number, dy: number): T {
+    const move = (p: Point) => ({ x: p.x + dx, y: p.y + dy });
+    const moved = geometry as Geometry;
+
+    switch (moved.type) {
+      case 'rectangle':
+      case 'text':
+      case 'point':
+        return { ...geometry, x: moved.x + dx, y: moved.y + dy };
+      case 'circle':
+      case 'ellipse':
+        return { ...geometry, cx: moved.cx + dx, cy: moved.cy + dy };
+      case 'polygon':
+      case 'freehand':
+      case 'polyline-arrow':
+      case 'line':
+        return { ...geometry, points: moved.points.map(move) };
+      default:
+        return { ...geometry };
+    }
+  }
+
+  /**
+   * Ramer–Douglas–Peucker simplification: drop points that deviate less
+   * than `tolerance` from the simplified outline. Closed paths are split at
+   * the point farthest from the first one so both halves keep their ends.
+   */
+  static simplifyPath(points: Point[], tolerance: number, closed = false): Point[] {
+    if (points.length < 3 || tolerance <= 0) {
+      return points.slice();
+    }
+
+    if (closed) {
+      let farthest = 0;
+      let maxDistance = -1;
+      points.forEach((p, index) => {
+        const distance = Math.hypot(p.x - points[0].x, p.y - points[0].y);
+        if (distance > maxDistance) {
+          maxDistance = distance;
+          farthest = index;
+        }
+      });
+      if (farthest === 0) {
+        return [points[0]];
+      }
+      const first = GeometryUtils.simplifyPath(points.slice(0, farthest + 1), tolerance);
+      const second = GeometryUtils.simplifyPath([...points.slice(farthest), points[0]], tolerance);
+      return [...first.slice(0, -1), ...second.slice(0, -1)];
+    }
+
+    const keep = new Uint8Array(points.length);
+    keep[0] = 1;
+    keep[points.length - 1] = 1;
+
+    // Iterative to stay clear of the call stack limit on long traced outlines
+    const stack: Array<[number, number]> = [[0, points.length - 1]];
+    while (stack.length > 0) {
+      const [start, end] = stack.pop()!;
+      let index = -1;
+      let maxDistance = tolerance;
+      for (let i = start + 1; i < end; i++) {
+        const distance = HitDetection.distanceToLineSegment(points[i], points[start], points[end]);
+        if (distance > maxDistance) {
+          maxDistance = distance;
+          index = i;
+        }
+      }
+      if (index !== -1) {
+        keep[index] = 1;
+        stack.push([start, index], [index, end]);
+      }
+    }
+
+    return points.filter((_, i) => keep[i] === 1);
+  }
+
+  /**
+   * Project a point onto the nearest direction from `anchor` that is a
+   * multiple of `step` degrees, keeping its distance along that direction
+   */
+  static constrainAngle(point: Point, anchor: Point, step = 15): Point {
+    const dx = point.x - anchor.x;
+    const dy = point.y - anchor.y;
+    const stepRadians = (step * Math.PI) / 180;
+    const angle = Math.round(Math.atan2(dy, dx) / stepRadians) * stepRadians;
+    const length = dx * Math.cos(angle) + dy * Math.sin(angle);
+    return {
+      x: anchor.x + Math.cos(angle) * length,
+      y: anchor.y + Math.sin(angle) * length,
+    };
+  }
+
+  /**
+   * Box spanned by dragging from `start` to `end`. With an aspect ratio the
+   * longer side of the drag sets the size; with bounds the box shrinks to
+   * fit, uniformly when the ratio has to be kept.
+   */
+  static constrainBox(
+    start: Point,
+    end: Point,
+    constraints: BoxConstraints = {}
+  ): { x: number; y: number; width: number; height: number } {
+    const { aspectRatio, fromCenter, bounds } = constraints;
+    const signX = end.x < start.x ? -1 : 1;
+    const signY = end.y < start.y ? -1 : 1;
+    // Extents from the start point; half the size when drawing from the centre
+    let width = Math.abs(end.x - start.x);
+    let height = Math.abs(end.y - start.y);
+
+    if (aspectRatio && aspectRatio > 0) {
+      if (width / aspectRatio > height) {
+        height = width / aspectRatio;
+      } else {
+        width = height * aspectRatio;
+      }
+    }
+
+    if (bounds) {
+      const roomX = Math.max(0, fromCenter
+        ? Math.min(start.x, bounds.width - start.x)
+        : signX < 0 ? start.x : bounds.width - start.x);
+      const roomY = Math.max(0, fromCenter
+        ? Math.min(start.y, bounds.height - start.y)
+        : signY < 0 ? start.y : bounds.height - start.y);
+
+      if (aspectRatio && aspectRatio > 0) {
+        const scale = Math.min(
+          1,
+          width > 0 ? roomX / width : 1,
+          height > 0 ? roomY / height : 1
+        );
+        width *= scale;
+        height *= scale;
+      } else {
+        width = Math.min(width, roomX);
+        height = Math.min(height, roomY);
+      }
+    }
+
+    if (fromCenter) {
+      return { x: start.x - width, y: start.y - height, width: width * 2, height: height * 2 };
+    }
+    return {
+      x: signX < 0 ? start.x - width : start.x,
+      y: signY < 0 ? start.y - height : start.y,
+      width,
+      height,
+    };
+  }
+
   static getMidpointAndPerpendicular(
     point1: Point,
     point2: Point,
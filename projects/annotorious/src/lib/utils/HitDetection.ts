@@ -18,12 +18,14 @@ export class HitDetection {
   private static readonly DEFAULT_TOLERANCE = 10; // pixels
 
   /**
-   * Test if a point hits a polygon (on the boundary or within tolerance)
+   * Test if a point hits a polygon (on the boundary or within tolerance,
+   * or anywhere inside when filled)
    */
   static hitTestPolygon(
     point: Point,
     geometry: Geometry,
-    tolerance: number = this.DEFAULT_TOLERANCE
+    tolerance: number = this.DEFAULT_TOLERANCE,
+    filled: boolean = false
   ): HitTestResult {
     if (
       geometry.type !== 'polygon' ||
@@ -34,13 +36,9 @@ export class HitDetection {
     }
 
     const points = geometry.points;
-    // Only check distance to polygon boundary (not inside)
     const distance = this.distanceToPolygonBoundary(point, points);
-    return {
-      hit: distance <= tolerance,
-      distance,
-      tolerance,
-    };
+    const inside = filled && SVGUtils.isPointInPolygon(point, points);
+    return this.toResult(distance, tolerance, inside);
   }
 
   /**
@@ -49,21 +47,28 @@ export class HitDetection {
   static hitTestRectangle(
     point: Point,
     geometry: Geometry,
-    tolerance: number = this.DEFAULT_TOLERANCE
+    tolerance: number = this.DEFAULT_TOLERANCE,
+    filled: boolean = false
   ): HitTestResult {
-    const { x, y, width, height } = geometry as RectangleGeometry;
-    // Only check distance to rectangle boundary (not inside)
-    const distance = this.distanceToRectangleBoundary(point, {
+    const { x, y, width, height, rotation } = geometry as RectangleGeometry;
+    const local = this.toLocalPoint(
+      point,
+      { x: x + width / 2, y: y + height / 2 },
+      rotation
+    );
+    const distance = this.distanceToRectangleBoundary(local, {
       x,
       y,
       width,
       height,
     });
-    return {
-      hit: distance <= tolerance,
-      distance,
-      tolerance,
-    };
+    const inside =
+      filled &&
+      local.x >= x &&
+      local.x <= x + width &&
+      local.y >= y &&
+      local.y <= y + height;
+    return this.toResult(distance, tolerance, inside);
   }
 
   /**
@@ -72,7 +77,8 @@ export class HitDetection {
   static hitTestCircle(
     point: Point,
     geometry: Geometry,
-    tolerance: number = this.DEFAULT_TOLERANCE
+    tolerance: number = this.DEFAULT_TOLERANCE,
+    filled: boolean = false
   ): HitTestResult {
     if (geometry.type !== 'circle') {
       return { hit: false, distance: Infinity, tolerance };
@@ -80,12 +86,7 @@ export class HitDetection {
 
     const { cx, cy, r } = geometry;
     const distance = Math.sqrt((point.x - cx) ** 2 + (point.y - cy) ** 2);
-
-    return {
-      hit: Math.abs(distance - r) <= tolerance,
-      distance: Math.abs(distance - r),
-      tolerance,
-    };
+    return this.toResult(Math.abs(distance - r), tolerance, filled && distance <= r);
   }
 
   /**
@@ -94,23 +95,20 @@ export class HitDetection {
   static hitTestEllipse(
     point: Point,
     geometry: Geometry,
-    tolerance: number = this.DEFAULT_TOLERANCE
+    tolerance: number = this.DEFAULT_TOLERANCE,
+    filled: boolean = false
   ): HitTestResult {
     if (geometry.type !== 'ellipse') {
       return { hit: false, distance: Infinity, tolerance };
     }
 
-    const { cx, cy, rx, ry } = geometry;
+    const { cx, cy, rx, ry, rotation } = geometry;
+    const local = this.toLocalPoint(point, { x: cx, y: cy }, rotation);
     // Normalize point coordinates
-    const nx = (point.x - cx) / rx;
-    const ny = (point.y - cy) / ry;
-    // Only check distance to ellipse border (not inside)
+    const nx = (local.x - cx) / rx;
+    const ny = (local.y - cy) / ry;
     const distance = Math.abs(nx * nx + ny * ny - 1) * Math.min(rx, ry); // Approximate pixel distance
-    return {
-      hit: distance <= tolerance,
-      distance,
-      tolerance,
-    };
+    return this.toResult(distance, tolerance, filled && nx * nx + ny * ny <= 1);
   }
 
   /**
@@ -136,8 +134,30 @@ export class HitDetection {
   }
 
   /**
-   * Test if a point hits a rectangle
+   * Test if a point hits a freehand path. Paths of three or more points are
+   * drawn closed, so they are tested like polygons.
    */
+  static hitTestFreehand(
+    point: Point,
+    geometry: Geometry,
+    tolerance: number = this.DEFAULT_TOLERANCE,
+    filled: boolean = false
+  ): HitTestResult {
+    if (geometry.type !== 'freehand' || !geometry.points || geometry.points.length < 2) {
+      return { hit: false, distance: Infinity, tolerance };
+    }
+
+    const points = geometry.points;
+    if (points.length === 2) {
+      const distance = this.distanceToLineSegment(point, points[0], points[1]);
+      return this.toResult(distance, tolerance, false);
+    }
+
+    const distance = this.distanceToPolygonBoundary(point, points);
+    const inside = filled && SVGUtils.isPointInPolygon(point, points);
+    return this.toResult(distance, tolerance, inside);
+  }
+
   /**
    * Test if a point hits text (direct text hit, not rectangle bounds)
    */
@@ -146,7 +166,8 @@ export class HitDetection {
     geometry: Geometry,
     tolerance: number = 0
   ): HitTestResult {
-    const { x, y, text, style } = geometry as TextGeometry;
+    const { x, y, text, style, rotation } = geometry as TextGeometry;
+    const local = this.toLocalPoint(point, { x, y }, rotation);
     const fontSize = style?.fontSize || 16;
     const fontFamily = style?.fontFamily || 'Arial';
 
@@ -165,7 +186,7 @@ export class HitDetection {
       height: estimatedHeight,
     };
 
-    const distance = this.distanceToTextBounds(point, textBounds, fontSize);
+    const distance = this.distanceToTextBounds(local, textBounds, fontSize);
 
     return {
       hit: distance <= tolerance,
@@ -209,22 +230,26 @@ export class HitDetection {
   }
 
   /**
-   * Generic hit test that determines the best method based on geometry type
+   * Generic hit test that determines the best method based on geometry type.
+   * With `filled`, the interior of closed shapes counts as a hit too.
    */
   static hitTest(
     point: Point,
     geometry: Geometry,
-    tolerance: number = this.DEFAULT_TOLERANCE
+    tolerance: number = this.DEFAULT_TOLERANCE,
+    filled: boolean = false
   ): HitTestResult {
     switch (geometry.type) {
       case 'polygon':
-        return this.hitTestPolygon(point, geometry, tolerance);
+        return this.hitTestPolygon(point, geometry, tolerance, filled);
       case 'rectangle':
-        return this.hitTestRectangle(point, geometry, tolerance);
+        return this.hitTestRectangle(point, geometry, tolerance, filled);
       case 'circle':
-        return this.hitTestCircle(point, geometry, tolerance);
+        return this.hitTestCircle(point, geometry, tolerance, filled);
       case 'ellipse':
-        return this.hitTestEllipse(point, geometry, tolerance);
+        return this.hitTestEllipse(point, geometry, tolerance, filled);
+      case 'freehand':
+        return this.hitTestFreehand(point, geometry, tolerance, filled);
       case 'point':
         return this.hitTestPoint(point, geometry, tolerance);
       case 'text':
@@ -239,6 +264,33 @@ export class HitDetection {
     }
   }
 
+  /**
+   * Interior hits report at most the tolerance as their distance
+   */
+  private static toResult(
+    edgeDistance: number,
+    tolerance: number,
+    inside: boolean
+  ): HitTestResult {
+    const distance = inside ? Math.min(edgeDistance, tolerance) : edgeDistance;
+    return {
+      hit: inside || edgeDistance <= tolerance,
+      distance,
+      tolerance,
+    };
+  }
+
+  /**
+   * Map a point into the unrotated frame of a shape rotated around center
+   */
+  private static toLocalPoint(
+    point: Point,
+    center: Point,
+    rotation?: number
+  ): Point {
+    return rotation ? SVGUtils.rotatePoint(point, center, -rotation) : point;
+  }
+
   /**
    * Calculate distance from point to polygon boundary
    */
@@ -263,7 +315,7 @@ export class HitDetection {
   /**
    * Calculate distance from point to line segment
    */
-  private static distanceToLineSegment(
+  static distanceToLineSegment(
     point: Point,
     lineStart: Point,
     lineEnd: Point
@@ -300,6 +352,22 @@ export class HitDetection {
     return Math.sqrt(dx * dx + dy * dy);
   }
 
+  /**
+   * Closest point to `point` on a line segment
+   */
+  static closestPointOnSegment(point: Point, lineStart: Point, lineEnd: Point): Point {
+    const dx = lineEnd.x - lineStart.x;
+    const dy = lineEnd.y - lineStart.y;
+    const lenSq = dx * dx + dy * dy;
+    if (lenSq === 0) return { ...lineStart };
+
+    const t = Math.max(
+      0,
+      Math.min(1, ((point.x - lineStart.x) * dx + (point.y - lineStart.y) * dy) / lenSq)
+    );
+    return { x: lineStart.x + t * dx, y: lineStart.y + t * dy };
+  }
+
   /**
    * Calculate distance from point to rectangle boundary
    */
@@ -0,0 +1,141 @@
+import { Geometry, Point } from '../types/shape.types';
+import {
+  Measurement,
+  MeasurementCalibration,
+  MeasurementType,
+} from '../types/measurement.types';
+import { GeometryUtils } from './GeometryUtils';
+
+/**
+ * Distances, areas, perimeters and angles of geometries in image pixels,
+ * converted with an optional calibration
+ */
+export class MeasurementUtils {
+  /**
+   * Measurement type a geometry gets when none is requested
+   */
+  static getDefaultType(geometry: Geometry): MeasurementType | null {
+    switch (geometry.type) {
+      case 'rectangle':
+      case 'polygon':
+      case 'freehand':
+      case 'circle':
+      case 'ellipse':
+        return 'area';
+      case 'line':
+      case 'polyline-arrow':
+        return 'distance';
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Measure a geometry; null when the type doesn't apply to it
+   */
+  static measure(
+    geometry: Geometry,
+    type: MeasurementType | null = MeasurementUtils.getDefaultType(geometry),
+    calibration: MeasurementCalibration | null = null
+  ): Measurement | null {
+    const scale = calibration && calibration.pixelsPerUnit > 0 ? calibration.pixelsPerUnit : 1;
+    const unit = calibration && calibration.pixelsPerUnit > 0 ? calibration.unit : 'px';
+    const decimals = calibration?.decimals ?? 2;
+    const format = (value: number) => value.toFixed(decimals);
+
+    switch (type) {
+      case 'distance': {
+        const points = MeasurementUtils.getPath(geometry);
+        if (!points || points.length < 2) return null;
+        const length = MeasurementUtils.pathLength(points) / scale;
+        return { type, unit, length, text: `${format(length)} ${unit}` };
+      }
+
+      case 'area': {
+        const result = MeasurementUtils.measureArea(geometry);
+        if (!result) return null;
+        const area = result.area / (scale * scale);
+        const perimeter = result.perimeter / scale;
+        return {
+          type,
+          unit,
+          area,
+          perimeter,
+          text: `A ${format(area)} ${unit}² · P ${format(perimeter)} ${unit}`,
+        };
+      }
+
+      case 'angle': {
+        const points = MeasurementUtils.getPath(geometry);
+        if (!points || points.length < 3) return null;
+        const degrees = MeasurementUtils.angle(points[0], points[1], points[2]);
+        return { type, unit, degrees, text: `${degrees.toFixed(1)}°` };
+      }
+
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Angle at `vertex` between the rays to `a` and `b`, in degrees (0..180)
+   */
+  static angle(a: Point, vertex: Point, b: Point): number {
+    const angleA = Math.atan2(a.y - vertex.y, a.x - vertex.x);
+    const angleB = Math.atan2(b.y - vertex.y, b.x - vertex.x);
+    const degrees = Math.abs(((angleA - angleB) * 180) / Math.PI) % 360;
+    return degrees > 180 ? 360 - degrees : degrees;
+  }
+
+  static pathLength(points: Point[]): number {
+    let length = 0;
+    for (let i = 1; i < points.length; i++) {
+      length += Math.hypot(points[i].x - points[i - 1].x, points[i].y - points[i - 1].y);
+    }
+    return length;
+  }
+
+  private static getPath(geometry: Geometry): Point[] | null {
+    switch (geometry.type) {
+      case 'line':
+      case 'polyline-arrow':
+        return geometry.points;
+      default:
+        return null;
+    }
+  }
+
+  private static measureArea(geometry: Geometry): { area: number; perimeter: number } | null {
+    switch (geometry.type) {
+      case 'rectangle':
+        return {
+          area: Math.abs(geometry.width * geometry.height),
+          perimeter: 2 * (Math.abs(geometry.width) + Math.abs(geometry.height)),
+        };
+      case 'polygon':
+      case 'freehand':
+        // Freehand paths of three or more points are drawn closed
+        if (geometry.points.length < 3) return null;
+        return {
+          area: GeometryUtils.polygonArea(geometry.points),
+          perimeter: MeasurementUtils.pathLength([...geometry.points, geometry.points[0]]),
+        };
+      case 'circle':
+        return {
+          area: Math.PI * geometry.r * geometry.r,
+          perimeter: 2 * Math.PI * geometry.r,
+        };
+      case 'ellipse': {
+        const { rx, ry } = geometry;
+        // Ramanujan's approximation of the circumference
+        const h = ((rx - ry) * (rx - ry)) / ((rx + ry) * (rx + ry) || 1);
+        return {
+          area: Math.PI * rx * ry,
+          perimeter: Math.PI * (rx + ry) * (1 + (3 * h) / (10 + Math.sqrt(4 - 3 * h))),
+        };
+      }
+      default:
+        return null;
+    }
+  }
+}
@@ -101,6 +101,50 @@ export class SVGUtils {
     }
   }
 
+  /**
+   * Rotate a point around a center by the given angle in degrees
+   */
+  static rotatePoint(
+    point: { x: number; y: number },
+    center: { x: number; y: number },
+    angle: number
+  ): { x: number; y: number } {
+    if (!angle) return { x: point.x, y: point.y };
+    const rad = (angle * Math.PI) / 180;
+    const cos = Math.cos(rad);
+    const sin = Math.sin(rad);
+    const dx = point.x - center.x;
+    const dy = point.y - center.y;
+    return {
+      x: center.x + dx * cos - dy * sin,
+      y: center.y + dx * sin + dy * cos,
+    };
+  }
+
+  /**
+   * Bounding box of a rectangle rotated around a center
+   */
+  static getRotatedBBox(
+    rect: { x: number; y: number; width: number; height: number },
+    center: { x: number; y: number },
+    angle: number
+  ): { minX: number; minY: number; maxX: number; maxY: number } {
+    const corners = [
+      { x: rect.x, y: rect.y },
+      { x: rect.x + rect.width, y: rect.y },
+      { x: rect.x + rect.width, y: rect.y + rect.height },
+      { x: rect.x, y: rect.y + rect.height },
+    ].map((corner) => this.rotatePoint(corner, center, angle));
+    const xs = corners.map((p) => p.x);
+    const ys = corners.map((p) => p.y);
+    return {
+      minX: Math.min(...xs),
+      minY: Math.min(...ys),
+      maxX: Math.max(...xs),
+      maxY: Math.max(...ys),
+    };
+  }
+
   /**
    * Create an SVG path from points
    */
@@ -117,6 +161,41 @@ export class SVGUtils {
     );
   }
 
+  /**
+   * Create an SVG path through the points, rounded with Catmull-Rom
+   * splines drawn as cubic Béziers. `smoothing` scales the tangents: 0 gives
+   * straight segments, 1 a uniform Catmull-Rom curve.
+   */
+  static createSmoothPath(
+    points: { x: number; y: number }[],
+    smoothing: number,
+    closed: boolean
+  ): string {
+    if (points.length < 3 || smoothing <= 0) {
+      return points.length === 0
+        ? ''
+        : points.map((p, i) => `${i === 0 ? 'M' : 'L'} ${p.x} ${p.y}`).join(' ') + (closed ? ' Z' : '');
+    }
+
+    const n = points.length;
+    const at = (i: number) => closed ? points[(i + n) % n] : points[Math.min(Math.max(i, 0), n - 1)];
+    const k = Math.min(smoothing, 1) / 6;
+    const segments = closed ? n : n - 1;
+
+    let d = `M ${points[0].x} ${points[0].y}`;
+    for (let i = 0; i < segments; i++) {
+      const p0 = at(i - 1);
+      const p1 = at(i);
+      const p2 = at(i + 1);
+      const p3 = at(i + 2);
+      d +=
+        ` C ${p1.x + (p2.x - p0.x) * k} ${p1.y + (p2.y - p0.y) * k}` +
+        ` ${p2.x - (p3.x - p1.x) * k} ${p2.y - (p3.y - p1.y) * k}` +
+        ` ${p2.x} ${p2.y}`;
+    }
+    return closed ? `${d} Z` : d;
+  }
+
   static getAnnotationBBox(
     annotation: Annotation
   ): { minX: number; minY: number; maxX: number; maxY: number } | null {
@@ -124,6 +203,13 @@ export class SVGUtils {
     if (!geom) return null;
     switch (geom.type) {
       case 'rectangle':
+        if (geom.rotation) {
+          return this.getRotatedBBox(
+            geom,
+            { x: geom.x + geom.width / 2, y: geom.y + geom.height / 2 },
+            geom.rotation
+          );
+        }
         return {
           minX: geom.x,
           minY: geom.y,
@@ -151,13 +237,24 @@ export class SVGUtils {
           maxX: geom.cx + geom.r,
           maxY: geom.cy + geom.r,
         };
-      case 'ellipse':
+      case 'ellipse': {
+        // Exact extents of a rotated ellipse
+        const rad = ((geom.rotation || 0) * Math.PI) / 180;
+        const cos = Math.cos(rad);
+        const sin = Math.sin(rad);
+        const halfWidth = Math.sqrt(
+          (geom.rx * cos) ** 2 + (geom.ry * sin) ** 2
+        );
+        const halfHeight = Math.sqrt(
+          (geom.rx * sin) ** 2 + (geom.ry * cos) ** 2
+        );
         return {
-          minX: geom.cx - geom.rx,
-          minY: geom.cy - geom.ry,
-          maxX: geom.cx + geom.rx,
-          maxY: geom.cy + geom.ry,
+          minX: geom.cx - halfWidth,
+          minY: geom.cy - halfHeight,
+          maxX: geom.cx + halfWidth,
+          maxY: geom.cy + halfHeight,
         };
+      }
       case 'text':
         // Ensure we have valid font properties
         const fontSize = geom.style?.fontSize || 16;
@@ -171,6 +268,19 @@ export class SVGUtils {
         );
         const estimatedHeight = fontSize * 1.2; // Line height approximation
 
+        if (geom.rotation) {
+          return this.getRotatedBBox(
+            {
+              x: geom.x - estimatedWidth / 2,
+              y: geom.y - estimatedHeight / 2,
+              width: estimatedWidth,
+              height: estimatedHeight,
+            },
+            { x: geom.x, y: geom.y },
+            geom.rotation
+          );
+        }
+
         return {
           minX: geom.x - estimatedWidth / 2,
           minY: geom.y - estimatedHeight / 2,
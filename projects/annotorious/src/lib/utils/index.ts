@@ -1,3 +1,5 @@
 export * from './SVGUtils';
 export * from './Touch';
 export * from './HitDetection';
+export * from './MeasurementUtils';
+export * from './FloodFill';
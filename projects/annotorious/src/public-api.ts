@@ -6,4 +6,6 @@ export * from './lib/angular/annotorious-openseadragon.module';
 export * from './lib/angular/annotorious-openseadragon.component';
 export * from './lib/angular/annotation.service';
 export * from './lib/types'
+export * from './lib/core/annotator/OpenSeadragonAnnotator';
+export * from './lib/core/storage';
 // ...other exports
\ No newline at end of file